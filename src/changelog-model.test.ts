@@ -0,0 +1,114 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  findPrereleaseReleases,
+  findRelease,
+  normalizeReleaseVersion,
+  parseChangelog,
+  serializeChangelog,
+  upsertRelease,
+} from './changelog-model';
+
+const CHANGELOG = `# Changelog
+
+Notes.
+
+## [Unreleased]
+
+### ✨ Features
+- pending
+
+## [v1.1.0] - 2024-02-01
+
+### 🐛 Bug Fixes
+- fix a
+  details of a
+
+<details>
+<summary>Prereleases</summary>
+
+### ignored
+- kept as notes
+</details>
+
+## [1.1.0-beta.0](https://example.com/compare) (2024-01-15)
+
+### ✨ Features
+- feature b
+
+[v1.1.0]: https://example.com/v1.1.0
+`;
+
+describe('parseChangelog', () => {
+  const document = parseChangelog(CHANGELOG);
+
+  it('解析文件头、未发布段落、版本段落和链接引用', () => {
+    expect(document.preamble).toEqual(['# Changelog', '', 'Notes.']);
+    expect(document.unreleased?.categories).toEqual([{ name: '✨ Features', items: ['- pending'] }]);
+    expect(document.releases.map((r) => [r.version, r.date])).toEqual([
+      ['v1.1.0', '2024-02-01'],
+      ['1.1.0-beta.0', '2024-01-15'],
+    ]);
+    expect(document.releases[1].link).toBe('https://example.com/compare');
+    expect(document.links).toEqual(['[v1.1.0]: https://example.com/v1.1.0']);
+  });
+
+  it('条目包含缩进的子行，折叠块原样保留', () => {
+    const [release] = document.releases;
+    expect(release.categories).toEqual([{ name: '🐛 Bug Fixes', items: ['- fix a\n  details of a'] }]);
+    expect(release.notes[0]).toBe('<details>');
+    expect(release.notes).toContain('### ignored');
+  });
+
+  it('解析后重新输出保持内容不变', () => {
+    expect(parseChangelog(serializeChangelog(document))).toEqual(document);
+    expect(serializeChangelog(document)).toBe(CHANGELOG);
+  });
+
+  it('非版本的二级标题及其内容原样保留', () => {
+    const content = '## [v1.0.0] - 2024-01-01\n\n### Fixes\n- a\n\n\n## Notes\n\n### Migration\n- keep\n';
+    const parsed = parseChangelog(content);
+    expect(parsed.releases.map((r) => r.version)).toEqual(['v1.0.0']);
+    expect(parsed.releases[0].notes).toEqual(['## Notes', '', '### Migration', '- keep']);
+    expect(serializeChangelog(parsed)).toBe(content);
+  });
+
+  it('仓库的 CHANGELOG 解析后重新输出逐字节不变', () => {
+    const content = readFileSync(new URL('../CHANGELOG.md', import.meta.url), 'utf8');
+    const parsed = parseChangelog(content);
+    expect(serializeChangelog(parsed)).toBe(content);
+
+    // 插入新版本时其余段落保持原文
+    const inserted = serializeChangelog(
+      upsertRelease(parsed, { version: 'v1.2.0', date: '2025-09-01', categories: [], notes: [] }),
+    );
+    expect(inserted).toBe(`## [v1.2.0] - 2025-09-01\n\n${content}`);
+  });
+});
+
+describe('版本段落操作', () => {
+  const document = parseChangelog(CHANGELOG);
+
+  it('比较版本时忽略标签前缀', () => {
+    expect(normalizeReleaseVersion('v1.2.0')).toBe('1.2.0');
+    expect(normalizeReleaseVersion('release-1.2.0-rc.1')).toBe('1.2.0-rc.1');
+    expect(findRelease(document, '1.1.0')?.version).toBe('v1.1.0');
+    expect(findRelease(document, 'v9.9.9')).toBeNull();
+  });
+
+  it('已存在的版本原位替换，新版本插入到最前面', () => {
+    const replaced = upsertRelease(document, { version: 'v1.1.0', date: '2024-03-01', categories: [], notes: [] });
+    expect(replaced.releases.map((r) => [r.version, r.date])).toEqual([
+      ['v1.1.0', '2024-03-01'],
+      ['1.1.0-beta.0', '2024-01-15'],
+    ]);
+
+    const inserted = upsertRelease(document, { version: 'v1.2.0', date: null, categories: [], notes: [] });
+    expect(inserted.releases.map((r) => r.version)).toEqual(['v1.2.0', 'v1.1.0', '1.1.0-beta.0']);
+  });
+
+  it('查找同一基础版本的预发布段落', () => {
+    expect(findPrereleaseReleases(document, 'v1.1.0').map((r) => r.version)).toEqual(['1.1.0-beta.0']);
+    expect(findPrereleaseReleases(document, 'v1.2.0')).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+import semver from 'semver';
+
+// ==================== CHANGELOG 模型 ====================
+
+/**
+ * 变更分类（`### ✨ Features`）
+ */
+export interface ChangelogCategory {
+  name: string;
+  /** 条目（以 `- ` 开头，包含缩进的子项，不含末尾换行） */
+  items: string[];
+}
+
+/**
+ * 版本段落（`## [v1.2.0] - 2024-01-01`）
+ */
+export interface ChangelogRelease {
+  /** 标题中的版本文本（如 `v1.2.0`、`Unreleased`） */
+  version: string;
+  /** 标题中版本号上的链接（如 conventional-changelog 生成的对比链接） */
+  link?: string;
+  date: string | null;
+  categories: ChangelogCategory[];
+  /** 分类之外的内容（如预发布记录的折叠块），原样保留并输出在分类之后 */
+  notes: string[];
+}
+
+/**
+ * Keep a Changelog 格式的 CHANGELOG 文档
+ */
+export interface ChangelogDocument {
+  /** 第一个版本段落之前的内容（标题和说明） */
+  preamble: string[];
+  unreleased: ChangelogRelease | null;
+  /** 版本段落（按文件顺序，最新的在前） */
+  releases: ChangelogRelease[];
+  /** 文件末尾的链接引用定义（`[v1.2.0]: https://...`） */
+  links: string[];
+}
+
+/** 新建 CHANGELOG 时的文件头 */
+export const CHANGELOG_PREAMBLE = [
+  '# Changelog',
+  '',
+  'All notable changes to this project will be documented in this file.',
+  '',
+  'The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),',
+  'and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).',
+];
+
+/**
+ * 版本标题：`## [v1.2.0] - 2024-01-01`、`## [Unreleased]`、`## [1.2.0](compare-url) (2024-01-01)`
+ *
+ * 版本文本必须是带可选标签前缀的语义化版本或 `Unreleased`，其他二级标题（如 `## Notes`）作为普通内容保留
+ */
+const RELEASE_HEADING_PATTERN =
+  /^## \[?([Uu]nreleased|[^\]\s]*?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)\]?(?:\(([^)\s]+)\))?(?:\s+[-–]?\s*\(?(\d{4}-\d{2}-\d{2})\)?)?\s*$/;
+
+/** 其他二级标题（非版本段落），其后的内容原样保留 */
+const SECTION_HEADING_PATTERN = /^## /;
+
+/** 分类标题 */
+const CATEGORY_HEADING_PATTERN = /^### (.+?)\s*$/;
+
+/** 链接引用定义 */
+const LINK_REFERENCE_PATTERN = /^\[[^\]]+\]:\s/;
+
+/** 列表条目 */
+const ITEM_PATTERN = /^[-*] /;
+
+// ==================== 解析 ====================
+
+/**
+ * 去掉首尾空行
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
+
+/**
+ * 解析版本段落的正文（标题之后的内容）
+ */
+export function parseReleaseBody(lines: string[]): Pick<ChangelogRelease, 'categories' | 'notes'> {
+  const categories: ChangelogCategory[] = [];
+  const notes: string[] = [];
+  let category: ChangelogCategory | null = null;
+  let inDetails = false;
+  let inSection = false;
+
+  for (const line of lines) {
+    // 非版本的二级标题（如 `## Notes`）及其后的内容原样保留，不参与解析
+    if (inSection || SECTION_HEADING_PATTERN.test(line)) {
+      notes.push(line);
+      inSection = true;
+      continue;
+    }
+
+    // 折叠块原样保留，其中的标题和条目不参与解析
+    if (inDetails || /^<details\b/i.test(line.trim())) {
+      notes.push(line);
+      inDetails = !/<\/details>/i.test(line);
+      continue;
+    }
+
+    const heading = line.match(CATEGORY_HEADING_PATTERN);
+    if (heading) {
+      category = categories.find((c) => c.name === heading[1]) || null;
+      if (!category) {
+        category = { name: heading[1], items: [] };
+        categories.push(category);
+      }
+      continue;
+    }
+
+    if (category && ITEM_PATTERN.test(line)) {
+      category.items.push(line);
+    } else if (category && category.items.length > 0 && /^\s+\S/.test(line)) {
+      category.items[category.items.length - 1] += `\n${line}`;
+    } else if (line.trim()) {
+      notes.push(line);
+      category = null;
+    } else if (!category) {
+      notes.push(line);
+    }
+  }
+
+  return {
+    categories: categories.filter((c) => c.items.length > 0),
+    notes: trimBlankLines(notes),
+  };
+}
+
+/**
+ * 未解析正文的版本段落
+ */
+interface RawSection {
+  version: string;
+  link?: string;
+  date: string | null;
+  lines: string[];
+  /** 原文的起止行（包含标题和其后的空行） */
+  start: number;
+  end: number;
+  /** 段落中是否有链接引用定义 */
+  hasLinks?: boolean;
+}
+
+/**
+ * 解析得到的文件头、版本段落和链接引用对应的原文
+ *
+ * 以对象为键：修改段落或文件头会生成新对象，未修改的部分输出时原样使用原文，保证解析后重新输出的内容逐字节不变
+ */
+const sourceText = new WeakMap<object, string>();
+
+/**
+ * 将行还原为原文（每行以换行结尾）
+ */
+function joinSourceLines(lines: string[]): string {
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * 解析 CHANGELOG 文件内容
+ */
+export function parseChangelog(content: string): ChangelogDocument {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const document: ChangelogDocument = { preamble: [], unreleased: null, releases: [], links: [] };
+
+  // 文件末尾只由链接引用定义和空行组成的部分作为链接区块（区块之前的空行属于上一个段落）
+  let linksStart = lines.length;
+  for (let i = lines.length - 1; i >= 0 && (!lines[i].trim() || LINK_REFERENCE_PATTERN.test(lines[i])); i--) {
+    if (lines[i].trim()) linksStart = i;
+  }
+
+  const sections: RawSection[] = [];
+  const preamble: string[] = [];
+  let preambleEnd = linksStart;
+  let preambleHasLinks = false;
+  let current: RawSection | null = null;
+
+  for (let i = 0; i < linksStart; i++) {
+    const line = lines[i];
+    const heading = line.match(RELEASE_HEADING_PATTERN);
+    if (heading) {
+      if (current) current.end = i;
+      else preambleEnd = i;
+      current = {
+        version: heading[1],
+        link: heading[2],
+        date: heading[3] || null,
+        lines: [],
+        start: i,
+        end: linksStart,
+      };
+      sections.push(current);
+    } else if (LINK_REFERENCE_PATTERN.test(line)) {
+      // 段落中的链接引用定义移到文件末尾，该段落不再按原文输出
+      document.links.push(line);
+      if (current) current.hasLinks = true;
+      else preambleHasLinks = true;
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  const trailingLinks = lines.slice(linksStart).filter((line) => line.trim());
+  document.links.push(...trailingLinks);
+
+  document.preamble = trimBlankLines(preamble);
+  if (!preambleHasLinks) sourceText.set(document.preamble, joinSourceLines(lines.slice(0, preambleEnd)));
+  for (const section of sections) {
+    const release: ChangelogRelease = {
+      version: section.version,
+      ...(section.link ? { link: section.link } : {}),
+      date: section.date,
+      ...parseReleaseBody(section.lines),
+    };
+    if (!section.hasLinks) sourceText.set(release, joinSourceLines(lines.slice(section.start, section.end)));
+    if (section.version.toLowerCase() === 'unreleased') {
+      document.unreleased = release;
+    } else {
+      document.releases.push(release);
+    }
+  }
+  if (document.links.length === trailingLinks.length) {
+    sourceText.set(document.links, joinSourceLines(lines.slice(linksStart)));
+  }
+
+  return document;
+}
+
+// ==================== 序列化 ====================
+
+/**
+ * 输出版本段落的正文（分类和附加内容）
+ */
+export function formatReleaseBody(release: Pick<ChangelogRelease, 'categories' | 'notes'>): string {
+  const blocks = release.categories
+    .filter((category) => category.items.length > 0)
+    .map((category) => [`### ${category.name}`, ...category.items].join('\n'));
+  if (release.notes.length > 0) {
+    blocks.push(release.notes.join('\n'));
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * 输出单个版本段落
+ */
+function formatRelease(release: ChangelogRelease): string {
+  const heading = `## [${release.version}]${release.link ? `(${release.link})` : ''}${release.date ? ` - ${release.date}` : ''}`;
+  const body = formatReleaseBody(release);
+  return body ? `${heading}\n\n${body}` : heading;
+}
+
+/**
+ * 将 CHANGELOG 文档输出为文件内容
+ *
+ * 解析后未修改的部分原样输出原文，新生成的部分与前后内容之间保留一个空行
+ */
+export function serializeChangelog(document: ChangelogDocument): string {
+  const releases = document.unreleased ? [document.unreleased, ...document.releases] : document.releases;
+  const parts: [object, () => string][] = [
+    [document.preamble, () => document.preamble.join('\n')],
+    ...releases.map((release): [object, () => string] => [release, () => formatRelease(release)]),
+    [document.links, () => document.links.join('\n')],
+  ];
+
+  let content = '';
+  let previousFormatted = false;
+  for (const [part, format] of parts) {
+    const source = sourceText.get(part);
+    const text = source ?? format();
+    if (!text) continue;
+
+    const formatted = source === undefined;
+    if (content && (formatted || previousFormatted) && !content.endsWith('\n\n')) content += '\n';
+    content += formatted ? `${text}\n` : text;
+    previousFormatted = formatted;
+  }
+  return content;
+}
+
+// ==================== 版本段落操作 ====================
+
+/**
+ * 统一版本文本（去掉 `v`、`version-` 等标签前缀）用于比较
+ */
+export function normalizeReleaseVersion(version: string): string {
+  return version.replace(/^.*?(?=\d+\.\d+\.\d+)/, '');
+}
+
+/**
+ * 按版本查找段落
+ */
+export function findRelease(document: ChangelogDocument, version: string): ChangelogRelease | null {
+  const target = normalizeReleaseVersion(version);
+  return document.releases.find((release) => normalizeReleaseVersion(release.version) === target) || null;
+}
+
+/**
+ * 插入或替换版本段落：已存在时原位替换，否则插入到最前面
+ */
+export function upsertRelease(document: ChangelogDocument, release: ChangelogRelease): ChangelogDocument {
+  const existing = findRelease(document, release.version);
+  return {
+    ...document,
+    releases: existing ? document.releases.map((r) => (r === existing ? release : r)) : [release, ...document.releases],
+  };
+}
+
+/**
+ * 找出与指定正式版本同一基础版本的预发布段落
+ */
+export function findPrereleaseReleases(document: ChangelogDocument, version: string): ChangelogRelease[] {
+  const release = semver.parse(normalizeReleaseVersion(version));
+  if (!release) return [];
+
+  return document.releases.filter((r) => {
+    const parsed = semver.parse(normalizeReleaseVersion(r.version));
+    return (
+      !!parsed && parsed.prerelease.length > 0 && `${parsed.major}.${parsed.minor}.${parsed.patch}` === release.version
+    );
+  });
+}
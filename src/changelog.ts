@@ -0,0 +1,509 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { exec } from '@actions/exec';
+import semver from 'semver';
+import {
+  CHANGELOG_PREAMBLE,
+  type ChangelogCategory,
+  type ChangelogDocument,
+  type ChangelogRelease,
+  findPrereleaseReleases,
+  findRelease,
+  formatReleaseBody,
+  parseChangelog,
+  serializeChangelog,
+  upsertRelease,
+} from './changelog-model';
+import { getChannel } from './channel';
+import { getActionConfig } from './config';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { getCategoryFromLabels, getCategoryOrder } from './labels';
+import { getMergedPRNumbersForCommit, getPullRequest } from './pr';
+import type { PRData, SupportedBranch } from './types';
+import { getPreviousChannelTag, VersionUtils } from './version';
+
+// ==================== CHANGELOG 配置 ====================
+
+/** 正式发布时预发布版本条目的处理方式 */
+export type PrereleaseChangelogMode = 'keep' | 'remove' | 'details';
+
+let prereleaseChangelogMode: PrereleaseChangelogMode | null = null;
+
+/**
+ * 正式发布时预发布版本条目的处理方式（keep 保持不变，remove 合并后删除，details 合并后折叠保留）
+ */
+export function getPrereleaseChangelogMode(): PrereleaseChangelogMode {
+  if (!prereleaseChangelogMode) {
+    prereleaseChangelogMode = parsePrereleaseChangelogMode(core.getInput('collapse-prerelease-changelog'));
+  }
+  return prereleaseChangelogMode;
+}
+
+/** 通过提交关联API查询PR时最多查询的提交数 */
+const MAX_COMMIT_LOOKUPS = 100;
+
+/**
+ * CHANGELOG 作用范围（monorepo 包使用各自的文件、标签和目录）
+ */
+export interface ChangelogScope {
+  /** CHANGELOG 文件路径 */
+  changelogPath?: string;
+  /** 标签命名空间前缀 */
+  tagPrefix?: string;
+  /** 只统计该目录下的提交 */
+  packageDir?: string;
+}
+
+/**
+ * 解析预发布条目处理方式配置（`true` 等同于 `remove`）
+ */
+function parsePrereleaseChangelogMode(input: string): PrereleaseChangelogMode {
+  const value = input?.trim().toLowerCase();
+  if (!value || value === 'false' || value === 'keep') return 'keep';
+  if (value === 'true' || value === 'remove') return 'remove';
+  if (value === 'details') return 'details';
+  logger.warning(MESSAGES.log.changelogModeUnknown(input));
+  return 'keep';
+}
+
+// ==================== CHANGELOG 条目生成 ====================
+
+/**
+ * 生成单个PR的CHANGELOG条目（标题、链接和PR描述中的要点）
+ */
+function formatPRItem(pr: PRData): string {
+  // 添加PR标题和链接
+  const prUrl = pr.html_url;
+  const prTitle = pr.title || `PR #${pr.number}`;
+  let item = `- ${prTitle} ([#${pr.number}](${prUrl}))`;
+
+  // 如果PR有body，提取关键信息
+  if (pr.body && pr.body.trim()) {
+    const body = pr.body.trim();
+
+    // 查找特定的section（如 "### Changes", "## What's Changed" 等）
+    const sections = [
+      '### Changes',
+      '## Changes',
+      "### What's Changed",
+      "## What's Changed",
+      '### Summary',
+      '## Summary',
+    ];
+    for (const section of sections) {
+      const sectionIndex = body.indexOf(section);
+      if (sectionIndex !== -1) {
+        const sectionContent = body.substring(sectionIndex + section.length);
+        const nextSectionIndex = sectionContent.search(/^##/m);
+        const content = nextSectionIndex !== -1 ? sectionContent.substring(0, nextSectionIndex) : sectionContent;
+
+        const cleanContent = content
+          .trim()
+          .split('\n')
+          .filter((line) => line.trim())
+          .slice(0, 5) // 最多5行
+          .map((line) => (line.startsWith('- ') ? `  ${line}` : `  - ${line}`))
+          .join('\n');
+
+        if (cleanContent) {
+          item += `\n${cleanContent}`;
+          break;
+        }
+      }
+    }
+  }
+
+  return item;
+}
+
+/**
+ * 按分类排序（已知分类按固定顺序，其余分类保持原顺序）
+ */
+function sortCategories(categories: ChangelogCategory[]): ChangelogCategory[] {
+  const typeOrder = getCategoryOrder(getActionConfig().labelRules);
+  const rank = (name: string) => {
+    const index = typeOrder.indexOf(name);
+    return index === -1 ? typeOrder.length : index;
+  };
+  return [...categories].sort((a, b) => rank(a.name) - rank(b.name));
+}
+
+/**
+ * 基于一组PR生成按类型分组的CHANGELOG分类
+ */
+export function buildChangelogCategories(prs: PRData[], version: string): ChangelogCategory[] {
+  if (prs.length === 0) {
+    return [{ name: 'Changes', items: [`- Version ${version} release`] }];
+  }
+
+  const categories: ChangelogCategory[] = [];
+  for (const pr of [...prs].sort((a, b) => a.number - b.number)) {
+    const type = getCategoryFromLabels(pr.labels, getActionConfig().labelRules);
+    let category = categories.find((c) => c.name === type);
+    if (!category) {
+      category = { name: type, items: [] };
+      categories.push(category);
+    }
+    category.items.push(formatPRItem(pr));
+  }
+  return sortCategories(categories);
+}
+
+/**
+ * 生成 PR 合并后将写入的 CHANGELOG 条目（用于预览评论）
+ */
+export function buildChangelogPreview(pr: PRData | null, version: string): string {
+  return formatReleaseBody({ categories: buildChangelogCategories(pr ? [pr] : [], version), notes: [] });
+}
+
+// ==================== 条目合并 ====================
+
+/** 没有PR时生成的占位条目 */
+const PLACEHOLDER_ITEM_PATTERN = /^- Version \S+ release$/;
+
+/**
+ * 条目去重键：优先使用PR编号，其次使用条目首行
+ */
+function getItemKey(item: string): string {
+  const prNumber = item.match(/\[#(\d+)\]/);
+  return prNumber ? `#${prNumber[1]}` : item.split('\n')[0].trim();
+}
+
+/**
+ * 合并多组分类：按分类合并、按PR去重（靠前的条目优先），丢弃占位条目（除非没有其他条目）
+ */
+export function mergeChangelogCategories(groups: ChangelogCategory[][]): ChangelogCategory[] {
+  const merged: ChangelogCategory[] = [];
+  const seen = new Set<string>();
+  let placeholder: ChangelogCategory | null = null;
+
+  for (const categories of groups) {
+    for (const { name, items } of categories) {
+      for (const item of items) {
+        if (PLACEHOLDER_ITEM_PATTERN.test(item.trim())) {
+          placeholder = placeholder || { name, items: [item] };
+          continue;
+        }
+
+        const key = getItemKey(item);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        let category = merged.find((c) => c.name === name);
+        if (!category) {
+          category = { name, items: [] };
+          merged.push(category);
+        }
+        category.items.push(item);
+      }
+    }
+  }
+
+  if (merged.length === 0 && placeholder) {
+    return [placeholder];
+  }
+  return sortCategories(merged);
+}
+
+/**
+ * 将预发布段落输出为折叠块（标题降两级，避免被识别为版本段落）
+ */
+function foldPrereleaseReleases(releases: ChangelogRelease[]): string[] {
+  const content = releases.flatMap((release) => [
+    `#### [${release.version}]${release.date ? ` - ${release.date}` : ''}`,
+    '',
+    ...formatReleaseBody(release)
+      .split('\n')
+      .map((line) => (line.startsWith('### ') ? `##${line}` : line)),
+    '',
+  ]);
+
+  return ['<details>', '<summary>Prerelease history</summary>', '', ...content, '</details>'];
+}
+
+/**
+ * 正式发布时合并同一基础版本的预发布段落
+ */
+function collapsePrereleaseReleases(document: ChangelogDocument, release: ChangelogRelease): ChangelogDocument {
+  const prereleases = findPrereleaseReleases(document, release.version);
+  if (prereleases.length === 0) {
+    return upsertRelease(document, release);
+  }
+
+  logger.info(
+    MESSAGES.log.changelogCollapsed(prereleases.length, release.version, prereleases.map((r) => r.version).join(', ')),
+  );
+
+  const collapsed: ChangelogRelease = {
+    ...release,
+    categories: mergeChangelogCategories([release.categories, ...prereleases.map((r) => r.categories)]),
+    notes:
+      getPrereleaseChangelogMode() === 'details'
+        ? [...foldPrereleaseReleases(prereleases), ...(release.notes.length > 0 ? ['', ...release.notes] : [])]
+        : release.notes,
+  };
+
+  return upsertRelease({ ...document, releases: document.releases.filter((r) => !prereleases.includes(r)) }, collapsed);
+}
+
+// ==================== 合并PR收集 ====================
+
+/**
+ * 执行 git 命令并捕获输出
+ */
+async function execGitWithOutput(args: string[]): Promise<string> {
+  let stdout = '';
+  await exec('git', args, {
+    silent: true,
+    listeners: {
+      stdout: (data: Buffer) => {
+        stdout += data.toString();
+      },
+    },
+  });
+  return stdout.trim();
+}
+
+/**
+ * 获取两个引用之间的提交（可限定目录）
+ */
+export async function getCommitsInRange(
+  from: string,
+  to: string,
+  path?: string,
+): Promise<{ sha: string; message: string }[]> {
+  const args = ['log', '--format=%H%x1f%B%x1e', `${from}..${to}`];
+  if (path) args.push('--', path);
+
+  const stdout = await execGitWithOutput(args);
+  return stdout
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [sha, message = ''] = record.split('\x1f');
+      return { sha: sha.trim(), message: message.trim() };
+    });
+}
+
+/**
+ * 从提交消息中提取PR编号（merge commit 和 squash merge 两种格式）
+ */
+function extractPRNumbers(message: string): number[] {
+  const subject = message.split('\n')[0];
+  const numbers: number[] = [];
+
+  const mergeMatch = subject.match(/^Merge pull request #(\d+)/);
+  if (mergeMatch) numbers.push(Number(mergeMatch[1]));
+
+  const squashMatch = subject.match(/\(#(\d+)\)\s*$/);
+  if (squashMatch) numbers.push(Number(squashMatch[1]));
+
+  return numbers;
+}
+
+/**
+ * 检查是否为本Action生成的自动提交
+ */
+export function isAutomatedCommit(message: string): boolean {
+  return (
+    message.includes('[skip ci]') ||
+    message.startsWith('chore: bump version') ||
+    message.startsWith('docs: update CHANGELOG')
+  );
+}
+
+/**
+ * 收集两个标签之间合并的所有PR
+ *
+ * 优先从提交消息中解析PR编号；提交消息中没有任何PR编号时（如 rebase 合并），通过提交关联API查询。
+ */
+export async function collectMergedPRs(
+  previousTag: string,
+  currentTag: string,
+  packageDir?: string,
+): Promise<PRData[]> {
+  const commits = (await getCommitsInRange(previousTag, currentTag, packageDir)).filter(
+    (commit) => !isAutomatedCommit(commit.message),
+  );
+  logger.info(MESSAGES.log.changelogCommits(previousTag, currentTag, commits.length));
+
+  const prNumbers = new Set(commits.flatMap((commit) => extractPRNumbers(commit.message)));
+
+  if (prNumbers.size === 0 && commits.length > 0) {
+    logger.info(MESSAGES.log.changelogQueryPRs);
+    for (const commit of commits.slice(0, MAX_COMMIT_LOOKUPS)) {
+      for (const prNumber of await getMergedPRNumbersForCommit(commit.sha)) {
+        prNumbers.add(prNumber);
+      }
+    }
+  }
+
+  const prs: PRData[] = [];
+  for (const prNumber of Array.from(prNumbers)) {
+    const pr = await getPullRequest(prNumber);
+    if (pr?.merged_at) prs.push(pr);
+  }
+  return prs;
+}
+
+/**
+ * 基于上一个同通道标签以来合并的所有PR生成CHANGELOG条目
+ */
+async function generateChangelogFromPRs(
+  pr: PRData | null,
+  version: string,
+  targetBranch: SupportedBranch,
+  scope: ChangelogScope,
+): Promise<ChangelogCategory[]> {
+  const tagPrefix = scope.tagPrefix || VersionUtils.getVersionPrefix();
+  const currentTag = `${tagPrefix}${VersionUtils.cleanVersion(version)}`;
+  const previousTag = await getPreviousChannelTag(targetBranch, currentTag, tagPrefix);
+
+  let prs: PRData[] = [];
+  if (previousTag) {
+    try {
+      // 通道之间的晋升PR（如 beta → main）本身不是变更，只保留其中包含的功能PR
+      prs = (await collectMergedPRs(previousTag, currentTag, scope.packageDir)).filter(
+        (merged) => !getChannel(merged.head.ref, getActionConfig().channels),
+      );
+    } catch (error) {
+      logger.warning(MESSAGES.log.changelogCollectFailed(previousTag, currentTag, error));
+    }
+  } else {
+    logger.info(MESSAGES.log.changelogNoPreviousTag(targetBranch));
+  }
+
+  if (prs.length === 0 && pr) {
+    prs = [pr];
+  }
+
+  logger.info(MESSAGES.log.changelogPRs(prs.length, prs.map((p) => `#${p.number}`).join(', ')));
+  return buildChangelogCategories(prs, version);
+}
+
+// ==================== CHANGELOG 文件操作 ====================
+
+/**
+ * 读取 CHANGELOG 文件，不存在时返回只有文件头的文档
+ */
+async function readChangelog(changelogPath: string): Promise<ChangelogDocument> {
+  try {
+    const content = await readFile(changelogPath, 'utf8');
+    logger.info(MESSAGES.log.changelogRead);
+    return parseChangelog(content);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    logger.info(MESSAGES.log.changelogCreate(changelogPath));
+    return { preamble: [...CHANGELOG_PREAMBLE], unreleased: null, releases: [], links: [] };
+  }
+}
+
+/**
+ * 更新 CHANGELOG - 基于PR信息生成，返回本次生成的条目内容（用于 Release 说明）
+ *
+ * 按版本插入或更新段落：重复运行同一版本时合并已有条目而不是重复添加；
+ * `[Unreleased]` 中的条目会并入新版本。
+ */
+export async function updateChangelog(
+  pr: PRData | null,
+  version: string,
+  targetBranch: SupportedBranch,
+  scope: ChangelogScope = {},
+): Promise<string | null> {
+  const { changelogPath = 'CHANGELOG.md', tagPrefix = VersionUtils.getVersionPrefix() } = scope;
+
+  // 检查是否启用CHANGELOG生成
+  const enableChangelog = core.getInput('enable-changelog')?.toLowerCase() !== 'false';
+  if (!enableChangelog) {
+    logger.info(MESSAGES.log.changelogDisabled);
+    return null;
+  }
+
+  try {
+    logger.info(MESSAGES.log.changelogStart(changelogPath));
+
+    const currentDate = new Date().toISOString().split('T')[0];
+    const cleanVersion = VersionUtils.cleanVersion(version);
+    // 标题使用发布标签（monorepo 包为 `pkg-a@1.2.3`）
+    const versionTag = `${tagPrefix}${cleanVersion}`;
+
+    // 汇总上一个同通道标签以来所有已合并PR，生成CHANGELOG条目
+    const categories = await generateChangelogFromPRs(pr, version, targetBranch, scope);
+
+    let document = await readChangelog(changelogPath);
+    const existing = findRelease(document, versionTag);
+    if (existing) {
+      logger.info(MESSAGES.log.changelogMergeEntry(changelogPath, versionTag));
+    }
+
+    const release: ChangelogRelease = {
+      version: existing?.version || versionTag,
+      date: existing?.date || currentDate,
+      categories: mergeChangelogCategories([
+        categories,
+        existing?.categories || [],
+        document.unreleased?.categories || [],
+      ]),
+      notes: existing?.notes || [],
+    };
+    if (document.unreleased) {
+      document = { ...document, unreleased: { ...document.unreleased, categories: [] } };
+    }
+
+    // 正式发布时合并同一基础版本的预发布条目
+    document =
+      getPrereleaseChangelogMode() !== 'keep' && !semver.prerelease(cleanVersion)
+        ? collapsePrereleaseReleases(document, release)
+        : upsertRelease(document, release);
+
+    const newContent = serializeChangelog(document);
+    await writeFile(changelogPath, newContent, 'utf8');
+
+    logger.info(MESSAGES.log.changelogUpdated(versionTag));
+
+    // 显示新增的内容预览
+    logger.info(MESSAGES.log.changelogPreview);
+    logger.info(newContent.split('\n').slice(0, 15).join('\n'));
+
+    const written = findRelease(document, versionTag)!;
+    return formatReleaseBody({ categories: written.categories, notes: [] });
+  } catch (error) {
+    logger.warning(MESSAGES.log.changelogFailed(error));
+
+    // 如果失败，使用原来的conventional-changelog逻辑作为备用
+    await fallbackToConventionalChangelog(changelogPath);
+    return null;
+  }
+}
+
+/**
+ * 备用方案：使用conventional-changelog
+ */
+async function fallbackToConventionalChangelog(changelogPath: string): Promise<void> {
+  try {
+    logger.info(MESSAGES.log.changelogFallback);
+
+    // 检查是否已安装
+    try {
+      await exec('npx', ['conventional-changelog-cli', '--version']);
+    } catch {
+      await exec('npm', ['install', '-g', 'conventional-changelog-cli', 'conventional-changelog-conventionalcommits']);
+    }
+
+    await exec('npx', [
+      'conventional-changelog-cli',
+      '-p',
+      'conventionalcommits',
+      '-i',
+      changelogPath,
+      '-s',
+      '-r',
+      '0',
+    ]);
+
+    logger.info(MESSAGES.log.changelogFallbackDone);
+  } catch (error) {
+    logger.warning(MESSAGES.log.changelogFallbackFailed(error));
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeReleaseFlow,
+  getDefaultChannelVersion,
+  getDownstreamChannel,
+  getSyncPlan,
+  getUpstreamChannel,
+  parseBranchPatterns,
+  parseReleaseChannels,
+} from './channel';
+import { getMessages } from './messages';
+
+const messages = getMessages('en');
+
+describe('parseReleaseChannels', () => {
+  it('解析通道链，预发布标识缺省时使用分支名', () => {
+    expect(parseReleaseChannels('master → rc → next:beta', messages)).toEqual([
+      { branch: 'master', prerelease: null },
+      { branch: 'rc', prerelease: 'rc' },
+      { branch: 'next', prerelease: 'beta' },
+    ]);
+  });
+
+  it('支持逗号、-> 和换行分隔', () => {
+    expect(parseReleaseChannels('main,beta -> alpha\ncanary', messages).map((c) => c.branch)).toEqual([
+      'main',
+      'beta',
+      'alpha',
+      'canary',
+    ]);
+  });
+
+  it('拒绝无效的通道链', () => {
+    expect(() => parseReleaseChannels('main', messages)).toThrow(messages.error.channelsTooFew('main'));
+    expect(() => parseReleaseChannels('main:stable,beta', messages)).toThrow(/main/);
+    expect(() => parseReleaseChannels('main,beta,beta', messages)).toThrow(
+      messages.error.channelDuplicateBranch('main,beta,beta'),
+    );
+    expect(() => parseReleaseChannels('main,next:beta,beta', messages)).toThrow(
+      messages.error.channelDuplicatePrerelease('main,next:beta,beta'),
+    );
+    expect(() => parseReleaseChannels('main,next:123', messages)).toThrow(
+      messages.error.channelInvalidPrerelease('next', '123'),
+    );
+  });
+});
+
+describe('通道查询', () => {
+  const channels = parseReleaseChannels('main,beta,alpha', messages);
+
+  it('沿通道链查找上下游通道', () => {
+    expect(getDownstreamChannel('main', channels)?.branch).toBe('beta');
+    expect(getDownstreamChannel('alpha', channels)).toBeNull();
+    expect(getUpstreamChannel('beta', channels)?.branch).toBe('main');
+    expect(getUpstreamChannel('main', channels)).toBeNull();
+  });
+
+  it('从入口通道到正式通道描述发布流程', () => {
+    expect(describeReleaseFlow(channels)).toBe('alpha → beta → main');
+  });
+
+  it('预发布通道的默认版本带预发布标识', () => {
+    expect(getDefaultChannelVersion(channels[0])).toBe('0.0.0');
+    expect(getDefaultChannelVersion(channels[2])).toBe('0.0.0-alpha.0');
+  });
+});
+
+describe('getSyncPlan', () => {
+  const channels = parseReleaseChannels('main,beta,alpha', messages);
+  const hotfixBranches = parseBranchPatterns('hotfix/*');
+
+  it('正式通道 rebase 同步，其余通道 merge 同步', () => {
+    expect(getSyncPlan('main', 'beta', channels, hotfixBranches)).toEqual([
+      { source: 'main', target: 'beta', strategy: 'rebase', preserveVersions: false },
+      { source: 'beta', target: 'alpha', strategy: 'merge', preserveVersions: false },
+    ]);
+  });
+
+  it('热修复发布后全部 merge 同步并保留下游版本文件', () => {
+    expect(getSyncPlan('main', 'hotfix/login', channels, hotfixBranches)).toEqual([
+      { source: 'main', target: 'beta', strategy: 'merge', preserveVersions: true },
+      { source: 'beta', target: 'alpha', strategy: 'merge', preserveVersions: true },
+    ]);
+  });
+
+  it('入口通道没有下游同步', () => {
+    expect(getSyncPlan('alpha', 'feature/x', channels, hotfixBranches)).toEqual([]);
+  });
+});
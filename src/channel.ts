@@ -0,0 +1,202 @@
+import type { MessageCatalog } from './messages';
+import { ActionError, DEFAULT_BASE_VERSION, type ReleaseChannel, type SyncStep } from './types';
+
+// ==================== 发布通道拓扑 ====================
+
+/** 默认通道链：main → beta → alpha */
+export const DEFAULT_RELEASE_CHANNELS = 'main,beta,alpha';
+
+/** 合法的 semver 预发布标识（不能是纯数字） */
+const PRERELEASE_ID_PATTERN = /^(?!\d+$)[0-9A-Za-z-]+$/;
+
+/**
+ * 解析通道链配置
+ *
+ * 格式：按从稳定到不稳定的顺序排列，支持 `,`、`->`、`→` 分隔，
+ * 每个通道可写作 `branch` 或 `branch:prereleaseId`（缺省时使用分支名作为预发布标识）。
+ * 第一个通道为正式发布通道，不带预发布标识。
+ *
+ * @example parseReleaseChannels('master → rc → next:beta → canary')
+ */
+export function parseReleaseChannels(input: string, messages: MessageCatalog): ReleaseChannel[] {
+  const entries = input
+    .split(/,|->|→|\n/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  if (entries.length < 2) {
+    throw new ActionError(messages.error.channelsTooFew(input), 'parseReleaseChannels');
+  }
+
+  const channels = entries.map((entry, index): ReleaseChannel => {
+    const [branch, id] = entry.split(':').map((part) => part.trim());
+    if (!branch) {
+      throw new ActionError(messages.error.channelMissingBranch(entry), 'parseReleaseChannels');
+    }
+
+    // 正式通道不允许声明预发布标识
+    if (index === 0) {
+      if (id) {
+        throw new ActionError(messages.error.stableChannelPrerelease(branch, entry), 'parseReleaseChannels');
+      }
+      return { branch, prerelease: null };
+    }
+
+    const prerelease = id || branch;
+    if (!PRERELEASE_ID_PATTERN.test(prerelease)) {
+      throw new ActionError(messages.error.channelInvalidPrerelease(branch, prerelease), 'parseReleaseChannels');
+    }
+    return { branch, prerelease };
+  });
+
+  const branches = new Set(channels.map((c) => c.branch));
+  if (branches.size !== channels.length) {
+    throw new ActionError(messages.error.channelDuplicateBranch(input), 'parseReleaseChannels');
+  }
+
+  const prereleaseIds = channels.filter((c) => c.prerelease).map((c) => c.prerelease);
+  if (new Set(prereleaseIds).size !== prereleaseIds.length) {
+    throw new ActionError(messages.error.channelDuplicatePrerelease(input), 'parseReleaseChannels');
+  }
+
+  return channels;
+}
+
+/**
+ * 将分支模式（支持 `*` 通配符）转换为正则
+ */
+function compileBranchPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * 解析分支模式列表（逗号或换行分隔）
+ */
+export function parseBranchPatterns(input: string): RegExp[] {
+  return input
+    .split(/,|\n/)
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0)
+    .map(compileBranchPattern);
+}
+
+// ==================== 通道查询 ====================
+
+/**
+ * 获取分支对应的通道
+ */
+export function getChannel(branch: string, channels: readonly ReleaseChannel[]): ReleaseChannel | null {
+  return channels.find((c) => c.branch === branch) || null;
+}
+
+/**
+ * 获取正式发布通道（通道链首位）
+ */
+export function getStableChannel(channels: readonly ReleaseChannel[]): ReleaseChannel {
+  return channels[0];
+}
+
+/**
+ * 获取入口通道（通道链末位，新功能首先进入的通道）
+ */
+export function getEntryChannel(channels: readonly ReleaseChannel[]): ReleaseChannel {
+  return channels[channels.length - 1];
+}
+
+/**
+ * 获取下游通道（更不稳定的一侧，也是当前通道的晋升来源）
+ */
+export function getDownstreamChannel(branch: string, channels: readonly ReleaseChannel[]): ReleaseChannel | null {
+  const index = channels.findIndex((c) => c.branch === branch);
+  if (index === -1) return null;
+  return channels[index + 1] || null;
+}
+
+/**
+ * 获取上游通道（更稳定的一侧）
+ */
+export function getUpstreamChannel(branch: string, channels: readonly ReleaseChannel[]): ReleaseChannel | null {
+  const index = channels.findIndex((c) => c.branch === branch);
+  if (index <= 0) return null;
+  return channels[index - 1];
+}
+
+/**
+ * 根据预发布标识查找通道
+ */
+export function getChannelByPrerelease(prerelease: string, channels: readonly ReleaseChannel[]): ReleaseChannel | null {
+  return channels.find((c) => c.prerelease === prerelease) || null;
+}
+
+export function isStableChannel(branch: string, channels: readonly ReleaseChannel[]): boolean {
+  return getStableChannel(channels).branch === branch;
+}
+
+export function isEntryChannel(branch: string, channels: readonly ReleaseChannel[]): boolean {
+  return getEntryChannel(channels).branch === branch;
+}
+
+/**
+ * 是否为热修复分支（通道分支本身不会被视为热修复分支）
+ */
+export function isHotfixBranch(
+  branch: string,
+  patterns: readonly RegExp[],
+  channels: readonly ReleaseChannel[],
+): boolean {
+  return !getChannel(branch, channels) && patterns.some((pattern) => pattern.test(branch));
+}
+
+/**
+ * 获取通道发布后的同步计划：沿通道链逐级向下游同步，正式通道使用rebase，其余通道使用merge
+ *
+ * 热修复发布到正式通道后，全部使用merge同步并保留下游通道的版本文件，避免改写预发布分支历史和版本号
+ */
+export function getSyncPlan(
+  branch: string,
+  sourceBranch: string,
+  channels: readonly ReleaseChannel[],
+  hotfixBranches: readonly RegExp[],
+): SyncStep[] {
+  const hotfix = isStableChannel(branch, channels) && isHotfixBranch(sourceBranch, hotfixBranches, channels);
+  const steps: SyncStep[] = [];
+  let source = branch;
+  let downstream = getDownstreamChannel(source, channels);
+
+  while (downstream) {
+    steps.push({
+      source,
+      target: downstream.branch,
+      strategy: isStableChannel(source, channels) && !hotfix ? 'rebase' : 'merge',
+      preserveVersions: hotfix,
+    });
+    source = downstream.branch;
+    downstream = getDownstreamChannel(source, channels);
+  }
+  return steps;
+}
+
+/**
+ * 通道链描述（用于日志）
+ */
+export function describeReleaseChannels(channels: readonly ReleaseChannel[]): string {
+  return channels.map((c) => (c.prerelease ? `${c.branch}(${c.prerelease})` : c.branch)).join(' → ');
+}
+
+/**
+ * 描述完整的发布流程（从入口通道到正式通道，如 `alpha → beta → main`）
+ */
+export function describeReleaseFlow(channels: readonly ReleaseChannel[]): string {
+  return [...channels]
+    .reverse()
+    .map((c) => c.branch)
+    .join(' → ');
+}
+
+/**
+ * 通道的默认版本（没有版本标签时使用：正式通道为 0.0.0，预发布通道为 0.0.0-<预发布标识>.0）
+ */
+export function getDefaultChannelVersion(channel: ReleaseChannel): string {
+  return channel.prerelease ? `${DEFAULT_BASE_VERSION}-${channel.prerelease}.0` : DEFAULT_BASE_VERSION;
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { setInputs } from './core';
+import { MESSAGES } from './i18n';
+import { runLocalRelease } from './local';
+import { ActionError } from './types';
+
+// ==================== 命令行参数 ====================
+
+/**
+ * 解析命令行参数（选项说明见 MESSAGES.cli.usage）
+ */
+function parseCliArgs() {
+  const { values } = parseArgs({
+    options: {
+      target: { type: 'string', short: 't' },
+      source: { type: 'string', short: 's' },
+      label: { type: 'string', short: 'l', multiple: true },
+      input: { type: 'string', short: 'i', multiple: true },
+      apply: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: false,
+  });
+
+  return {
+    target: values.target ?? '',
+    source: values.source ?? '',
+    labels: values.label ?? [],
+    inputs: values.input ?? [],
+    apply: values.apply ?? false,
+    help: values.help ?? false,
+  };
+}
+
+/**
+ * 解析 `--input 名称=值` 参数（与 Action 输入参数同名），返回输入参数和格式无效的参数
+ */
+function parseInputs(args: string[]): { inputs: Record<string, string>; invalid: string[] } {
+  const inputs: Record<string, string> = {};
+  const invalid: string[] = [];
+  for (const arg of args) {
+    const index = arg.indexOf('=');
+    if (index <= 0) {
+      invalid.push(arg);
+      continue;
+    }
+    inputs[arg.slice(0, index).trim()] = arg.slice(index + 1);
+  }
+  return { inputs, invalid };
+}
+
+// ==================== 执行入口 ====================
+
+/**
+ * 本地 CLI - 在本地仓库上计算版本计划，可选地在本地应用版本更新
+ */
+async function main(): Promise<void> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs();
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${MESSAGES.cli.usage}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // 各模块在使用时才读取配置，输入参数需在此之前设置
+  const { inputs, invalid } = parseInputs(args.inputs);
+  setInputs(inputs);
+
+  if (args.help) {
+    process.stdout.write(MESSAGES.cli.usage);
+    return;
+  }
+
+  try {
+    if (invalid.length > 0) {
+      throw new ActionError(MESSAGES.error.localInvalidInput(invalid.join(', ')), 'main');
+    }
+
+    await runLocalRelease({
+      targetBranch: args.target,
+      sourceBranch: args.source,
+      labels: args.labels,
+      apply: args.apply,
+    });
+  } catch (error) {
+    const message = error instanceof ActionError ? `${error.context}: ${error.message}` : String(error);
+    process.stderr.write(`❌ ${message}\n`);
+    process.exitCode = 1;
+  }
+}
+
+main();
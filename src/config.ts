@@ -0,0 +1,121 @@
+import { DEFAULT_RELEASE_CHANNELS, parseBranchPatterns, parseReleaseChannels } from './channel';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { buildLabelRules } from './labels';
+import { getMaintenanceBranch, parseMaintenanceBranches } from './maintenance';
+import { buildPromotionRules } from './promotion';
+import type { SupportedBranch } from './types';
+import type { VersionModelConfig } from './version-model';
+
+// ==================== Action 配置 ====================
+
+/**
+ * Action 配置：版本规则（见 version-model.ts）和运行配置，均来自输入参数
+ *
+ * 各规则的解析在对应模块中（channel.ts、labels.ts 等），只有本模块读取输入；库入口 lib.ts 不导入本模块，
+ * 由调用方通过 createVersionConfig 显式传入配置
+ */
+export interface ActionConfig extends VersionModelConfig {
+  /** 启用版本管理的通道分支（supported-branches 只能在通道链范围内收窄） */
+  supportedBranches: readonly string[];
+  /** Git 提交用户 */
+  gitUser: { name: string; email: string };
+  /** 发布标签和签名配置 */
+  signing: {
+    /** 签名发布标签（签名标签一定是附注标签） */
+    signTags: boolean;
+    /** 创建附注标签（以 CHANGELOG 条目为标签消息） */
+    annotatedTags: boolean;
+    /** 签名版本提交和同步提交 */
+    signCommits: boolean;
+    /** GPG 或 OpenSSH 私钥（为空时使用已有的 git 签名配置） */
+    signingKey: string;
+    /** GPG 私钥的密码 */
+    signingPassphrase: string;
+  };
+  /** 评论标题 */
+  commentTitle: string;
+}
+
+/**
+ * 读取布尔输入
+ */
+function getBooleanInput(name: string): boolean {
+  return core.getInput(name)?.toLowerCase() === 'true';
+}
+
+/**
+ * 收窄启用版本管理的分支（不在通道链中的分支输出警告后忽略）
+ */
+function narrowSupportedBranches(channelBranches: string[], input: string): string[] {
+  const narrowed = input
+    .split(',')
+    .map((b) => b.trim())
+    .filter((b) => b.length > 0);
+
+  if (narrowed.length === 0) return channelBranches;
+
+  const unknown = narrowed.filter((b) => !channelBranches.includes(b));
+  if (unknown.length > 0) {
+    logger.warning(MESSAGES.log.unsupportedBranchesIgnored(unknown.join(', ')));
+  }
+  return channelBranches.filter((b) => narrowed.includes(b));
+}
+
+/**
+ * 从输入参数读取 Action 配置，配置格式错误时抛出 ActionError
+ */
+function readActionConfig(): ActionConfig {
+  const channels = parseReleaseChannels(core.getInput('release-channels') || DEFAULT_RELEASE_CHANNELS, MESSAGES);
+  const hotfixBranches = parseBranchPatterns(core.getInput('hotfix-branches') || '');
+  const signTags = getBooleanInput('sign-tags');
+
+  return {
+    channels,
+    hotfixBranches,
+    maintenanceBranches: parseMaintenanceBranches(core.getInput('maintenance-branches') || '', MESSAGES),
+    labelRules: buildLabelRules(core.getInput('label-rules') || '', MESSAGES),
+    conventionalCommits: getBooleanInput('conventional-commits'),
+    promotionRules: buildPromotionRules(core.getInput('promotion-rules') || '', channels, hotfixBranches, MESSAGES),
+    tagPrefix: core.getInput('version-prefix') || 'v',
+    messages: MESSAGES,
+    supportedBranches: narrowSupportedBranches(
+      channels.map((c) => c.branch),
+      core.getInput('supported-branches') || '',
+    ),
+    gitUser: {
+      name: core.getInput('git-user-name') || 'GitHub Action',
+      email: core.getInput('git-user-email') || 'action@github.com',
+    },
+    signing: {
+      signTags,
+      annotatedTags: getBooleanInput('annotated-tags') || signTags,
+      signCommits: getBooleanInput('sign-commits'),
+      signingKey: core.getInput('signing-key'),
+      signingPassphrase: core.getInput('signing-passphrase'),
+    },
+    commentTitle: core.getInput('comment-title') || MESSAGES.comment.defaultTitle,
+  };
+}
+
+let actionConfig: ActionConfig | null = null;
+
+/**
+ * 获取 Action 配置（首次调用时读取输入参数，导入模块时不读取）
+ */
+export function getActionConfig(): ActionConfig {
+  if (!actionConfig) {
+    actionConfig = readActionConfig();
+  }
+  return actionConfig;
+}
+
+// ==================== 分支查询 ====================
+
+/**
+ * 是否启用版本管理（通道链中的分支或维护分支）
+ */
+export function isSupportedBranch(branch: string): branch is SupportedBranch {
+  const { supportedBranches, maintenanceBranches } = getActionConfig();
+  return supportedBranches.includes(branch) || !!getMaintenanceBranch(branch, maintenanceBranches);
+}
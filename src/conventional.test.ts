@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getReleaseTypeFromConventionalCommits, parseConventionalCommit } from './conventional';
+
+describe('parseConventionalCommit', () => {
+  it('解析类型、范围和破坏性标记', () => {
+    expect(parseConventionalCommit('Feat(api)!: drop v1 endpoints')).toEqual({
+      type: 'feat',
+      scope: 'api',
+      breaking: true,
+      subject: 'drop v1 endpoints',
+    });
+  });
+
+  it('识别 BREAKING CHANGE 脚注', () => {
+    expect(parseConventionalCommit('fix: rename option\n\nBREAKING CHANGE: `foo` is now `bar`')?.breaking).toBe(true);
+    expect(parseConventionalCommit('fix: rename option\n\nmentions BREAKING CHANGE: inline')?.breaking).toBe(false);
+  });
+
+  it('不符合规范时返回 null', () => {
+    expect(parseConventionalCommit('Update README')).toBeNull();
+  });
+});
+
+describe('getReleaseTypeFromConventionalCommits', () => {
+  it('取所有提交中最高的发布类型', () => {
+    expect(getReleaseTypeFromConventionalCommits(['fix: a', 'feat: b', 'chore: c'])).toBe('preminor');
+    expect(getReleaseTypeFromConventionalCommits(['perf: a', 'refactor!: b'])).toBe('premajor');
+    expect(getReleaseTypeFromConventionalCommits(['fix: a'])).toBe('prepatch');
+  });
+
+  it('没有可发布的提交时返回空字符串', () => {
+    expect(getReleaseTypeFromConventionalCommits(['docs: a', 'Merge branch main'])).toBe('');
+  });
+});
@@ -0,0 +1,75 @@
+import type { ReleaseType } from 'semver';
+
+// ==================== Conventional Commits 解析 ====================
+
+/**
+ * Conventional Commit 解析结果
+ */
+export interface ConventionalCommit {
+  type: string;
+  scope: string | null;
+  breaking: boolean;
+  subject: string;
+}
+
+/** 提交头格式：type(scope)!: subject */
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+/** 破坏性变更脚注 */
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE:\s/m;
+
+/**
+ * 解析单条提交消息（或PR标题），不符合规范时返回 null
+ */
+export function parseConventionalCommit(message: string): ConventionalCommit | null {
+  const [header, ...bodyLines] = message.trim().split('\n');
+  const match = header.trim().match(HEADER_PATTERN);
+  if (!match) return null;
+
+  const [, type, scope, bang, subject] = match;
+  return {
+    type: type.toLowerCase(),
+    scope: scope || null,
+    breaking: bang === '!' || BREAKING_FOOTER_PATTERN.test(bodyLines.join('\n')),
+    subject,
+  };
+}
+
+/**
+ * 获取单条提交对应的发布类型
+ */
+function getCommitReleaseType(commit: ConventionalCommit): ReleaseType | '' {
+  if (commit.breaking) return 'premajor';
+  if (commit.type === 'feat') return 'preminor';
+  if (commit.type === 'fix' || commit.type === 'perf') return 'prepatch';
+  return '';
+}
+
+/** 发布类型优先级（越大越高） */
+const RELEASE_TYPE_PRIORITY: Record<string, number> = {
+  prepatch: 1,
+  preminor: 2,
+  premajor: 3,
+};
+
+/**
+ * 从一组提交消息推断发布类型（取最高级别）
+ */
+export function getReleaseTypeFromConventionalCommits(messages: string[]): ReleaseType | '' {
+  let releaseType: ReleaseType | '' = '';
+
+  for (const message of messages) {
+    const commit = parseConventionalCommit(message);
+    if (!commit) continue;
+
+    const commitReleaseType = getCommitReleaseType(commit);
+    if (
+      commitReleaseType &&
+      (RELEASE_TYPE_PRIORITY[commitReleaseType] || 0) > (releaseType ? RELEASE_TYPE_PRIORITY[releaseType] || 0 : 0)
+    ) {
+      releaseType = commitReleaseType;
+    }
+  }
+
+  return releaseType;
+}
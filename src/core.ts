@@ -1,10 +1,45 @@
-import * as core from '@actions/core';
+import * as actionsCore from '@actions/core';
+
+// ==================== 输入参数 ====================
+
+/** 显式传入的输入参数（本地 CLI 使用），优先于 Action 运行时的 `INPUT_*` 环境变量 */
+const inputOverrides = new Map<string, string>();
+
+/**
+ * 输入参数名规范化（与 @actions/core 读取环境变量的规则相同）
+ */
+function normalizeInputName(name: string): string {
+  return name.replace(/ /g, '_').toUpperCase();
+}
+
+/**
+ * 设置输入参数（在首次读取配置之前调用）
+ */
+export function setInputs(inputs: Record<string, string>): void {
+  for (const [name, value] of Object.entries(inputs)) {
+    inputOverrides.set(normalizeInputName(name), value);
+  }
+}
+
+/**
+ * 读取输入参数：优先使用 setInputs 设置的值，否则读取 Action 输入
+ */
+function getInput(name: string, options?: actionsCore.InputOptions): string {
+  const override = inputOverrides.get(normalizeInputName(name));
+  if (override === undefined) return actionsCore.getInput(name, options);
+  if (options?.required && !override) {
+    throw new Error(`Input required and not supplied: ${name}`);
+  }
+  return options?.trimWhitespace === false ? override : override.trim();
+}
 
 export const logger = {
-  debug: core.debug,
-  info: core.info,
-  warning: core.warning,
-  error: core.error,
+  debug: actionsCore.debug,
+  info: actionsCore.info,
+  warning: actionsCore.warning,
+  error: actionsCore.error,
 };
 
+const core = { ...actionsCore, getInput };
+
 export default core;
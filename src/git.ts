@@ -1,17 +1,28 @@
 import { exec } from '@actions/exec';
 import { context, getOctokit } from '@actions/github';
-import { readPackageJSON, resolvePackageJSON, writePackageJSON } from 'pkg-types';
+import { updateChangelog } from './changelog';
+import { getChannel, getChannelByPrerelease, getSyncPlan } from './channel';
+import { getActionConfig } from './config';
 import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import type { ReleaseJournal } from './journal';
+import { getMaintenanceBranch } from './maintenance';
+import { getGitHubReleaseConfig, publishGitHubRelease } from './release';
+import { configureGitSigning } from './signing';
+import { findRemoteTags, findTagsContaining } from './tag-source';
 import {
   ActionError,
   type BranchSyncResult,
   COMMIT_TEMPLATES,
-  ERROR_MESSAGES,
-  GIT_USER_CONFIG,
+  type JournalRelease,
+  type PackageVersionPlan,
   type PRData,
   type SupportedBranch,
+  type TagRelease,
+  type VersionRecalculator,
 } from './types';
-import { VersionUtils } from './version';
+import { refreshVersionTags, updateVersionFiles, VersionUtils } from './version';
+import { getPackageTag } from './workspace';
 
 // ==================== Git 基础操作 ====================
 
@@ -39,7 +50,7 @@ export async function execGitWithOutput(args: string[]): Promise<string> {
     });
     return stdout.trim();
   } catch (error) {
-    handleGitError(error, `执行 git ${args.join(' ')}`, true);
+    handleGitError(error, MESSAGES.error.gitCommandFailed(args.join(' ')), true);
     return '';
   }
 }
@@ -51,7 +62,7 @@ export async function execGit(args: string[]): Promise<void> {
   try {
     await exec('git', args);
   } catch (error) {
-    handleGitError(error, `执行 git ${args.join(' ')}`, true);
+    handleGitError(error, MESSAGES.error.gitCommandFailed(args.join(' ')), true);
   }
 }
 
@@ -59,9 +70,10 @@ export async function execGit(args: string[]): Promise<void> {
  * 配置 Git 用户信息
  */
 export async function configureGitUser(): Promise<void> {
-  logger.info('配置 Git 用户信息');
-  await execGit(['config', '--global', 'user.name', GIT_USER_CONFIG.name]);
-  await execGit(['config', '--global', 'user.email', GIT_USER_CONFIG.email]);
+  logger.info(MESSAGES.log.configureGitUser);
+  const { gitUser } = getActionConfig();
+  await execGit(['config', '--global', 'user.name', gitUser.name]);
+  await execGit(['config', '--global', 'user.email', gitUser.email]);
 }
 
 /**
@@ -75,7 +87,7 @@ export async function hasFileChanges(filepath: string): Promise<boolean> {
     // 检查是否有变化
     const statusOutput = await execGitWithOutput(['status', '--porcelain', filepath]);
     if (statusOutput.length > 0) {
-      logger.info(`检测到 ${filepath} 变化: ${statusOutput}`);
+      logger.info(MESSAGES.log.versionFileChanged(filepath, statusOutput));
       return true;
     }
 
@@ -92,293 +104,160 @@ export async function hasFileChanges(filepath: string): Promise<boolean> {
 }
 
 /**
- * 提交并推送文件更改
+ * 提交有更改的 CHANGELOG 文件（不推送），没有更改时跳过
  */
-export async function commitAndPushFile(
-  filepath: string,
-  commitMessage: string,
-  targetBranch: SupportedBranch,
-): Promise<void> {
-  try {
-    await execGit(['add', filepath]);
-    await execGit(['commit', '-m', commitMessage]);
-    await execGit(['push', 'origin', targetBranch]);
-    logger.info(`${filepath} 更新已提交并推送`);
-  } catch (error) {
-    handleGitError(error, `提交和推送 ${filepath}`, true);
+async function commitChangelogs(changelogPaths: string[], releases: string): Promise<void> {
+  const changed: string[] = [];
+  for (const changelogPath of changelogPaths) {
+    if (await hasFileChanges(changelogPath)) changed.push(changelogPath);
+  }
+  if (changed.length === 0) {
+    logger.info(MESSAGES.log.changelogUnchanged);
+    return;
   }
+
+  await execGit(['add', ...changed]);
+  await execGit(['commit', '-m', COMMIT_TEMPLATES.CHANGELOG_UPDATE(releases)]);
+  logger.info(MESSAGES.log.changelogCommitted);
 }
 
 /**
- * 提交并推送版本更改
+ * 提交版本更改并创建版本标签（不推送），返回标签名
  */
-export async function commitAndPushVersion(version: string, targetBranch: SupportedBranch): Promise<void> {
-  try {
-    const packageVersion = VersionUtils.cleanVersion(version);
-    const fullVersion = VersionUtils.addVersionPrefix(version);
-
-    // 提交版本更改
-    await execGit(['add', '.']);
-    await execGit(['commit', '-m', COMMIT_TEMPLATES.VERSION_BUMP(packageVersion, targetBranch)]);
-
-    // 创建版本标签
-    await execGit(['tag', fullVersion]);
-    logger.info(`已创建标签: ${fullVersion}`);
-
-    // 推送更改和标签（添加冲突处理）
-    await safePushWithRetry(targetBranch, fullVersion);
-  } catch (error) {
-    handleGitError(error, '提交和推送版本更改', true);
-  }
+async function commitVersion(version: string, targetBranch: SupportedBranch): Promise<string> {
+  const packageVersion = VersionUtils.cleanVersion(version);
+  const fullVersion = VersionUtils.addVersionPrefix(version);
+
+  // 提交版本更改
+  await execGit(['add', '.']);
+  // 手动发布时在提交中记录触发者
+  const triggeredBy = context.eventName === 'workflow_dispatch' ? context.actor : undefined;
+  await execGit(['commit', '-m', COMMIT_TEMPLATES.VERSION_BUMP(packageVersion, targetBranch, triggeredBy)]);
+
+  // 创建版本标签
+  await execGit(['tag', fullVersion]);
+  logger.info(MESSAGES.log.tagCreated(fullVersion));
+  return fullVersion;
 }
 
 /**
- * 安全推送，处理并发冲突
+ * 提交 monorepo 包的版本更改并创建标签（一次提交，每个包一个标签，不推送），返回标签名
  */
-async function safePushWithRetry(targetBranch: SupportedBranch, version: string, maxRetries = 3): Promise<void> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      if (attempt > 1) {
-        logger.info(`🔄 尝试推送 (第${attempt}/${maxRetries}次)`);
-        // 拉取最新更改
-        await execGit(['fetch', 'origin', targetBranch]);
-        await execGit(['rebase', `origin/${targetBranch}`]);
-      }
-
-      // 推送分支和标签
-      await execGit(['push', 'origin', targetBranch]);
-      await execGit(['push', 'origin', version]);
-
-      logger.info(`✅ 推送成功 (第${attempt}次尝试)`);
-      return;
-    } catch (error) {
-      if (attempt === maxRetries) {
-        logger.error(`❌ 推送失败，已尝试${maxRetries}次: ${error}`);
-        throw error;
-      }
+async function commitPackageVersions(plans: PackageVersionPlan[], targetBranch: SupportedBranch): Promise<string[]> {
+  const releases = plans.map((plan) => getPackageTag(plan, plan.nextVersion!));
 
-      logger.warning(`⚠️ 推送失败 (第${attempt}/${maxRetries}次)，可能存在并发冲突: ${error}`);
+  // 提交所有包的版本更改
+  await execGit(['add', '.']);
+  await execGit(['commit', '-m', COMMIT_TEMPLATES.PACKAGES_BUMP(releases, targetBranch)]);
 
-      // 等待随机时间避免竞态
-      const delay = Math.random() * 2000 + 1000; // 1-3秒随机延迟
-      logger.info(`⏳ 等待 ${Math.round(delay)}ms 后重试...`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
+  // 为每个包创建版本标签
+  for (const tag of releases) {
+    await execGit(['tag', tag]);
+    logger.info(MESSAGES.log.tagCreated(tag));
   }
+  return releases;
 }
 
-// ==================== CHANGELOG 操作 ====================
-
 /**
- * 基于PR信息生成CHANGELOG条目
+ * 启用附注标签时，将轻量标签重建为以 CHANGELOG 条目为消息的附注标签（启用签名时签名）
+ *
+ * 标签先以轻量标签创建，供 CHANGELOG 计算提交范围；重建后仍指向同一个提交
  */
-async function generateChangelogFromPR(pr: PRData | null, version: string): Promise<string> {
-  if (!pr) {
-    return `### Changes\n- Version ${version} release\n`;
-  }
-
-  // PR标签到CHANGELOG类型的映射
-  const labelToChangelogType: Record<string, string> = {
-    major: '💥 Breaking Changes',
-    minor: '✨ Features',
-    patch: '🐛 Bug Fixes',
-    enhancement: '⚡ Improvements',
-    performance: '🚀 Performance',
-    security: '🔒 Security',
-    documentation: '📚 Documentation',
-    dependencies: '⬆️ Dependencies',
-  };
+async function annotateReleaseTag(tag: string, notes: string | null): Promise<void> {
+  const { annotatedTags, signTags } = getActionConfig().signing;
+  if (!annotatedTags) return;
+
+  const message = notes?.trim() || COMMIT_TEMPLATES.RELEASE_TAG(tag);
+  // whitespace 模式保留 CHANGELOG 中以 # 开头的标题行
+  await execGit([
+    'tag',
+    '--force',
+    signTags ? '--sign' : '--annotate',
+    '--cleanup=whitespace',
+    '-m',
+    message,
+    tag,
+    `${tag}^{commit}`,
+  ]);
+  logger.info(MESSAGES.log.tagAnnotated(tag, signTags));
+}
 
-  // 从PR标签推断变更类型
-  let changeType = '📝 Changes';
-  if (pr.labels) {
-    for (const label of pr.labels) {
-      if (labelToChangelogType[label.name]) {
-        changeType = labelToChangelogType[label.name];
-        break;
-      }
-    }
+// ==================== 原子发布 ====================
 
-    // 如果没找到特定类型，基于版本标签推断
-    if (changeType === '📝 Changes') {
-      const versionLabels = pr.labels.map((l) => l.name);
-      if (versionLabels.includes('major')) changeType = '💥 Breaking Changes';
-      else if (versionLabels.includes('minor')) changeType = '✨ Features';
-      else if (versionLabels.includes('patch')) changeType = '🐛 Bug Fixes';
-    }
-  }
+/** 发布的最大尝试次数（版本标签已被占用或推送被拒绝时重新计算版本后重试） */
+const MAX_RELEASE_ATTEMPTS = 3;
 
-  // 构建CHANGELOG条目
-  let changelogEntry = `### ${changeType}\n`;
-
-  // 添加PR标题和链接
-  const prUrl = pr.html_url;
-  const prTitle = pr.title || `PR #${pr.number}`;
-  changelogEntry += `- ${prTitle} ([#${pr.number}](${prUrl}))\n`;
-
-  // 如果PR有body，提取关键信息
-  if (pr.body && pr.body.trim()) {
-    const body = pr.body.trim();
-
-    // 查找特定的section（如 "### Changes", "## What's Changed" 等）
-    const sections = [
-      '### Changes',
-      '## Changes',
-      "### What's Changed",
-      "## What's Changed",
-      '### Summary',
-      '## Summary',
-    ];
-    for (const section of sections) {
-      const sectionIndex = body.indexOf(section);
-      if (sectionIndex !== -1) {
-        const sectionContent = body.substring(sectionIndex + section.length);
-        const nextSectionIndex = sectionContent.search(/^##/m);
-        const content = nextSectionIndex !== -1 ? sectionContent.substring(0, nextSectionIndex) : sectionContent;
-
-        const cleanContent = content
-          .trim()
-          .split('\n')
-          .filter((line) => line.trim())
-          .slice(0, 5) // 最多5行
-          .map((line) => (line.startsWith('- ') ? `  ${line}` : `  - ${line}`))
-          .join('\n');
-
-        if (cleanContent) {
-          changelogEntry += `${cleanContent}\n`;
-          break;
-        }
-      }
-    }
-  }
-
-  return changelogEntry;
+/**
+ * 一次发布尝试：本次要创建的标签，以及在本地创建版本提交、标签和 CHANGELOG 提交的操作
+ */
+interface ReleaseAttempt<T> {
+  tags: string[];
+  prepare: () => Promise<T>;
 }
 
 /**
- * 更新 CHANGELOG - 基于PR信息生成
+ * 丢弃未推送的版本提交和标签，回到远程目标分支的最新状态
  */
-export async function updateChangelog(pr: PRData | null = null, version: string = ''): Promise<void> {
-  // 检查是否启用CHANGELOG生成
-  const enableChangelog = core.getInput('enable-changelog')?.toLowerCase() !== 'false';
-  if (!enableChangelog) {
-    logger.info('CHANGELOG 生成已禁用，跳过');
-    return;
-  }
-
-  try {
-    logger.info('开始生成基于PR的 CHANGELOG...');
-
-    const currentDate = new Date().toISOString().split('T')[0];
-    const versionTag = version.startsWith('v') ? version : `v${version}`;
-
-    // 生成基于PR的CHANGELOG条目
-    const changelogEntry = await generateChangelogFromPR(pr, version);
-
-    const newEntry = `## [${versionTag}] - ${currentDate}
-
-${changelogEntry}
-`;
-
-    // 读取现有CHANGELOG内容
-    let existingContent = '';
-    try {
-      let stdout = '';
-      await exec('cat', ['CHANGELOG.md'], {
-        listeners: {
-          stdout: (data: Buffer) => {
-            stdout += data.toString();
-          },
-        },
-      });
-      existingContent = stdout;
-      logger.info('读取现有CHANGELOG内容');
-    } catch {
-      // 如果文件不存在，创建初始内容
-      existingContent = `# Changelog
-
-All notable changes to this project will be documented in this file.
-
-The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
-and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
-
-`;
-      logger.info('CHANGELOG.md 不存在，创建新文件');
-    }
-
-    // 插入新条目到第一个版本记录之前
-    const lines = existingContent.split('\n');
-    let insertIndex = lines.length;
-
-    // 查找第一个版本标题的位置
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].match(/^## \[.*\]/)) {
-        insertIndex = i;
-        break;
-      }
-    }
-
-    // 插入新条目
-    const entryLines = newEntry.split('\n');
-    lines.splice(insertIndex, 0, ...entryLines);
-
-    // 写回文件
-    const newContent = lines.join('\n');
-    await exec('sh', ['-c', `cat > CHANGELOG.md << 'EOF'\n${newContent}\nEOF`]);
-
-    logger.info(`✅ CHANGELOG 已更新，添加版本 ${versionTag}`);
-
-    // 显示新增的内容预览
-    try {
-      let stdout = '';
-      await exec('head', ['-15', 'CHANGELOG.md'], {
-        listeners: {
-          stdout: (data: Buffer) => {
-            stdout += data.toString();
-          },
-        },
-      });
-      logger.info('📋 CHANGELOG 预览:');
-      logger.info(stdout);
-    } catch {
-      logger.info('无法显示CHANGELOG预览');
-    }
-  } catch (error) {
-    logger.warning(`基于PR的CHANGELOG生成失败: ${error}`);
-
-    // 如果失败，使用原来的conventional-changelog逻辑作为备用
-    await fallbackToConventionalChangelog();
-  }
+async function discardReleaseAttempt(targetBranch: SupportedBranch, tags: string[]): Promise<void> {
+  await exec('git', ['tag', '-d', ...tags], { ignoreReturnCode: true });
+  await execGit(['fetch', 'origin', `+refs/heads/${targetBranch}:refs/remotes/origin/${targetBranch}`]);
+  await execGit(['reset', '--hard', `origin/${targetBranch}`]);
 }
 
 /**
- * 备用方案：使用conventional-changelog
+ * 事务式发布：确认标签未被远程占用 → 在本地创建提交和标签 → 原子推送分支和标签（要么全部更新，要么都不更新）
+ *
+ * 标签已被占用或推送被拒绝时（如两个 PR 几秒内先后合并），丢弃本地提交和标签，重新读取标签并重新计算版本后重试
+ *
+ * @param retry 重新读取标签后生成下一次尝试，无需发布时返回 null
+ * @returns 本次发布的结果；并发运行已发布（触发提交已包含在远程标签中，或重新计算后无需发布）时返回 null，不推送任何内容
  */
-async function fallbackToConventionalChangelog(): Promise<void> {
-  try {
-    logger.info('使用conventional-changelog作为备用方案...');
-
-    // 检查是否已安装
-    try {
-      await exec('npx', ['conventional-changelog-cli', '--version']);
-    } catch {
-      await exec('npm', ['install', '-g', 'conventional-changelog-cli', 'conventional-changelog-conventionalcommits']);
+async function releaseAtomically<T>(
+  targetBranch: SupportedBranch,
+  first: ReleaseAttempt<T>,
+  retry: () => Promise<ReleaseAttempt<T> | null>,
+): Promise<T | null> {
+  let attempt: ReleaseAttempt<T> = first;
+  for (let round = 1; ; round++) {
+    if (round > 1) logger.info(MESSAGES.log.pushAttempt(round, MAX_RELEASE_ATTEMPTS));
+
+    let failure: unknown;
+    const takenTags = await findRemoteTags(attempt.tags);
+    if (takenTags.length === 0) {
+      const result = await attempt.prepare();
+      try {
+        await execGit(['push', '--atomic', 'origin', targetBranch, ...attempt.tags]);
+        logger.info(MESSAGES.log.pushSucceeded(round));
+        return result;
+      } catch (error) {
+        failure = error;
+      }
+    } else {
+      failure = new ActionError(MESSAGES.error.releaseTagTaken(takenTags.join(', ')), 'releaseAtomically');
     }
 
-    await exec('npx', [
-      'conventional-changelog-cli',
-      '-p',
-      'conventionalcommits',
-      '-i',
-      'CHANGELOG.md',
-      '-s',
-      '-r',
-      '0',
-    ]);
-
-    logger.info('✅ 使用conventional-changelog生成完成');
-  } catch (error) {
-    logger.warning(`备用CHANGELOG生成也失败: ${error}`);
+    if (round === MAX_RELEASE_ATTEMPTS) {
+      logger.error(MESSAGES.log.pushFailed(MAX_RELEASE_ATTEMPTS, failure));
+      throw failure;
+    }
+    logger.warning(MESSAGES.log.pushRetry(round, MAX_RELEASE_ATTEMPTS, failure));
+
+    // 等待随机时间避免竞态
+    const delay = Math.random() * 2000 + 1000; // 1-3秒随机延迟
+    logger.info(MESSAGES.log.pushWait(Math.round(delay)));
+    await new Promise((resolve) => setTimeout(resolve, delay));
+
+    // 其他运行可能已发布了同一个版本：重新读取标签后重新计算；触发提交已包含在该版本的远程标签中时无需再发布
+    await discardReleaseAttempt(targetBranch, attempt.tags);
+    await refreshVersionTags();
+    const releasedTags = await findTagsContaining(context.sha, await findRemoteTags(attempt.tags));
+    const next = releasedTags.length > 0 ? null : await retry();
+    if (!next) {
+      logger.info(MESSAGES.log.releaseSuperseded(attempt.tags.join(', ')));
+      return null;
+    }
+    logger.info(MESSAGES.log.releaseRecalculated(attempt.tags.join(', '), next.tags.join(', ')));
+    attempt = next;
   }
 }
 
@@ -394,7 +273,7 @@ function isAutoSyncCommit(): boolean {
   const isSyncCommit = commitMessage.includes('chore: sync') || commitMessage.includes('chore: bump version');
 
   if (isSkipCI || isSyncCommit) {
-    logger.info(`检测到自动提交: ${commitMessage}`);
+    logger.info(MESSAGES.log.autoCommitDetected(commitMessage));
     return true;
   }
 
@@ -402,15 +281,14 @@ function isAutoSyncCommit(): boolean {
 }
 
 /**
- * 获取同步提交消息
+ * 获取同步提交消息（tags 为本次发布的标签，monorepo 为各包的标签）
  */
-function getCommitMessage(sourceBranch: SupportedBranch, targetBranch: SupportedBranch, version: string): string {
-  if (sourceBranch === 'main' && targetBranch === 'beta') {
-    return COMMIT_TEMPLATES.SYNC_MAIN_TO_BETA(version);
-  } else if (sourceBranch === 'beta' && targetBranch === 'alpha') {
-    return COMMIT_TEMPLATES.SYNC_BETA_TO_ALPHA(version);
-  }
-  return `chore: sync ${sourceBranch} v${version} to ${targetBranch} [skip ci]`;
+function getCommitMessage(
+  sourceBranch: SupportedBranch,
+  targetBranch: SupportedBranch,
+  tags: readonly string[],
+): string {
+  return COMMIT_TEMPLATES.SYNC_DOWNSTREAM(sourceBranch, targetBranch, tags);
 }
 
 /**
@@ -419,7 +297,7 @@ function getCommitMessage(sourceBranch: SupportedBranch, targetBranch: Supported
 async function resolveVersionConflicts(
   sourceBranch: SupportedBranch,
   targetBranch: SupportedBranch,
-  sourceVersion: string,
+  tags: readonly string[],
 ): Promise<void> {
   try {
     // 取消合并
@@ -428,24 +306,20 @@ async function resolveVersionConflicts(
     // 只合并非冲突文件，跳过版本文件
     await execGit(['merge', sourceBranch, '--no-commit', '--no-ff']);
 
-    // 手动处理package.json版本冲突
-    const pkgPath = await resolvePackageJSON();
-    const sourcePkg = await readPackageJSON(pkgPath);
-
-    // 确定正确的版本号
-    const correctVersion = sourceVersion.replace(/^v/, '');
-    sourcePkg.version = correctVersion;
-
-    await writePackageJSON(pkgPath, sourcePkg);
-    await execGit(['add', 'package.json']);
+    // 手动处理版本文件冲突：发布提交修改的文件（版本文件和锁文件）使用源分支的内容，monorepo 各包同样适用
+    const releaseFiles = await getReleaseCommitFiles(tags);
+    if (releaseFiles.length > 0) {
+      await execGit(['checkout', sourceBranch, '--', ...releaseFiles]);
+      await execGit(['add', ...releaseFiles]);
+    }
 
     // 完成合并
-    const commitMessage = `${getCommitMessage(sourceBranch, targetBranch, sourceVersion)} (resolved version conflicts)`;
+    const commitMessage = `${getCommitMessage(sourceBranch, targetBranch, tags)} (resolved version conflicts)`;
     await execGit(['commit', '-m', commitMessage]);
 
-    logger.info(`手动解决版本冲突完成: ${sourceBranch} -> ${targetBranch}`);
+    logger.info(MESSAGES.log.manualResolveSucceeded(sourceBranch, targetBranch));
   } catch (error) {
-    throw new ActionError(`手动解决版本冲突失败: ${error}`, 'resolveVersionConflicts', error);
+    throw new ActionError(MESSAGES.error.resolveConflictsFailed(error), 'resolveVersionConflicts', error);
   }
 }
 
@@ -455,34 +329,18 @@ async function resolveVersionConflicts(
 async function reportMergeConflict(
   sourceBranch: SupportedBranch,
   targetBranch: SupportedBranch,
-  sourceVersion: string,
+  tags: readonly string[],
 ): Promise<void> {
   try {
     const octokit = getOctokit(process.env.GITHUB_TOKEN || '');
 
-    const issueTitle = `🔀 自动合并冲突: ${sourceBranch} -> ${targetBranch}`;
-    const issueBody = `## 合并冲突报告
-
-**源分支**: ${sourceBranch}
-**目标分支**: ${targetBranch}  
-**版本**: ${sourceVersion}
-**时间**: ${new Date().toISOString()}
-
-## 问题描述
-自动合并过程中遇到无法自动解决的冲突，需要人工介入处理。
-
-## 需要处理的步骤
-1. 检查 ${targetBranch} 分支的本地修改
-2. 手动合并 ${sourceBranch} 分支的更改
-3. 解决版本冲突
-4. 测试合并结果
-5. 推送更改
-
-## 自动化日志
-详细日志请查看 GitHub Actions 运行记录。
-
----
-*此issue由版本管理Action自动创建*`;
+    const issueTitle = MESSAGES.issue.mergeConflictTitle(sourceBranch, targetBranch);
+    const issueBody = MESSAGES.issue.mergeConflictBody(
+      sourceBranch,
+      targetBranch,
+      tags.join(', '),
+      new Date().toISOString(),
+    );
 
     await octokit.rest.issues.create({
       owner: context.repo.owner,
@@ -492,9 +350,9 @@ async function reportMergeConflict(
       labels: ['merge-conflict', 'automated', 'priority-high'],
     });
 
-    logger.info(`已创建合并冲突issue: ${issueTitle}`);
+    logger.info(MESSAGES.log.conflictIssueCreated(issueTitle));
   } catch (error) {
-    logger.error(`创建合并冲突issue失败: ${error}`);
+    logger.error(MESSAGES.log.conflictIssueFailed(error));
   }
 }
 
@@ -504,9 +362,9 @@ async function reportMergeConflict(
 async function handleMergeConflict(
   sourceBranch: SupportedBranch,
   targetBranch: SupportedBranch,
-  sourceVersion: string,
+  tags: readonly string[],
 ): Promise<void> {
-  logger.warning(`${sourceBranch} -> ${targetBranch} 合并冲突，尝试智能处理`);
+  logger.warning(MESSAGES.log.conflictHandling(sourceBranch, targetBranch));
 
   try {
     // 第一步：尝试使用源分支的版本策略解决冲突
@@ -520,24 +378,61 @@ async function handleMergeConflict(
       'theirs',
       '--no-edit',
       '-m',
-      `${getCommitMessage(sourceBranch, targetBranch, sourceVersion)} (auto-resolved conflicts)`,
+      `${getCommitMessage(sourceBranch, targetBranch, tags)} (auto-resolved conflicts)`,
     ]);
 
-    logger.info(`使用策略合并成功解决 ${sourceBranch} -> ${targetBranch} 冲突`);
+    logger.info(MESSAGES.log.strategyMergeSucceeded(sourceBranch, targetBranch));
   } catch (strategyError) {
-    logger.warning(`策略合并失败，尝试手动解决版本冲突: ${strategyError}`);
+    logger.warning(MESSAGES.log.strategyMergeFailed(strategyError));
 
     try {
       // 第三步：手动解决版本相关冲突
-      await resolveVersionConflicts(sourceBranch, targetBranch, sourceVersion);
+      await resolveVersionConflicts(sourceBranch, targetBranch, tags);
     } catch (manualError) {
-      logger.error(`手动解决冲突失败: ${manualError}`);
+      logger.error(MESSAGES.log.manualResolveFailed(manualError));
 
       // 第四步：最后手段 - 创建issue报告冲突
-      await reportMergeConflict(sourceBranch, targetBranch, sourceVersion);
-      throw new ActionError(ERROR_MESSAGES.MERGE_CONFLICT(sourceBranch, targetBranch), 'handleMergeConflict');
+      await reportMergeConflict(sourceBranch, targetBranch, tags);
+      throw new ActionError(MESSAGES.error.mergeConflict(sourceBranch, targetBranch), 'handleMergeConflict');
+    }
+  }
+}
+
+/**
+ * 获取发布提交修改的文件（版本文件和锁文件），tags 为本次发布的标签
+ */
+async function getReleaseCommitFiles(tags: readonly string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const tag of tags) {
+    try {
+      const output = await execGitWithOutput(['diff-tree', '--no-commit-id', '--name-only', '-r', tag]);
+      for (const file of output.split('\n').filter((f) => f.trim())) files.add(file);
+    } catch (error) {
+      logger.warning(MESSAGES.log.releaseFilesFailed(tag, error));
     }
   }
+  return Array.from(files);
+}
+
+/**
+ * 恢复合并前目标分支的版本文件（修改合并提交），保持下游通道的预发布版本号不变
+ */
+async function restoreVersionFiles(baseCommit: string, tags: readonly string[]): Promise<void> {
+  const releaseFiles = await getReleaseCommitFiles(tags);
+  if (releaseFiles.length === 0) return;
+
+  // 只恢复合并前已存在的文件
+  const existing = (await execGitWithOutput(['ls-tree', '-r', '--name-only', baseCommit, '--', ...releaseFiles]))
+    .split('\n')
+    .filter((file) => file.trim());
+  if (existing.length === 0) return;
+
+  await execGit(['checkout', baseCommit, '--', ...existing]);
+  const changed = await execGitWithOutput(['status', '--porcelain', '--', ...existing]);
+  if (changed) {
+    await execGit(['commit', '--amend', '--no-edit']);
+    logger.info(MESSAGES.log.versionFilesPreserved(existing.join(', ')));
+  }
 }
 
 /**
@@ -546,33 +441,39 @@ async function handleMergeConflict(
 async function syncDownstream(
   sourceBranch: SupportedBranch,
   targetBranch: SupportedBranch,
-  sourceVersion: string,
+  tags: readonly string[],
+  preserveVersions = false,
 ): Promise<BranchSyncResult> {
-  logger.info(`开始merge同步 ${sourceBranch} -> ${targetBranch}`);
+  logger.info(MESSAGES.log.mergeSyncStart(sourceBranch, targetBranch));
 
   try {
     // 切换到目标分支
     await execGit(['fetch', 'origin', targetBranch]);
     await execGit(['switch', targetBranch]);
+    const baseCommit = await execGitWithOutput(['rev-parse', 'HEAD']);
 
     // 尝试合并源分支
-    const commitMessage = getCommitMessage(sourceBranch, targetBranch, sourceVersion);
+    const commitMessage = getCommitMessage(sourceBranch, targetBranch, tags);
 
     try {
       await execGit(['merge', sourceBranch, '--no-edit', '--no-ff', '-m', commitMessage]);
-      logger.info(`${sourceBranch} -> ${targetBranch} merge成功`);
+      logger.info(MESSAGES.log.mergeSucceeded(sourceBranch, targetBranch));
     } catch {
-      logger.warning(`${sourceBranch} -> ${targetBranch} merge冲突，进行强制同步`);
-      await handleMergeConflict(sourceBranch, targetBranch, sourceVersion);
+      logger.warning(MESSAGES.log.mergeConflictDetected(sourceBranch, targetBranch));
+      await handleMergeConflict(sourceBranch, targetBranch, tags);
+    }
+
+    if (preserveVersions) {
+      await restoreVersionFiles(baseCommit, tags);
     }
 
     // 推送更改
     await execGit(['push', 'origin', targetBranch, '--force-with-lease']);
-    logger.info(`${targetBranch} 分支merge同步完成`);
+    logger.info(MESSAGES.log.mergeSyncDone(targetBranch));
 
-    return { success: true, version: sourceVersion };
+    return { success: true, tags: [...tags] };
   } catch (error) {
-    const errorMsg = `${sourceBranch} -> ${targetBranch} merge同步失败: ${error}`;
+    const errorMsg = MESSAGES.log.mergeSyncFailed(sourceBranch, targetBranch, error);
     logger.error(errorMsg);
     return {
       success: false,
@@ -588,9 +489,9 @@ async function syncDownstream(
 async function syncDownstreamWithRebase(
   sourceBranch: SupportedBranch,
   targetBranch: SupportedBranch,
-  sourceVersion: string,
+  tags: readonly string[],
 ): Promise<BranchSyncResult> {
-  logger.info(`开始rebase同步 ${sourceBranch} -> ${targetBranch}`);
+  logger.info(MESSAGES.log.rebaseSyncStart(sourceBranch, targetBranch));
 
   try {
     // 切换到目标分支
@@ -600,26 +501,26 @@ async function syncDownstreamWithRebase(
     // 尝试rebase源分支
     try {
       await execGit(['rebase', sourceBranch]);
-      logger.info(`${sourceBranch} -> ${targetBranch} rebase成功`);
+      logger.info(MESSAGES.log.rebaseSucceeded(sourceBranch, targetBranch));
     } catch {
-      logger.warning(`${sourceBranch} -> ${targetBranch} rebase冲突，尝试处理`);
+      logger.warning(MESSAGES.log.rebaseConflictDetected(sourceBranch, targetBranch));
 
       // 对于rebase冲突，我们采用更保守的策略
       await execGit(['rebase', '--abort']);
 
       // 改用merge策略作为fallback
-      const commitMessage = getCommitMessage(sourceBranch, targetBranch, sourceVersion);
+      const commitMessage = getCommitMessage(sourceBranch, targetBranch, tags);
       await execGit(['merge', sourceBranch, '--no-edit', '--no-ff', '-m', commitMessage]);
-      logger.info(`rebase失败，改用merge策略完成同步`);
+      logger.info(MESSAGES.log.rebaseFallbackMerge);
     }
 
     // 推送更改
     await execGit(['push', 'origin', targetBranch, '--force-with-lease']);
-    logger.info(`${targetBranch} 分支rebase同步完成`);
+    logger.info(MESSAGES.log.rebaseSyncDone(targetBranch));
 
-    return { success: true, version: sourceVersion };
+    return { success: true, tags: [...tags] };
   } catch (error) {
-    const errorMsg = `${sourceBranch} -> ${targetBranch} rebase同步失败: ${error}`;
+    const errorMsg = MESSAGES.log.rebaseSyncFailed(sourceBranch, targetBranch, error);
     logger.error(errorMsg);
     return {
       success: false,
@@ -630,40 +531,39 @@ async function syncDownstreamWithRebase(
 }
 
 /**
- * 执行分支同步 - 根据新的合并策略
+ * 执行分支同步 - 根据新的合并策略（tags 为本次发布的标签，sourceBranch 用于识别热修复发布）
  */
-export async function syncBranches(targetBranch: SupportedBranch, newVersion: string): Promise<BranchSyncResult[]> {
+export async function syncBranches(
+  targetBranch: SupportedBranch,
+  tags: readonly string[],
+  sourceBranch = '',
+): Promise<BranchSyncResult[]> {
   // 🔧 修复：只有在push事件时才检查自动同步提交，PR merge事件需要完整同步链
   const isPushEvent = context.eventName === 'push';
   if (isPushEvent && isAutoSyncCommit()) {
-    logger.info('检测到Push事件的自动同步提交，跳过分支同步避免级联触发');
+    logger.info(MESSAGES.log.skipAutoSync);
     return [{ success: true }];
   }
 
   const results: BranchSyncResult[] = [];
 
-  if (targetBranch === 'main') {
-    // Main分支更新后：使用rebase向下游Beta分支同步
-    logger.info('Main分支更新，使用rebase向Beta分支同步');
+  // 按同步计划逐级向下游同步（见 getSyncPlan）
+  const { channels, hotfixBranches } = getActionConfig();
+  for (const step of getSyncPlan(targetBranch, sourceBranch, channels, hotfixBranches)) {
+    const useRebase = step.strategy === 'rebase';
+    logger.info(MESSAGES.log.syncDirection(step.source, step.target, useRebase));
 
-    const betaResult = await syncDownstreamWithRebase('main', 'beta', newVersion);
-    results.push(betaResult);
+    const result = useRebase
+      ? await syncDownstreamWithRebase(step.source, step.target, tags)
+      : await syncDownstream(step.source, step.target, tags, step.preserveVersions);
+    results.push(result);
 
-    if (betaResult.success) {
-      // Beta分支同步成功后，继续向Alpha分支merge
-      logger.info('Main → Beta 同步成功，继续 Beta → Alpha merge同步');
-      const alphaResult = await syncDownstream('beta', 'alpha', newVersion);
-      results.push(alphaResult);
-    } else {
-      logger.warning('Main → Beta 同步失败，跳过 Beta → Alpha 级联同步');
+    if (!result.success) {
+      logger.warning(MESSAGES.log.syncCascadeStopped(step.source, step.target));
+      break;
     }
-  } else if (targetBranch === 'beta') {
-    // Beta分支更新后：使用merge向下游Alpha分支同步
-    logger.info('Beta分支更新，使用merge向Alpha分支同步');
-    const result = await syncDownstream('beta', 'alpha', newVersion);
-    results.push(result);
   }
-  // Alpha 分支更新时不自动同步，需要手动 PR 到 Beta
+  // 入口通道更新时不自动同步，需要手动 PR 到上游通道
 
   return results;
 }
@@ -697,17 +597,17 @@ async function configureNpmAuth(registry: string, token: string): Promise<void>
   try {
     // 设置registry
     await exec('npm', ['config', 'set', 'registry', registry]);
-    logger.info(`配置npm registry: ${registry}`);
+    logger.info(MESSAGES.log.npmRegistry(registry));
 
     // 设置认证token
     if (token) {
       const registryUrl = new URL(registry);
       const authKey = `//${registryUrl.host}/:_authToken`;
       await exec('npm', ['config', 'set', authKey, token]);
-      logger.info('配置npm认证token');
+      logger.info(MESSAGES.log.npmAuth);
     }
   } catch (error) {
-    throw new ActionError(`配置npm认证失败: ${error}`, 'configureNpmAuth', error);
+    throw new ActionError(MESSAGES.error.npmAuthFailed(error), 'configureNpmAuth', error);
   }
 }
 
@@ -715,21 +615,22 @@ async function configureNpmAuth(registry: string, token: string): Promise<void>
  * 确定npm发布标签
  */
 function determineNpmTag(version: string, targetBranch: SupportedBranch, configTag: string): string {
+  // 维护分支始终使用自己的标签，避免旧版本覆盖 latest
+  const { channels, maintenanceBranches } = getActionConfig();
+  const maintenance = getMaintenanceBranch(targetBranch, maintenanceBranches);
+  if (maintenance) {
+    return maintenance.distTag;
+  }
+
   // 如果用户指定了特定标签，使用用户指定的标签
   if (configTag !== 'latest') {
     return configTag;
   }
 
-  // 根据分支和版本自动确定标签
-  if (targetBranch === 'main') {
-    // 主分支使用latest标签
-    return 'latest';
-  } else if (targetBranch === 'beta') {
-    // Beta分支使用beta标签
-    return 'beta';
-  } else if (targetBranch === 'alpha') {
-    // Alpha分支使用alpha标签
-    return 'alpha';
+  // 根据通道自动确定标签：正式通道使用latest，预发布通道使用其预发布标识
+  const channel = getChannel(targetBranch, channels);
+  if (channel) {
+    return channel.prerelease || 'latest';
   }
 
   // 如果是预发布版本，根据prerelease标识确定标签
@@ -737,8 +638,7 @@ function determineNpmTag(version: string, targetBranch: SupportedBranch, configT
   const parsed = VersionUtils.parseVersion(cleanVersion);
   if (parsed?.prerelease && parsed.prerelease.length > 0) {
     const prereleaseId = parsed.prerelease[0] as string;
-    if (prereleaseId === 'alpha') return 'alpha';
-    if (prereleaseId === 'beta') return 'beta';
+    if (getChannelByPrerelease(prereleaseId, channels)) return prereleaseId;
   }
 
   return 'latest';
@@ -751,12 +651,13 @@ async function publishToNpm(
   version: string,
   targetBranch: SupportedBranch,
   config: { registry: string; token: string; tag: string; access: string },
+  packageDir?: string,
 ): Promise<void> {
   try {
     // 确定发布标签
     const publishTag = determineNpmTag(version, targetBranch, config.tag);
 
-    logger.info(`准备发布到npm: 版本=${version}, 标签=${publishTag}, 分支=${targetBranch}`);
+    logger.info(MESSAGES.log.npmPrepare(version, publishTag, targetBranch));
 
     // 配置npm认证
     await configureNpmAuth(config.registry, config.token);
@@ -773,9 +674,9 @@ async function publishToNpm(
     publishArgs.push('--tag', publishTag);
 
     // 执行发布
-    await exec('npm', publishArgs);
+    await exec('npm', publishArgs, packageDir ? { cwd: packageDir } : undefined);
 
-    logger.info(`✅ 成功发布到npm: ${version} (标签: ${publishTag})`);
+    logger.info(MESSAGES.log.npmPublished(version, publishTag));
 
     // 设置输出
     core.setOutput('published-version', version);
@@ -788,40 +689,45 @@ async function publishToNpm(
       errorMessage.includes('version already exists') ||
       errorMessage.includes('You cannot publish over the previously published versions')
     ) {
-      logger.warning(`版本 ${version} 已存在于npm registry，跳过发布`);
+      logger.warning(MESSAGES.log.npmAlreadyPublished(version));
       return;
     }
 
-    throw new ActionError(`npm发布失败: ${error}`, 'publishToNpm', error);
+    throw new ActionError(MESSAGES.error.npmPublishFailed(error), 'publishToNpm', error);
   }
 }
 
 /**
- * 处理npm发布逻辑 - 只对目标分支版本发布
+ * 处理npm发布逻辑 - 只对目标分支版本发布，返回是否发布成功（未启用时返回 skipped，严格模式下失败时抛出错误）
  */
-export async function handleNpmPublish(version: string, targetBranch: SupportedBranch): Promise<void> {
+export async function handleNpmPublish(
+  version: string,
+  targetBranch: SupportedBranch,
+  packageDir?: string,
+): Promise<boolean | 'skipped'> {
   if (!isNpmPublishEnabled()) {
-    logger.info('npm发布已禁用，跳过');
-    return;
+    logger.info(MESSAGES.log.npmDisabled);
+    return 'skipped';
   }
 
   try {
-    logger.info(`开始npm发布流程: 版本=${version}, 目标分支=${targetBranch}`);
+    logger.info(MESSAGES.log.npmStart(version, targetBranch));
 
     const config = getNpmPublishConfig();
 
     // 验证必需的配置
     if (!config.token) {
-      throw new ActionError('npm-token未配置，无法发布到npm', 'handleNpmPublish');
+      throw new ActionError(MESSAGES.error.npmTokenMissing, 'handleNpmPublish');
     }
 
     // 只对目标分支的版本进行发布，不处理下游分支
-    await publishToNpm(version, targetBranch, config);
+    await publishToNpm(version, targetBranch, config, packageDir);
 
-    logger.info(`✅ ${targetBranch}分支版本 ${version} npm发布完成`);
+    logger.info(MESSAGES.log.npmDone(targetBranch, version));
+    return true;
   } catch (error) {
     // npm发布失败不应该中断整个流程
-    logger.error(`npm发布失败: ${error}`);
+    logger.error(MESSAGES.log.npmFailed(error));
     core.setOutput('npm-publish-failed', 'true');
     core.setOutput('npm-publish-error', String(error));
 
@@ -830,47 +736,263 @@ export async function handleNpmPublish(version: string, targetBranch: SupportedB
     if (strictMode) {
       throw error;
     }
+    return false;
   }
 }
 
 // ==================== 版本更新和标签创建 ====================
 
 /**
- * 更新版本并创建标签 - 支持基于PR的CHANGELOG生成和npm发布
+ * 在本地创建版本提交、版本标签和 CHANGELOG 提交（不推送）
+ */
+async function prepareVersionRelease(
+  newVersion: string,
+  targetBranch: SupportedBranch,
+  pr: PRData | null,
+): Promise<TagRelease> {
+  // 更新版本文件
+  await updateVersionFiles(newVersion);
+
+  // 提交版本更改并创建标签
+  const fullVersion = await commitVersion(newVersion, targetBranch);
+
+  // 🎯 在打tag后更新 CHANGELOG - 使用PR信息
+  const changelogEntry = await updateChangelog(pr, newVersion, targetBranch);
+
+  // 附注标签以 CHANGELOG 条目为消息，因此生成条目后再重建标签
+  await annotateReleaseTag(fullVersion, changelogEntry);
+  await commitChangelogs(['CHANGELOG.md'], fullVersion);
+
+  return { tag: fullVersion, version: newVersion, changelog: changelogEntry };
+}
+
+/**
+ * 获取已推送的提交范围：版本提交的父提交到当前提交（回滚时撤销这段提交）
+ */
+async function getReleaseCommits(tag: string): Promise<{ base: string; head: string }> {
+  return {
+    base: await execGitWithOutput(['rev-parse', `${tag}^{commit}^`]),
+    head: await execGitWithOutput(['rev-parse', 'HEAD']),
+  };
+}
+
+/**
+ * 为发布日志中的版本创建 GitHub Release 并发布 npm（之前的运行已完成的步骤跳过）
+ */
+async function publishJournalReleases(journal: ReleaseJournal): Promise<void> {
+  const { targetBranch, releases } = journal.entry;
+
+  // 🏷️ 创建或更新 GitHub Release（失败时只记录，重新运行时重试）
+  await journal.run('github-release', async () => {
+    if (!getGitHubReleaseConfig().enabled) return 'skipped';
+    let succeeded = true;
+    for (const release of releases) {
+      const notes = release.changelog;
+      if (!(await publishGitHubRelease({ tag: release.tag, version: release.version, targetBranch, notes }))) {
+        succeeded = false;
+      }
+    }
+    return succeeded;
+  });
+
+  // 🚀 发布到npm - 只对目标分支版本发布，跳过私有包和之前的运行已发布的包（每个包发布后记录到日志）
+  await journal.run('npm-publish', async () => {
+    if (!isNpmPublishEnabled()) return 'skipped';
+    let succeeded = true;
+    for (const release of releases) {
+      if (release.private) {
+        logger.info(MESSAGES.log.privatePackageSkipped(release.name!));
+        continue;
+      }
+      if (release.published) {
+        logger.info(MESSAGES.log.npmPublishedSkipped(release.tag));
+        continue;
+      }
+      const result = await handleNpmPublish(release.version, targetBranch, release.dir);
+      if (result === true) {
+        await journal.recordPublished(release);
+      } else if (result === false) {
+        succeeded = false;
+      }
+    }
+    return succeeded;
+  });
+}
+
+/**
+ * 更新版本并创建标签 - 支持基于PR的CHANGELOG生成和npm发布，返回创建的标签
+ *
+ * 版本提交、CHANGELOG 提交和标签原子推送；版本已被并发发布占用时通过 recalculate 重新计算版本，
+ * 并发运行已发布时返回 null（不推送，也不保存发布日志）。
+ * 每个步骤记录到发布日志中，失败时由调用方按 release-failure-policy 处理
  */
 export async function updateVersionAndCreateTag(
   newVersion: string,
   targetBranch: SupportedBranch,
-  pr: PRData | null = null,
-): Promise<void> {
+  pr: PRData | null,
+  recalculate: VersionRecalculator,
+  journal: ReleaseJournal,
+): Promise<TagRelease | null> {
   try {
-    logger.info('开始执行版本更新...');
+    logger.info(MESSAGES.log.versionUpdateStart);
 
+    // 要求签名但没有可用密钥时在修改仓库之前失败
+    await configureGitSigning();
     await execGit(['switch', targetBranch]);
 
-    // 更新版本文件
-    const { updatePackageVersion } = await import('./version');
-    await updatePackageVersion(newVersion);
+    const toAttempt = (version: string): ReleaseAttempt<TagRelease> => ({
+      tags: [VersionUtils.addVersionPrefix(version)],
+      prepare: () => prepareVersionRelease(version, targetBranch, pr),
+    });
+    await journal.run('push', async () => {
+      const release = await releaseAtomically(targetBranch, toAttempt(newVersion), async () => {
+        const version = await recalculate();
+        return version ? toAttempt(version) : null;
+      });
+      if (!release) {
+        journal.discard();
+        return 'skipped';
+      }
+      journal.recordReleases([release], await getReleaseCommits(release.tag));
+      return true;
+    });
+    if (journal.discarded) return null;
 
-    // 提交版本更改并推送
-    await commitAndPushVersion(newVersion, targetBranch);
+    await publishJournalReleases(journal);
+    return journal.entry.releases[0];
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.releaseFailed(error), 'updateVersionAndCreateTag', error);
+  }
+}
 
-    // 🎯 在打tag后更新 CHANGELOG - 使用PR信息
-    await updateChangelog(pr, newVersion);
+/**
+ * 继续之前运行未完成的发布：检出已推送的版本提交，从失败的步骤继续 GitHub Release 和 npm 发布
+ */
+export async function resumeRelease(journal: ReleaseJournal): Promise<void> {
+  const { targetBranch, commits } = journal.entry;
+  try {
+    await configureGitSigning();
+    await execGit(['fetch', 'origin', `+refs/heads/${targetBranch}:refs/remotes/origin/${targetBranch}`]);
+    // 与之前的运行推送后的状态一致：目标分支指向已推送的提交，下游同步也从这里开始
+    await execGit(['switch', '--force-create', targetBranch, commits!.head]);
 
-    // 检查是否有 CHANGELOG 更改需要提交
-    const hasChanges = await hasFileChanges('CHANGELOG.md');
-    if (hasChanges) {
-      const fullVersion = VersionUtils.addVersionPrefix(newVersion);
-      await commitAndPushFile('CHANGELOG.md', COMMIT_TEMPLATES.CHANGELOG_UPDATE(fullVersion), targetBranch);
-      logger.info('✅ CHANGELOG 更新已提交');
-    } else {
-      logger.info('CHANGELOG 无更改，跳过提交');
+    await publishJournalReleases(journal);
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.resumeFailed(error), 'resumeRelease', error);
+  }
+}
+
+/**
+ * 在本地检出中应用版本更新（本地 CLI 使用）- 合并源分支、更新版本文件、提交并打标签、更新 CHANGELOG
+ *
+ * 只修改本地仓库：不推送、不同步下游分支、不创建 GitHub Release、不发布 npm
+ */
+export async function applyVersionLocally(
+  newVersion: string,
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+): Promise<string> {
+  try {
+    await configureGitSigning();
+    await execGit(['switch', targetBranch]);
+
+    // 模拟PR合并
+    if (sourceBranch && sourceBranch !== targetBranch) {
+      await execGit(['merge', sourceBranch, '--no-ff', '--no-edit']);
     }
 
-    // 🚀 发布到npm - 只对目标分支版本发布
-    await handleNpmPublish(newVersion, targetBranch);
+    // 本地模拟的PR没有编号和链接，CHANGELOG 只包含从提交中收集到的已合并PR
+    return (await prepareVersionRelease(newVersion, targetBranch, null)).tag;
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.applyLocallyFailed(error), 'applyVersionLocally', error);
+  }
+}
+
+/**
+ * 在本地创建 monorepo 包的版本提交、各包的标签和 CHANGELOG 提交（不推送），返回各包的发布
+ */
+async function preparePackageReleases(
+  releasePlans: PackageVersionPlan[],
+  targetBranch: SupportedBranch,
+  pr: PRData | null,
+): Promise<JournalRelease[]> {
+  // 更新各包的版本文件
+  for (const plan of releasePlans) {
+    await updateVersionFiles(plan.nextVersion!, plan.dir);
+  }
+
+  // 一次提交所有版本更改并创建各包的标签
+  const tags = await commitPackageVersions(releasePlans, targetBranch);
+
+  // 在打tag后更新各包的 CHANGELOG，附注标签以各包的 CHANGELOG 条目为消息
+  const releases: JournalRelease[] = [];
+  for (const plan of releasePlans) {
+    const tag = getPackageTag(plan, plan.nextVersion!);
+    const changelog = await updateChangelog(pr, plan.nextVersion!, targetBranch, {
+      changelogPath: `${plan.dir}/CHANGELOG.md`,
+      tagPrefix: plan.tagPrefix,
+      packageDir: plan.dir,
+    });
+    await annotateReleaseTag(tag, changelog);
+    releases.push({
+      tag,
+      version: plan.nextVersion!,
+      changelog,
+      name: plan.name,
+      dir: plan.dir,
+      private: plan.private,
+    });
+  }
+
+  await commitChangelogs(
+    releasePlans.map((plan) => `${plan.dir}/CHANGELOG.md`),
+    tags.join(', '),
+  );
+  return releases;
+}
+
+/**
+ * 更新 monorepo 包版本并创建标签 - 每个包独立维护 CHANGELOG 和 npm 发布，返回各包创建的标签（以包名为键）
+ *
+ * 版本已被并发发布占用时通过 replan 重新计划各包的版本，并发运行已发布时返回 null；每个步骤记录到发布日志中
+ */
+export async function updatePackageVersionsAndCreateTags(
+  plans: PackageVersionPlan[],
+  targetBranch: SupportedBranch,
+  pr: PRData | null,
+  replan: () => Promise<PackageVersionPlan[]>,
+  journal: ReleaseJournal,
+): Promise<Map<string, TagRelease> | null> {
+  const releasePlans = plans.filter((plan) => plan.nextVersion);
+  if (releasePlans.length === 0) return new Map();
+
+  try {
+    logger.info(MESSAGES.log.packagesUpdateStart(releasePlans.map((p) => `${p.name}@${p.nextVersion}`).join(', ')));
+
+    await configureGitSigning();
+    await execGit(['switch', targetBranch]);
+
+    const toAttempt = (planned: PackageVersionPlan[]): ReleaseAttempt<JournalRelease[]> => ({
+      tags: planned.map((plan) => getPackageTag(plan, plan.nextVersion!)),
+      prepare: () => preparePackageReleases(planned, targetBranch, pr),
+    });
+    await journal.run('push', async () => {
+      const releases = await releaseAtomically(targetBranch, toAttempt(releasePlans), async () => {
+        const planned = (await replan()).filter((plan) => plan.nextVersion);
+        return planned.length > 0 ? toAttempt(planned) : null;
+      });
+      if (!releases) {
+        journal.discard();
+        return 'skipped';
+      }
+      journal.recordReleases(releases, await getReleaseCommits(releases[0].tag));
+      return true;
+    });
+    if (journal.discarded) return null;
+
+    await publishJournalReleases(journal);
+    return new Map(journal.entry.releases.map((release) => [release.name!, release]));
   } catch (error) {
-    throw new ActionError(`版本更新和标签创建失败: ${error}`, 'updateVersionAndCreateTag', error);
+    throw new ActionError(MESSAGES.error.packagesReleaseFailed(error), 'updatePackageVersionsAndCreateTags', error);
   }
 }
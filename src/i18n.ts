@@ -0,0 +1,47 @@
+import core from './core';
+import {
+  DEFAULT_LOCALE,
+  describeUnsupportedLocale,
+  getMessages,
+  type Locale,
+  type MessageCatalog,
+  parseLocale,
+} from './messages';
+
+// ==================== 语言配置 ====================
+
+let locale: Locale | null = null;
+
+/**
+ * 输出语言（首次调用时读取输入参数，不支持的语言使用默认语言）
+ */
+export function getLocale(): Locale {
+  if (!locale) {
+    const input = core.getInput('locale');
+    const parsed = parseLocale(input);
+    if (!parsed) {
+      core.warning(`${describeUnsupportedLocale(input)} → ${DEFAULT_LOCALE}`);
+    }
+    locale = parsed || DEFAULT_LOCALE;
+  }
+  return locale;
+}
+
+/** 当前语言的消息（消息目录见 messages.ts，使用时才确定语言，导入模块时不读取输入参数） */
+export const MESSAGES: MessageCatalog = {
+  get comment() {
+    return getMessages(getLocale()).comment;
+  },
+  get error() {
+    return getMessages(getLocale()).error;
+  },
+  get issue() {
+    return getMessages(getLocale()).issue;
+  },
+  get log() {
+    return getMessages(getLocale()).log;
+  },
+  get cli() {
+    return getMessages(getLocale()).cli;
+  },
+};
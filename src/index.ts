@@ -1,44 +1,391 @@
 import { context } from '@actions/github';
+import type { ReleaseType } from 'semver';
+import { buildChangelogPreview } from './changelog';
+import { isSupportedBranch } from './config';
 import core, { logger } from './core';
-import { configureGitUser, syncBranches, updateVersionAndCreateTag } from './git';
-import { createErrorComment, handlePreviewMode, PRUtils } from './pr';
-import { ActionError, isSupportedBranch, type PRData, type SupportedBranch } from './types';
-import { calculateNewVersion, getBaseVersion } from './version';
+import {
+  configureGitUser,
+  resumeRelease,
+  syncBranches,
+  updatePackageVersionsAndCreateTags,
+  updateVersionAndCreateTag,
+} from './git';
+import { MESSAGES } from './i18n';
+import { describeJournalSteps, ReleaseJournal } from './journal';
+import { createErrorComment, getPRChangedFiles, handlePackagesPreviewMode, handlePreviewMode, PRUtils } from './pr';
+import { resolvePushRelease } from './push';
+import { createReleaseReport, writeReleaseReport } from './report';
+import {
+  ActionError,
+  type BranchSyncResult,
+  isValidReleaseType,
+  type ManualReleaseRequest,
+  type PRData,
+  type ReleaseReport,
+  type SupportedBranch,
+  type VersionRecalculator,
+} from './types';
+import {
+  calculateManualVersion,
+  calculateNewVersion,
+  calculateVersionPlan,
+  getBaseVersion,
+  getVersionInfo,
+  type VersionPlan,
+} from './version';
+import { discoverWorkspacePackages, getMonorepoConfig, planWorkspaceVersions } from './workspace';
 
 // ==================== 主执行函数 ====================
 
 /**
- * 处理执行模式逻辑
+ * 检查同步结果
+ */
+function warnFailedSyncs(syncResults: BranchSyncResult[]): void {
+  const failedSyncs = syncResults.filter((result) => !result.success);
+  if (failedSyncs.length > 0) {
+    logger.warning(MESSAGES.log.failedSyncs(failedSyncs.map((r) => r.error).join(', ')));
+  }
+}
+
+/**
+ * 将版本计划记录到发布报告
+ */
+function recordVersionPlan(report: ReleaseReport, plan: VersionPlan): void {
+  report.baseVersion = plan.baseVersion;
+  report.nextVersion = plan.newVersion;
+  report.releaseType = plan.releaseType || report.releaseType;
+  report.strategy = plan.strategy;
+  report.skipReason = plan.newVersion ? null : 'no-version-change';
+  report.invalidTags = plan.invalidTags;
+}
+
+/**
+ * 执行记录在发布日志中的发布（日志记录到发布报告）：失败时按 release-failure-policy 回滚或保留状态后继续抛出错误
+ */
+async function runJournaled<T>(journal: ReleaseJournal, report: ReleaseReport, release: () => Promise<T>): Promise<T> {
+  report.journal = journal.entry;
+  try {
+    const result = await release();
+    await journal.finish();
+    return result;
+  } catch (error) {
+    await journal.fail();
+    throw error;
+  }
+}
+
+/**
+ * 并发运行已发布同一提交：本次没有推送任何内容，按已发布跳过
+ */
+function skipSupersededRelease(report: ReleaseReport): void {
+  Object.assign(report, { mode: 'skipped', skipReason: 'already-released', nextVersion: null, journal: null });
+}
+
+/**
+ * 同步下游分支（记录到发布日志，同步失败时重新运行可以继续）
+ */
+async function syncJournaled(journal: ReleaseJournal, report: ReleaseReport): Promise<void> {
+  const { targetBranch, sourceBranch } = journal.entry;
+  await journal.run('sync', async () => {
+    report.syncResults = await syncBranches(targetBranch, journal.tags, sourceBranch);
+    warnFailedSyncs(report.syncResults);
+    return report.syncResults.every((result) => result.success);
+  });
+}
+
+/**
+ * 处理执行模式逻辑（标签、CHANGELOG 和同步结果记录到发布报告），返回实际发布的版本
+ *
+ * 版本被并发发布占用时通过 recalculate 重新计算，因此实际发布的版本可能与 newVersion 不同；
+ * 并发运行已发布时跳过（skipReason 为 already-released）并返回 null
  */
 async function handleExecutionMode(
   newVersion: string,
   targetBranch: SupportedBranch,
   pr: PRData | null,
+  recalculate: VersionRecalculator,
+  report: ReleaseReport,
+  sourceBranch: string = pr?.head.ref ?? '',
+): Promise<string | null> {
+  const journal = ReleaseJournal.create(targetBranch, sourceBranch);
+  return runJournaled(journal, report, async () => {
+    const release = await updateVersionAndCreateTag(newVersion, targetBranch, pr, recalculate, journal);
+    if (!release) {
+      skipSupersededRelease(report);
+      return null;
+    }
+    report.nextVersion = release.version;
+    report.tag = release.tag;
+    report.changelog = release.changelog;
+
+    await syncJournaled(journal, report);
+    return release.version;
+  });
+}
+
+/**
+ * 重新运行失败的发布时从发布日志继续，返回是否已处理（之前的运行已完成发布，或本次从失败的步骤继续完成）
+ *
+ * 没有日志、版本提交未推送或发布已回滚时返回 false，按新发布处理
+ */
+async function resumeFromJournal(report: ReleaseReport): Promise<boolean> {
+  const journal = await ReleaseJournal.load();
+  if (!journal) return false;
+
+  const tags = journal.tags.join(', ');
+  if (journal.entry.status === 'completed') {
+    logger.info(MESSAGES.log.journalCompleted(tags));
+    report.skipReason = 'already-released';
+    report.journal = journal.entry;
+    return true;
+  }
+  if (!journal.resumable) return false;
+
+  logger.info(MESSAGES.log.journalResume(tags, journal.describe()));
+  const { targetBranch, sourceBranch, releases } = journal.entry;
+  const isMonorepo = releases.some((release) => release.name);
+  Object.assign(report, { mode: 'release', targetBranch, sourceBranch, skipReason: null });
+  if (isMonorepo) {
+    report.packages = releases.map((release) => ({
+      name: release.name!,
+      currentVersion: null,
+      nextVersion: release.version,
+      tag: release.tag,
+      changelog: release.changelog,
+    }));
+  } else {
+    Object.assign(report, { nextVersion: releases[0].version, tag: releases[0].tag, changelog: releases[0].changelog });
+  }
+
+  await runJournaled(journal, report, async () => {
+    await resumeRelease(journal);
+    await syncJournaled(journal, report);
+  });
+
+  if (isMonorepo) {
+    core.setOutput('package-versions', JSON.stringify(Object.fromEntries(releases.map((r) => [r.name, r.version]))));
+  } else {
+    core.setOutput('next-version', releases[0].version);
+  }
+  core.setOutput('is-preview', 'false');
+  return true;
+}
+
+/**
+ * 处理 monorepo 模式 - 每个受影响的 workspace 包独立计算版本
+ *
+ * 推送事件没有PR时由调用方提供修改文件和发布类型
+ */
+async function handleMonorepoMode(
+  pr: PRData | null,
+  sourceBranch: string,
+  targetBranch: SupportedBranch,
+  isDryRun: boolean,
+  report: ReleaseReport,
+  pushed?: { changedFiles: string[]; releaseType: ReleaseType | null },
 ): Promise<void> {
-  await updateVersionAndCreateTag(newVersion, targetBranch, pr);
-  const syncResults = await syncBranches(targetBranch, newVersion);
+  const packages = await discoverWorkspacePackages();
+  const changedFiles = pushed?.changedFiles ?? (pr ? await getPRChangedFiles(pr.number) : []);
+  const planVersions = () =>
+    planWorkspaceVersions(packages, changedFiles, targetBranch, sourceBranch, pr, pushed?.releaseType ?? undefined);
+  const plans = await planVersions();
+  const releasePlans = plans.filter((plan) => plan.nextVersion);
+  let packageVersions = Object.fromEntries(releasePlans.map((plan) => [plan.name, plan.nextVersion]));
+  report.packages = plans.map((plan) => ({
+    name: plan.name,
+    currentVersion: plan.currentVersion,
+    nextVersion: plan.nextVersion,
+    tag: null,
+    changelog: null,
+  }));
+  report.skipReason = releasePlans.length > 0 ? null : 'no-version-change';
 
-  // 检查同步结果
-  const failedSyncs = syncResults.filter((result) => !result.success);
-  if (failedSyncs.length > 0) {
-    logger.warning(`部分分支同步失败: ${failedSyncs.map((r) => r.error).join(', ')}`);
+  if (isDryRun) {
+    logger.info(MESSAGES.log.previewMode);
+    await handlePackagesPreviewMode(pr, sourceBranch, targetBranch, plans);
+    report.mode = 'preview';
+    core.setOutput('package-versions', JSON.stringify(packageVersions));
+    core.setOutput('is-preview', 'true');
+    return;
+  }
+
+  logger.info(MESSAGES.log.executionMode);
+  if (releasePlans.length > 0) {
+    report.mode = 'release';
+    const journal = ReleaseJournal.create(targetBranch, sourceBranch);
+    const releases = await runJournaled(journal, report, async () => {
+      const tagReleases = await updatePackageVersionsAndCreateTags(
+        releasePlans,
+        targetBranch,
+        pr,
+        planVersions,
+        journal,
+      );
+      if (!tagReleases) {
+        skipSupersededRelease(report);
+        packageVersions = {};
+        return null;
+      }
+      for (const pkg of report.packages) {
+        const release = tagReleases.get(pkg.name);
+        if (release)
+          Object.assign(pkg, { nextVersion: release.version, tag: release.tag, changelog: release.changelog });
+      }
+      packageVersions = Object.fromEntries(Array.from(tagReleases, ([name, release]) => [name, release.version]));
+      await syncJournaled(journal, report);
+      return journal.tags.join(', ');
+    });
+    if (releases) logger.info(MESSAGES.log.packagesUpdated(releases));
+  } else {
+    logger.info(MESSAGES.log.noUpgrade(sourceBranch, targetBranch));
+  }
+
+  core.setOutput('package-versions', JSON.stringify(packageVersions));
+  core.setOutput('is-preview', 'false');
+}
+
+/**
+ * 读取手动发布参数：优先使用 action 输入，其次使用 workflow_dispatch 的同名输入
+ */
+function getManualReleaseRequest(): ManualReleaseRequest {
+  const dispatchInputs = (context.payload.inputs || {}) as Record<string, string | undefined>;
+  const getInput = (name: string) => (core.getInput(name) || dispatchInputs[name] || '').trim();
+
+  const targetBranch = getInput('release-branch');
+  const releaseType = getInput('release-type').toLowerCase();
+  const version = getInput('release-version');
+
+  if (!targetBranch) {
+    throw new ActionError(MESSAGES.error.manualMissingBranch, 'getManualReleaseRequest');
+  }
+  if (releaseType && version) {
+    throw new ActionError(MESSAGES.error.manualConflictingRelease, 'getManualReleaseRequest');
+  }
+  if (!releaseType && !version) {
+    throw new ActionError(MESSAGES.error.manualMissingRelease, 'getManualReleaseRequest');
+  }
+  if (releaseType && !isValidReleaseType(releaseType)) {
+    throw new ActionError(MESSAGES.error.manualUnknownReleaseType(releaseType), 'getManualReleaseRequest');
+  }
+
+  return {
+    targetBranch,
+    releaseType: isValidReleaseType(releaseType) ? releaseType : null,
+    version: version || null,
+    actor: context.actor,
+  };
+}
+
+/**
+ * 处理手动发布（workflow_dispatch）- 跳过PR相关步骤，执行与合并PR相同的发布流程
+ */
+async function handleManualRelease(report: ReleaseReport): Promise<void> {
+  const request = getManualReleaseRequest();
+  report.targetBranch = request.targetBranch;
+  report.releaseType = request.releaseType;
+  report.strategy = 'manual';
+  logger.info(MESSAGES.log.manualRelease(request.targetBranch, request.actor));
+  logger.info(MESSAGES.log.manualReleaseRequest(request.releaseType, request.version));
+
+  if (!isSupportedBranch(request.targetBranch)) {
+    throw new ActionError(MESSAGES.error.unsupportedBranch(request.targetBranch), 'handleManualRelease');
+  }
+  if (getMonorepoConfig().enabled) {
+    throw new ActionError(MESSAGES.error.manualMonorepoUnsupported, 'handleManualRelease');
+  }
+
+  await configureGitUser();
+  if (await resumeFromJournal(report)) return;
+
+  report.baseVersion = (await getVersionInfo(request.targetBranch)).currentTag;
+  const newVersion = await calculateManualVersion(request);
+  logger.info(MESSAGES.log.nextVersion(newVersion, false));
+
+  logger.info(MESSAGES.log.executionMode);
+  report.mode = 'release';
+  report.nextVersion = newVersion;
+  const releasedVersion = await handleExecutionMode(
+    newVersion,
+    request.targetBranch,
+    null,
+    () => calculateManualVersion(request),
+    report,
+  );
+  if (releasedVersion) logger.info(MESSAGES.log.versionUpdated(releasedVersion));
+
+  core.setOutput('next-version', releasedVersion || '');
+  core.setOutput('is-preview', 'false');
+  core.setOutput('triggered-by', request.actor);
+}
+
+/**
+ * 处理直接推送到通道分支（push）- 通过关联PR或提交消息确定版本，执行与合并PR相同的发布流程
+ */
+async function handlePushRelease(report: ReleaseReport): Promise<void> {
+  const push = await resolvePushRelease();
+  if (typeof push === 'string') {
+    report.skipReason = push;
+    return;
+  }
+
+  const { targetBranch, sourceBranch, pr, releaseType, changedFiles } = push;
+  Object.assign(report, { targetBranch, sourceBranch, prNumber: pr?.number ?? null, releaseType });
+  await configureGitUser();
+  if (await resumeFromJournal(report)) return;
+
+  if (getMonorepoConfig().enabled) {
+    await handleMonorepoMode(pr, sourceBranch, targetBranch, false, report, { changedFiles, releaseType });
+    return;
+  }
+
+  const plan = await calculateVersionPlan(targetBranch, sourceBranch, pr, undefined, releaseType ?? undefined);
+  const newVersion = plan.newVersion;
+  recordVersionPlan(report, plan);
+  logger.info(MESSAGES.log.executionMode);
+
+  if (newVersion) {
+    logger.info(MESSAGES.log.nextVersion(newVersion, false));
+    report.mode = 'release';
+    const recalculate = () => calculateNewVersion(targetBranch, sourceBranch, pr, undefined, releaseType ?? undefined);
+    const releasedVersion = await handleExecutionMode(newVersion, targetBranch, pr, recalculate, report, sourceBranch);
+    core.setOutput('next-version', releasedVersion || '');
+    if (releasedVersion) logger.info(MESSAGES.log.versionUpdated(releasedVersion));
+  } else {
+    logger.info(MESSAGES.log.noUpgrade(sourceBranch, targetBranch));
+    core.setOutput('next-version', '');
   }
+  core.setOutput('is-preview', 'false');
 }
 
 /**
  * 主执行函数 - 自动版本升级和分支同步
  */
 async function run(): Promise<void> {
+  const report = createReleaseReport(context.eventName);
   try {
+    // 手动发布：没有PR，直接按输入的目标分支和版本执行
+    if (context.eventName === 'workflow_dispatch') {
+      await handleManualRelease(report);
+      return;
+    }
+
+    // 直接推送：没有PR事件，通过关联PR或提交消息确定版本
+    if (context.eventName === 'push') {
+      await handlePushRelease(report);
+      return;
+    }
+
     // 1. 直接从 GitHub context 获取必要信息
     if (context.eventName !== 'pull_request') {
-      logger.info(`只支持 pull_request 事件，当前事件: ${context.eventName}`);
+      logger.info(MESSAGES.log.onlyPullRequest(context.eventName));
+      report.skipReason = 'unsupported-event';
       return;
     }
 
     const prPayload = context.payload.pull_request;
     if (!prPayload) {
-      logger.error('PR payload 不存在');
+      logger.error(MESSAGES.log.missingPRPayload);
+      report.skipReason = 'missing-pr-payload';
       return;
     }
 
@@ -46,82 +393,96 @@ async function run(): Promise<void> {
     const targetBranch = prPayload.base.ref;
     const sourceBranch = prPayload.head.ref;
     const prNumber = prPayload.number;
+    Object.assign(report, { targetBranch, sourceBranch, prNumber });
 
     // 🔍 调试信息：输出完整的分支信息和运行实例标识
     const runId = process.env.GITHUB_RUN_ID;
     const runNumber = process.env.GITHUB_RUN_NUMBER;
-    logger.info(`🔍 ===== Action运行实例信息 =====`);
-    logger.info(`  - Action运行ID: ${runId}`);
-    logger.info(`  - Action运行编号: ${runNumber}`);
-    logger.info(`  - 工作流名称: ${process.env.GITHUB_WORKFLOW}`);
-    logger.info(`  - 事件类型: ${context.eventName}`);
-    logger.info(`  - 事件动作: ${context.payload.action}`);
-    logger.info(`🔍 ===== PR信息 =====`);
-    logger.info(`  - payload.pull_request.number: ${context.payload.pull_request?.number}`);
-    logger.info(`  - prPayload.number: ${prPayload.number}`);
-    logger.info(`  - prNumber: ${prNumber}`);
-    logger.info(`  - 源分支 (head.ref): ${sourceBranch}`);
-    logger.info(`  - 目标分支 (base.ref): ${targetBranch}`);
-    logger.info(`  - PR标题: ${prPayload.title || '无'}`);
-    logger.info(`  - PR URL: ${prPayload.html_url || '无'}`);
-    logger.info(`🔍 ===== Context完整信息 =====`);
-    logger.info(`  - context.sha: ${context.sha}`);
-    logger.info(`  - context.ref: ${context.ref}`);
-    logger.info(`  - context.payload keys: ${Object.keys(context.payload).join(', ')}`);
+    logger.info(MESSAGES.log.runInfoHeader);
+    logger.info(MESSAGES.log.runId(runId));
+    logger.info(MESSAGES.log.runNumber(runNumber));
+    logger.info(MESSAGES.log.workflow(process.env.GITHUB_WORKFLOW));
+    logger.info(MESSAGES.log.eventName(context.eventName));
+    logger.info(MESSAGES.log.eventAction(context.payload.action));
+    logger.info(MESSAGES.log.prInfoHeader);
+    logger.info(MESSAGES.log.prNumber(prNumber));
+    logger.info(MESSAGES.log.sourceBranch(sourceBranch));
+    logger.info(MESSAGES.log.targetBranch(targetBranch));
+    logger.info(MESSAGES.log.prTitle(prPayload.title));
+    logger.info(MESSAGES.log.prUrl(prPayload.html_url));
+    logger.info(MESSAGES.log.contextHeader);
+    logger.info(MESSAGES.log.contextSha(context.sha));
+    logger.info(MESSAGES.log.contextRef(context.ref));
+    logger.info(MESSAGES.log.payloadKeys(Object.keys(context.payload).join(', ')));
 
     // 构建PR数据对象（使用payload数据，避免API重新获取导致的不一致）
     const pr: PRData = prPayload as PRData;
     const isMerged = prPayload.state === 'closed' && prPayload.merged === true;
     const isDryRun = !isMerged;
-    const eventType = isMerged ? 'merge' : 'preview';
 
     // 类型守卫：确保 targetBranch 是支持的分支类型
     if (!isSupportedBranch(targetBranch)) {
-      logger.info(`不支持的分支: ${targetBranch}，跳过版本管理`);
+      logger.info(MESSAGES.error.unsupportedBranch(targetBranch));
+      report.skipReason = 'unsupported-branch';
       return;
     }
 
-    logger.info(
-      `分支合并方向: ${sourceBranch} → ${targetBranch} (${eventType}模式${isDryRun ? ' - 预览' : ' - 执行'})`,
-    );
+    logger.info(MESSAGES.log.mergeDirection(sourceBranch, targetBranch, isDryRun));
 
     // 2. 配置 Git 用户信息
     await configureGitUser();
 
+    // 重新运行失败的发布时从失败的步骤继续
+    if (!isDryRun && (await resumeFromJournal(report))) return;
+
+    // Monorepo：每个 workspace 包独立计算版本和标签
+    if (getMonorepoConfig().enabled) {
+      await handleMonorepoMode(pr, sourceBranch, targetBranch, isDryRun, report);
+      return;
+    }
+
     // 3. 获取基础版本（用于显示当前版本）
     const baseVersion = await getBaseVersion(targetBranch, sourceBranch, pr);
 
     // 4. 根据分支策略计算新版本号（策略内部自行判断是否需要PR标签）
-    const newVersion = await calculateNewVersion(targetBranch, sourceBranch, pr);
+    const plan = await calculateVersionPlan(targetBranch, sourceBranch, pr);
+    const newVersion = plan.newVersion;
+    recordVersionPlan(report, plan);
 
     // 改进日志输出，提供更多调试信息
     if (newVersion) {
-      logger.info(`🎯 ${isDryRun ? '预览' : '新'}版本: ${newVersion}`);
+      logger.info(MESSAGES.log.nextVersion(newVersion, isDryRun));
     } else {
-      logger.warning(
-        `⚠️ 版本计算结果为空 - 合并方向: ${sourceBranch} → ${targetBranch}, 基础版本: ${baseVersion || '无'}`,
-      );
+      logger.warning(MESSAGES.log.emptyVersion(sourceBranch, targetBranch, baseVersion));
     }
 
     // 5. 根据模式执行相应操作
     if (isDryRun) {
       // 预览模式：更新 PR 评论
-      logger.info('📝 执行预览模式...');
-      await handlePreviewMode(pr, sourceBranch, targetBranch, baseVersion, newVersion);
+      logger.info(MESSAGES.log.previewMode);
+      const changelogPreview = newVersion ? buildChangelogPreview(pr, newVersion) : '';
+      await handlePreviewMode(pr, sourceBranch, targetBranch, baseVersion, newVersion, {
+        releaseType: plan.releaseType,
+        changelogPreview,
+      });
+      report.mode = 'preview';
+      report.changelog = changelogPreview || null;
       core.setOutput('preview-version', newVersion || '');
       core.setOutput('is-preview', 'true');
     } else {
       // 执行模式：无论是否有新版本都要处理
-      logger.info('🚀 执行版本更新模式...');
+      logger.info(MESSAGES.log.executionMode);
 
       if (newVersion) {
         // 有新版本：更新版本并同步分支 - 传递PR信息给CHANGELOG生成
-        await handleExecutionMode(newVersion, targetBranch, pr);
-        core.setOutput('next-version', newVersion);
-        logger.info(`✅ 版本更新完成: ${newVersion}`);
+        report.mode = 'release';
+        const recalculate = () => calculateNewVersion(targetBranch, sourceBranch, pr);
+        const releasedVersion = await handleExecutionMode(newVersion, targetBranch, pr, recalculate, report);
+        core.setOutput('next-version', releasedVersion || '');
+        if (releasedVersion) logger.info(MESSAGES.log.versionUpdated(releasedVersion));
       } else {
         // 无新版本：记录详细信息但不阻塞流程
-        logger.info(`ℹ️ 无需版本升级 - 合并方向: ${sourceBranch} → ${targetBranch}, 当前版本: ${baseVersion || '无'}`);
+        logger.info(MESSAGES.log.noUpgrade(sourceBranch, targetBranch, baseVersion));
         core.setOutput('next-version', '');
       }
 
@@ -130,29 +491,37 @@ async function run(): Promise<void> {
   } catch (error: unknown) {
     // 尝试获取PR信息来创建错误评论
     let errorMessage = '';
+    report.mode = 'failed';
     if (error instanceof ActionError) {
       errorMessage = `${error.context}: ${error.message}`;
-      logger.error(`Action执行失败: ${error.message} (${error.context})`);
+      logger.error(MESSAGES.log.actionFailed(error.message, error.context));
       core.setFailed(errorMessage);
     } else {
       errorMessage = String(error);
-      logger.error(`未知错误: ${error}`);
+      logger.error(MESSAGES.log.unknownError(error));
       core.setFailed(errorMessage);
     }
 
-    // 尝试在PR中创建错误评论（如果存在PR）
+    // 尝试在PR中创建错误评论（如果存在PR），版本已推送时附上发布步骤，说明重新运行可以继续
     try {
       const prPayload = context.payload.pull_request;
       if (prPayload) {
         const prNumber = PRUtils.getCurrentPRNumber(prPayload as PRData);
         if (prNumber) {
-          await createErrorComment(prNumber, errorMessage);
-          logger.info(`已在 PR #${prNumber} 创建错误评论`);
+          const { journal } = report;
+          const journalSummary = journal?.commits
+            ? `\n\n${MESSAGES.error.releaseJournal(journal.status, describeJournalSteps(journal))}`
+            : '';
+          await createErrorComment(prNumber, `${errorMessage}${journalSummary}`);
+          logger.info(MESSAGES.log.errorCommentCreated(prNumber));
         }
       }
     } catch (commentError) {
-      logger.warning(`创建错误评论失败: ${commentError}`);
+      logger.warning(MESSAGES.log.errorCommentFailed(commentError));
     }
+    report.error = errorMessage;
+  } finally {
+    await writeReleaseReport(report);
   }
 }
 
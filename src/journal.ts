@@ -0,0 +1,366 @@
+import { exec } from '@actions/exec';
+import { context } from '@actions/github';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { getGitHubClient } from './pr';
+import {
+  COMMIT_TEMPLATES,
+  type JournalRelease,
+  type ReleaseJournalEntry,
+  type ReleaseJournalStep,
+  type ReleaseStepName,
+  type SupportedBranch,
+} from './types';
+
+// ==================== 发布日志配置 ====================
+
+/** 发布失败时的处理方式：resume 保留已完成的步骤，由之后的运行从失败的步骤继续；rollback 执行补偿操作撤销发布 */
+export type ReleaseFailurePolicy = 'resume' | 'rollback';
+
+/**
+ * 解析 release-failure-policy 输入
+ */
+function parseFailurePolicy(input: string): ReleaseFailurePolicy {
+  const value = input.trim().toLowerCase();
+  if (!value || value === 'resume') return 'resume';
+  if (value === 'rollback') return 'rollback';
+  logger.warning(MESSAGES.log.failurePolicyUnknown(input));
+  return 'resume';
+}
+
+let releaseFailurePolicy: ReleaseFailurePolicy | null = null;
+
+/**
+ * 发布失败时的处理方式（首次调用时读取输入参数）
+ */
+export function getReleaseFailurePolicy(): ReleaseFailurePolicy {
+  if (!releaseFailurePolicy) {
+    releaseFailurePolicy = parseFailurePolicy(core.getInput('release-failure-policy'));
+  }
+  return releaseFailurePolicy;
+}
+
+/** 保存发布日志的 git notes 引用（日志附加在触发发布的提交上，重新运行时按提交读取） */
+const JOURNAL_NOTES_REF = 'refs/notes/version-patch';
+
+/** 保存日志时推送被拒绝（其他运行同时保存了日志）后的最多尝试次数 */
+const MAX_SAVE_ATTEMPTS = 3;
+
+/** 发布步骤的执行顺序 */
+const RELEASE_STEPS: readonly ReleaseStepName[] = ['push', 'github-release', 'npm-publish', 'sync'];
+
+// ==================== Git 辅助函数 ====================
+
+/**
+ * 执行 git 命令并返回退出码和输出（不输出命令日志，失败时不抛出错误），可通过 stdin 传入数据
+ */
+async function execGitQuiet(
+  args: string[],
+  input?: string,
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const exitCode = await exec('git', args, {
+    silent: true,
+    ignoreReturnCode: true,
+    input: input === undefined ? undefined : Buffer.from(input),
+    listeners: {
+      stdout: (data: Buffer) => {
+        stdout += data.toString();
+      },
+      stderr: (data: Buffer) => {
+        stderr += data.toString();
+      },
+    },
+  });
+  return { exitCode, stdout: stdout.trim(), stderr: stderr.trim() };
+}
+
+/**
+ * 执行 git 命令，失败时抛出错误
+ */
+async function execGit(args: string[]): Promise<void> {
+  await exec('git', args);
+}
+
+/**
+ * 从远程获取发布日志（远程还没有日志时保留本地引用）
+ */
+async function fetchJournalNotes(): Promise<void> {
+  await execGitQuiet(['fetch', 'origin', `+${JOURNAL_NOTES_REF}:${JOURNAL_NOTES_REF}`]);
+}
+
+/**
+ * 从远程获取并读取提交上保存的发布日志，没有日志或日志无法解析时返回 null
+ */
+async function readJournalEntry(sha: string): Promise<ReleaseJournalEntry | null> {
+  await fetchJournalNotes();
+  const { exitCode, stdout } = await execGitQuiet(['notes', `--ref=${JOURNAL_NOTES_REF}`, 'show', sha]);
+  if (exitCode !== 0 || !stdout) return null;
+
+  try {
+    return JSON.parse(stdout) as ReleaseJournalEntry;
+  } catch (error) {
+    logger.warning(MESSAGES.log.journalInvalid(error));
+    return null;
+  }
+}
+
+// ==================== 发布日志 ====================
+
+/**
+ * 发布日志各步骤的状态摘要（如 `push: done, github-release: skipped, npm-publish: failed, sync: pending`）
+ */
+export function describeJournalSteps(entry: ReleaseJournalEntry): string {
+  return entry.steps.map((step) => `${step.name}: ${step.status}`).join(', ');
+}
+
+/**
+ * 发布日志：按顺序记录发布的每个步骤（推送、GitHub Release、npm 发布、下游同步），每个步骤完成后保存到远程
+ *
+ * 发布中途失败时按 release-failure-policy 回滚已完成的步骤，或保留状态由之后的运行（重新运行同一事件）从失败的步骤继续
+ */
+export class ReleaseJournal {
+  private isDiscarded = false;
+
+  private constructor(readonly entry: ReleaseJournalEntry) {}
+
+  /**
+   * 为本次运行创建新的发布日志
+   */
+  static create(targetBranch: SupportedBranch, sourceBranch: string): ReleaseJournal {
+    return new ReleaseJournal({
+      trigger: context.sha || '',
+      event: context.eventName,
+      runId: process.env.GITHUB_RUN_ID || '',
+      targetBranch,
+      sourceBranch,
+      status: 'in-progress',
+      releases: [],
+      commits: null,
+      steps: RELEASE_STEPS.map((name) => ({ name, status: 'pending', error: null })),
+    });
+  }
+
+  /**
+   * 读取之前运行在触发提交上保存的发布日志，没有日志或日志不属于当前事件时返回 null
+   *
+   * 同一提交的 PR 合并和推送事件按事件匹配；手动发布可以在同一提交上多次触发，只匹配同一次运行（重新运行）
+   */
+  static async load(): Promise<ReleaseJournal | null> {
+    if (!context.sha) return null;
+
+    const entry = await readJournalEntry(context.sha);
+    if (!entry) return null;
+
+    const sameRun = !!entry.runId && entry.runId === process.env.GITHUB_RUN_ID;
+    const sameEvent = entry.event === context.eventName && context.eventName !== 'workflow_dispatch';
+    return sameRun || sameEvent ? new ReleaseJournal(entry) : null;
+  }
+
+  /**
+   * 读取提交上的发布日志中已推送的标签（不区分事件，如同一次合并已由 pull_request 事件发布），已回滚的发布不计入
+   */
+  static async findReleasedTags(sha: string): Promise<string[]> {
+    const entry = sha ? await readJournalEntry(sha) : null;
+    if (!entry?.commits || entry.status === 'rolled-back') return [];
+    return entry.releases.map((release) => release.tag);
+  }
+
+  /** 本次发布的标签 */
+  get tags(): string[] {
+    return this.entry.releases.map((release) => release.tag);
+  }
+
+  /**
+   * 是否可以从失败的步骤继续：版本提交和标签已推送，且发布没有完成或回滚
+   */
+  get resumable(): boolean {
+    const { status, commits } = this.entry;
+    return (status === 'in-progress' || status === 'failed') && !!commits && this.getStep('push').status === 'done';
+  }
+
+  /**
+   * 获取步骤记录
+   */
+  private getStep(name: ReleaseStepName): ReleaseJournalStep {
+    return this.entry.steps.find((step) => step.name === name)!;
+  }
+
+  /**
+   * 各步骤的状态摘要（见 describeJournalSteps）
+   */
+  describe(): string {
+    return describeJournalSteps(this.entry);
+  }
+
+  /** 本次发布是否已放弃（见 discard） */
+  get discarded(): boolean {
+    return this.isDiscarded;
+  }
+
+  /**
+   * 放弃本次发布：并发运行已发布同一提交，本次没有推送任何内容。之后不再保存日志，避免覆盖该运行保存在同一提交上的日志
+   */
+  discard(): void {
+    this.isDiscarded = true;
+  }
+
+  /**
+   * 记录已推送的版本和提交范围（推送步骤中调用）
+   */
+  recordReleases(releases: JournalRelease[], commits: { base: string; head: string }): void {
+    this.entry.releases = releases;
+    this.entry.commits = commits;
+  }
+
+  /**
+   * 记录已发布到 npm 的版本并立即保存（同一步骤中的其他包发布失败时，回滚和继续发布都依赖这个状态）
+   */
+  async recordPublished(release: JournalRelease): Promise<void> {
+    release.published = true;
+    await this.save();
+  }
+
+  /**
+   * 执行一个发布步骤并保存结果；之前的运行已完成的步骤直接跳过
+   *
+   * action 返回 true 表示完成，false 表示失败但不中断发布（如非严格模式的 npm 发布），'skipped' 表示未启用；抛出错误时记录后继续抛出
+   */
+  async run(name: ReleaseStepName, action: () => Promise<boolean | 'skipped'>): Promise<void> {
+    const step = this.getStep(name);
+    if (step.status === 'done' || step.status === 'skipped') {
+      logger.info(MESSAGES.log.journalStepSkipped(name));
+      return;
+    }
+
+    try {
+      const result = await action();
+      step.status = result === 'skipped' ? 'skipped' : result === false ? 'failed' : 'done';
+      step.error = result === false ? MESSAGES.log.journalStepIncomplete : null;
+    } catch (error) {
+      step.status = 'failed';
+      step.error = String(error);
+      await this.save();
+      throw error;
+    }
+    await this.save();
+  }
+
+  /**
+   * 所有步骤执行后更新发布状态：有步骤失败时保留状态，由之后的运行继续
+   */
+  async finish(): Promise<void> {
+    if (this.isDiscarded) return;
+    const failed = this.entry.steps.some((step) => step.status === 'failed');
+    this.entry.status = failed ? 'failed' : 'completed';
+    await this.save();
+    if (failed) {
+      logger.warning(MESSAGES.log.journalIncomplete(this.describe()));
+    }
+  }
+
+  /**
+   * 发布中途失败时按 release-failure-policy 处理：回滚已完成的步骤，或保留状态由之后的运行继续
+   */
+  async fail(): Promise<void> {
+    this.entry.status = 'failed';
+    if (getReleaseFailurePolicy() === 'rollback' && this.entry.commits) {
+      await this.rollback();
+    }
+    await this.save();
+    if (this.entry.status === 'failed' && this.resumable) {
+      logger.warning(MESSAGES.log.journalIncomplete(this.describe()));
+    }
+  }
+
+  // ==================== 补偿操作 ====================
+
+  /**
+   * 按相反顺序撤销已完成的步骤：删除 GitHub Release，删除远程标签并还原版本提交
+   *
+   * 任一 npm 包发布后无法撤销，此时保留发布状态；补偿操作失败时同样保留状态，由之后的运行继续
+   */
+  private async rollback(): Promise<void> {
+    const tags = this.tags.join(', ');
+    const published = this.entry.releases.filter((release) => release.published).map((release) => release.tag);
+    if (published.length > 0) {
+      logger.warning(MESSAGES.log.rollbackIrreversible(published.join(', ')));
+      return;
+    }
+
+    logger.info(MESSAGES.log.rollbackStart(tags));
+    try {
+      if (this.getStep('github-release').status === 'done') {
+        await this.deleteGitHubReleases();
+        this.getStep('github-release').status = 'rolled-back';
+      }
+      await this.revertPush();
+      this.getStep('push').status = 'rolled-back';
+      this.entry.status = 'rolled-back';
+      logger.info(MESSAGES.log.rollbackDone(tags, this.describe()));
+    } catch (error) {
+      logger.error(MESSAGES.log.rollbackFailed(error));
+    }
+  }
+
+  /**
+   * 删除本次发布的标签对应的 GitHub Release
+   */
+  private async deleteGitHubReleases(): Promise<void> {
+    const octokit = getGitHubClient();
+    for (const tag of this.tags) {
+      try {
+        const { data } = await octokit.rest.repos.getReleaseByTag({ ...context.repo, tag });
+        await octokit.rest.repos.deleteRelease({ ...context.repo, release_id: data.id });
+      } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error;
+      }
+    }
+  }
+
+  /**
+   * 以一个新提交撤销已推送的版本提交和 CHANGELOG 提交（不改写目标分支历史），再删除远程标签
+   *
+   * 撤销失败时标签保持不变，之后的运行仍可继续发布
+   */
+  private async revertPush(): Promise<void> {
+    const { targetBranch, commits } = this.entry;
+    const tags = this.tags;
+
+    await execGit(['fetch', 'origin', `+refs/heads/${targetBranch}:refs/remotes/origin/${targetBranch}`]);
+    await execGit(['switch', '--force-create', targetBranch, `origin/${targetBranch}`]);
+    await execGit(['revert', '--no-commit', `${commits!.base}..${commits!.head}`]);
+    await execGit(['commit', '--allow-empty', '-m', COMMIT_TEMPLATES.RELEASE_ROLLBACK(tags.join(', '))]);
+    await execGit(['push', 'origin', targetBranch]);
+
+    await execGit(['push', '--atomic', 'origin', ...tags.map((tag) => `:refs/tags/${tag}`)]);
+    await execGitQuiet(['tag', '-d', ...tags]);
+  }
+
+  // ==================== 持久化 ====================
+
+  /**
+   * 将日志以 git notes 的形式保存到触发提交上并推送（多次尝试后仍失败时只输出警告）
+   *
+   * 每次尝试都先获取远程日志再添加本次的日志，推送被拒绝（其他运行同时保存了日志）时重新获取后重试，
+   * 不会覆盖其他提交上的日志
+   */
+  private async save(): Promise<void> {
+    if (!this.entry.trigger || this.isDiscarded) return;
+
+    const notes = ['notes', `--ref=${JOURNAL_NOTES_REF}`, 'add', '--force', '--file=-', this.entry.trigger];
+    let result = { exitCode: 0, stderr: '' };
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      if (attempt > 1) logger.info(MESSAGES.log.journalSaveRetry(attempt, MAX_SAVE_ATTEMPTS));
+
+      await fetchJournalNotes();
+      result = await execGitQuiet(notes, JSON.stringify(this.entry));
+      if (result.exitCode !== 0) break;
+
+      result = await execGitQuiet(['push', 'origin', JOURNAL_NOTES_REF]);
+      if (result.exitCode === 0) return;
+    }
+    logger.warning(MESSAGES.log.journalSaveFailed(result.stderr));
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildLabelRules,
+  DEFAULT_CHANGELOG_CATEGORY,
+  getBumpFromLabels,
+  getCategoryFromLabels,
+  getCategoryOrder,
+  parseLabelRules,
+} from './labels';
+import { getMessages } from './messages';
+
+const messages = getMessages('en');
+
+const labels = (...names: string[]) => names.map((name) => ({ name }));
+
+describe('parseLabelRules', () => {
+  it('解析版本级别和分类，忽略空行和注释', () => {
+    const rules = parseLabelRules('# 注释\n\ntype: feature => minor | ✨ Features\ndocs => | 📚 Docs', messages);
+    expect(rules.map(({ bump, category }) => ({ bump, category }))).toEqual([
+      { bump: 'minor', category: '✨ Features' },
+      { bump: null, category: '📚 Docs' },
+    ]);
+  });
+
+  it('支持通配符和正则，且不区分大小写', () => {
+    const [wildcard, regex] = parseLabelRules('semver:* => patch\n/^deps?\\b/g => patch', messages);
+    expect(wildcard.pattern.test('SEMVER:minor')).toBe(true);
+    expect(regex.pattern.flags).toBe('i');
+    expect(regex.pattern.test('Deps: bump')).toBe(true);
+  });
+
+  it('拒绝无效的规则', () => {
+    expect(() => parseLabelRules('feature', messages)).toThrow(messages.error.labelRuleInvalid('feature'));
+    expect(() => parseLabelRules('feature => huge', messages)).toThrow(
+      messages.error.labelRuleInvalidBump('feature => huge', 'huge'),
+    );
+    expect(() => parseLabelRules('/(/ => patch', messages)).toThrow(
+      messages.error.labelRuleInvalidRegex('/(/ => patch', '/(/'),
+    );
+  });
+});
+
+describe('标签匹配', () => {
+  const rules = buildLabelRules('type: feature => minor | ✨ Features', messages);
+
+  it('取所有匹配规则中最高的版本级别', () => {
+    expect(getBumpFromLabels(labels('patch', 'type: feature'), rules)).toBe('minor');
+    expect(getBumpFromLabels(labels('major', 'minor'), rules)).toBe('major');
+    expect(getBumpFromLabels(labels('documentation'), rules)).toBeNull();
+  });
+
+  it('用户规则优先于内置规则决定分类', () => {
+    expect(getCategoryFromLabels(labels('minor', 'type: feature'), rules)).toBe('✨ Features');
+    expect(getCategoryFromLabels(labels('security'), rules)).toBe('🔒 Security');
+    expect(getCategoryFromLabels(labels('unknown'), rules)).toBe(DEFAULT_CHANGELOG_CATEGORY);
+  });
+
+  it('分类按首次出现的顺序输出，默认分类最后', () => {
+    const order = getCategoryOrder(rules);
+    expect(order.slice(0, 3)).toEqual(['✨ Features', '💥 Breaking Changes', '🐛 Bug Fixes']);
+    expect(order[order.length - 1]).toBe(DEFAULT_CHANGELOG_CATEGORY);
+  });
+});
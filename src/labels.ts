@@ -0,0 +1,161 @@
+import type { MessageCatalog } from './messages';
+import { ActionError } from './types';
+
+// ==================== 标签规则类型 ====================
+
+/** 标签可映射的版本升级级别 */
+export type LabelBump = 'major' | 'minor' | 'patch';
+
+/**
+ * 标签规则：匹配标签的 PR 对应的版本升级级别和 CHANGELOG 分类
+ */
+export interface LabelRule {
+  /** 规则原文（用于日志） */
+  source: string;
+  /** 标签匹配器（精确匹配、`*` 通配符或 `/正则/`，不区分大小写） */
+  pattern: RegExp;
+  bump: LabelBump | null;
+  category: string | null;
+}
+
+/** 未匹配任何分类规则时的 CHANGELOG 分类 */
+export const DEFAULT_CHANGELOG_CATEGORY = '📝 Changes';
+
+/** 版本升级级别优先级（越大越高） */
+const BUMP_PRIORITY: Record<LabelBump, number> = {
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/** 内置标签规则（用户规则之后生效） */
+const BUILTIN_LABEL_RULES = `
+major => major | 💥 Breaking Changes
+minor => minor | ✨ Features
+patch => patch | 🐛 Bug Fixes
+enhancement => | ⚡ Improvements
+performance => | 🚀 Performance
+security => | 🔒 Security
+documentation => | 📚 Documentation
+dependencies => | ⬆️ Dependencies
+`;
+
+// ==================== 规则解析 ====================
+
+/**
+ * 将标签模式转换为正则：`/.../flags` 按正则处理，其余按精确匹配（支持 `*` 通配符）
+ */
+function compileLabelPattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    // 去掉 g/y 标志，避免 test() 在多次调用之间保留 lastIndex
+    const flags = regex[2].replace(/[gy]/g, '');
+    return new RegExp(regex[1], flags.includes('i') ? flags : `${flags}i`);
+  }
+
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * 解析标签规则配置
+ *
+ * 每行一条规则：`标签模式 => 版本级别 | CHANGELOG 分类`，版本级别和分类均可省略
+ *
+ * @example parseLabelRules("semver:minor => minor\ntype: feature => minor | ✨ Features\n/^deps?\\b/ => | ⬆️ Dependencies")
+ */
+export function parseLabelRules(input: string, messages: MessageCatalog): LabelRule[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line): LabelRule => {
+      const separatorIndex = line.lastIndexOf('=>');
+      if (separatorIndex === -1) {
+        throw new ActionError(messages.error.labelRuleInvalid(line), 'parseLabelRules');
+      }
+
+      const pattern = line.slice(0, separatorIndex).trim();
+      const [bumpPart = '', ...categoryParts] = line.slice(separatorIndex + 2).split('|');
+      const bump = bumpPart.trim().toLowerCase();
+      const category = categoryParts.join('|').trim();
+
+      if (!pattern) {
+        throw new ActionError(messages.error.labelRuleMissingPattern(line), 'parseLabelRules');
+      }
+      if (bump && !(bump in BUMP_PRIORITY)) {
+        throw new ActionError(messages.error.labelRuleInvalidBump(line, bump), 'parseLabelRules');
+      }
+
+      let compiled: RegExp;
+      try {
+        compiled = compileLabelPattern(pattern);
+      } catch (error) {
+        throw new ActionError(messages.error.labelRuleInvalidRegex(line, pattern), 'parseLabelRules', error);
+      }
+
+      return {
+        source: line,
+        pattern: compiled,
+        bump: (bump as LabelBump) || null,
+        category: category || null,
+      };
+    });
+}
+
+/**
+ * 构建完整的标签规则：用户规则优先，内置规则兜底
+ */
+export function buildLabelRules(input: string, messages: MessageCatalog): LabelRule[] {
+  return [...parseLabelRules(input, messages), ...parseLabelRules(BUILTIN_LABEL_RULES, messages)];
+}
+
+// ==================== 规则匹配 ====================
+
+/**
+ * 找出匹配任一标签的规则（保持规则顺序）
+ */
+export function matchLabelRules(labels: { name: string }[], rules: readonly LabelRule[]): LabelRule[] {
+  return rules.filter((rule) => labels.some((label) => rule.pattern.test(label.name)));
+}
+
+/**
+ * 从标签获取版本升级级别：所有匹配规则中取最高级别
+ */
+export function getBumpFromLabels(labels: { name: string }[], rules: readonly LabelRule[]): LabelBump | null {
+  let bump: LabelBump | null = null;
+  for (const rule of matchLabelRules(labels, rules)) {
+    if (rule.bump && (!bump || BUMP_PRIORITY[rule.bump] > BUMP_PRIORITY[bump])) {
+      bump = rule.bump;
+    }
+  }
+  return bump;
+}
+
+/**
+ * 从标签获取 CHANGELOG 分类：按规则顺序取第一个带分类的匹配规则
+ */
+export function getCategoryFromLabels(labels: { name: string }[], rules: readonly LabelRule[]): string {
+  return matchLabelRules(labels, rules).find((rule) => rule.category)?.category || DEFAULT_CHANGELOG_CATEGORY;
+}
+
+/**
+ * 获取 CHANGELOG 分类的输出顺序（按规则中首次出现的顺序，默认分类最后）
+ */
+export function getCategoryOrder(rules: readonly LabelRule[]): string[] {
+  const categories = rules.map((rule) => rule.category).filter((category): category is string => !!category);
+  return [
+    ...categories.filter((category, index) => categories.indexOf(category) === index),
+    DEFAULT_CHANGELOG_CATEGORY,
+  ];
+}
+
+/**
+ * 列出配置了版本级别的标签规则（用于日志提示）
+ */
+export function describeBumpLabels(rules: readonly LabelRule[]): string {
+  return rules
+    .filter((rule) => rule.bump)
+    .map((rule) => rule.source.slice(0, rule.source.lastIndexOf('=>')).trim())
+    .join('/');
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ActionError, calculateVersion, createVersionConfig } from './lib';
+
+const config = createVersionConfig();
+
+const pr = (...labels: string[]) => ({ labels: labels.map((name) => ({ name })) });
+
+describe('createVersionConfig', () => {
+  it('省略选项时使用默认配置', () => {
+    expect(config.channels.map((c) => c.branch)).toEqual(['main', 'beta', 'alpha']);
+    expect(config.tagPrefix).toBe('v');
+    expect(config.conventionalCommits).toBe(false);
+  });
+
+  it('按 locale 选择错误消息的语言，不支持的语言抛出错误', () => {
+    expect(() => createVersionConfig({ releaseChannels: 'main', locale: 'en' })).toThrow(/at least two branches/);
+    expect(() => createVersionConfig({ releaseChannels: 'main' })).toThrow(/至少需要两个分支/);
+    expect(() => createVersionConfig({ locale: 'fr' })).toThrow(ActionError);
+  });
+});
+
+describe('calculateVersion', () => {
+  it('没有标签时入口通道从默认版本开始', () => {
+    const result = calculateVersion({
+      config,
+      tags: [],
+      targetBranch: 'alpha',
+      sourceBranch: 'feature/x',
+      pr: pr('minor'),
+    });
+    expect(result).toMatchObject({
+      baseVersion: '0.0.0',
+      nextVersion: '0.1.0-alpha.0',
+      nextTag: 'v0.1.0-alpha.0',
+      releaseType: 'preminor',
+      strategy: 'entry',
+    });
+  });
+
+  it('入口通道在已有测试版本上递增预发布号', () => {
+    const tags = ['v1.1.0-alpha.0', 'v1.0.0'];
+    const result = calculateVersion({
+      config,
+      tags,
+      targetBranch: 'alpha',
+      sourceBranch: 'feature/y',
+      pr: pr('patch'),
+    });
+    expect(result.nextVersion).toBe('1.1.0-alpha.1');
+  });
+
+  it('预发布通道和正式通道沿通道链晋升', () => {
+    const tags = ['v1.1.0-alpha.2', 'v1.0.0'];
+    const beta = calculateVersion({ config, tags, targetBranch: 'beta', sourceBranch: 'alpha' });
+    expect(beta.nextVersion).toBe('1.1.0-beta.0');
+
+    const stable = calculateVersion({
+      config,
+      tags: ['v1.1.0-beta.1', ...tags],
+      targetBranch: 'main',
+      sourceBranch: 'beta',
+    });
+    expect(stable).toMatchObject({ baseVersion: '1.1.0-beta.1', nextVersion: '1.1.0', strategy: 'stable' });
+  });
+
+  it('使用配置中的标签前缀', () => {
+    const prefixed = createVersionConfig({ tagPrefix: 'release-' });
+    const result = calculateVersion({
+      config: prefixed,
+      tags: ['release-1.0.0'],
+      targetBranch: 'alpha',
+      sourceBranch: 'feature/x',
+      pr: pr('major'),
+    });
+    expect(result.nextTag).toBe('release-2.0.0-alpha.0');
+  });
+
+  it('正式通道缺少下游通道版本时抛出错误', () => {
+    expect(() => calculateVersion({ config, tags: ['v1.0.0'], targetBranch: 'main', sourceBranch: 'beta' })).toThrow(
+      ActionError,
+    );
+  });
+});
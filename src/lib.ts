@@ -0,0 +1,152 @@
+import type { ReleaseType } from 'semver';
+import { DEFAULT_RELEASE_CHANNELS, parseBranchPatterns, parseReleaseChannels } from './channel';
+import { buildLabelRules } from './labels';
+import { parseMaintenanceBranches } from './maintenance';
+import { describeUnsupportedLocale, getMessages, parseLocale } from './messages';
+import { buildPromotionRules } from './promotion';
+import { ActionError, type SupportedBranch } from './types';
+import {
+  getReleaseTypeFromPR,
+  type ReachableTags,
+  resolveBaseVersion,
+  resolveNextVersion,
+  TagIndex,
+  type VersionLog,
+  type VersionModelConfig,
+  type VersionPRInfo,
+  type VersionStrategyName,
+} from './version-model';
+
+export type { LabelRule } from './labels';
+export type { MaintenanceBranch } from './maintenance';
+export type { Locale, MessageCatalog } from './messages';
+export type { PromotionCheck, PromotionRule } from './promotion';
+export type { ReleaseChannel } from './types';
+export { ActionError } from './types';
+export {
+  assertManualReleaseAllowed,
+  assertPromotionAllowed,
+  getBaseVersionString,
+  getReleaseTypeFromPR,
+  parseVersion,
+  type ReachableTags,
+  resolveBaseVersion,
+  resolveNextVersion,
+  TagIndex,
+  type VersionLog,
+  type VersionModelConfig,
+  type VersionPRInfo,
+  type VersionStrategyName,
+  type VersionUpgradeContext,
+  type VersionUpgradeResult,
+} from './version-model';
+
+// ==================== 库配置 ====================
+
+/**
+ * 版本规则选项（与 Action 输入参数格式相同，省略时使用默认值）
+ */
+export interface VersionConfigOptions {
+  /** 同 `release-channels` 输入 */
+  releaseChannels?: string;
+  /** 同 `hotfix-branches` 输入 */
+  hotfixBranches?: string;
+  /** 同 `maintenance-branches` 输入 */
+  maintenanceBranches?: string;
+  /** 同 `label-rules` 输入（内置规则兜底） */
+  labelRules?: string;
+  /** 同 `conventional-commits` 输入 */
+  conventionalCommits?: boolean;
+  /** 同 `promotion-rules` 输入（内置规则兜底） */
+  promotionRules?: string;
+  /** 同 `version-prefix` 输入，默认为 `v` */
+  tagPrefix?: string;
+  /** 同 `locale` 输入（错误消息和日志的语言），默认为 `zh-CN` */
+  locale?: string;
+}
+
+/**
+ * 从选项构建版本规则配置，配置格式错误时抛出 ActionError
+ */
+export function createVersionConfig(options: VersionConfigOptions = {}): VersionModelConfig {
+  const locale = parseLocale(options.locale || '');
+  if (!locale) {
+    throw new ActionError(describeUnsupportedLocale(options.locale || ''), 'createVersionConfig');
+  }
+  const messages = getMessages(locale);
+  const channels = parseReleaseChannels(options.releaseChannels || DEFAULT_RELEASE_CHANNELS, messages);
+  const hotfixBranches = parseBranchPatterns(options.hotfixBranches || '');
+  return {
+    channels,
+    hotfixBranches,
+    maintenanceBranches: parseMaintenanceBranches(options.maintenanceBranches || '', messages),
+    labelRules: buildLabelRules(options.labelRules || '', messages),
+    conventionalCommits: options.conventionalCommits ?? false,
+    promotionRules: buildPromotionRules(options.promotionRules || '', channels, hotfixBranches, messages),
+    tagPrefix: options.tagPrefix || 'v',
+    messages,
+  };
+}
+
+// ==================== 版本计算 ====================
+
+/**
+ * 版本计算参数
+ */
+export interface CalculateVersionOptions {
+  config: VersionModelConfig;
+  /** 所有版本标签（按版本号排序；版本相同时按此顺序，建议同 `git tag -l 'v*' --sort=-creatordate`） */
+  tags: readonly string[];
+  /** 各分支可达的标签（同 `git tag -l 'v*' --merged <branch>`），未提供的分支使用全部标签 */
+  reachableTags?: ReachableTags;
+  /** 标签前缀，默认使用配置中的前缀 */
+  tagPrefix?: string;
+  targetBranch: SupportedBranch;
+  sourceBranch: string;
+  /** PR 信息（入口通道和维护分支从中推断发布类型） */
+  pr?: VersionPRInfo | null;
+  /** 指定发布类型，指定后不再从 PR 推断 */
+  releaseType?: ReleaseType;
+  /** 规则执行日志，默认不输出 */
+  log?: VersionLog;
+}
+
+/**
+ * 版本计算结果（版本号不带前缀）
+ */
+export interface CalculateVersionResult {
+  baseVersion: string | null;
+  nextVersion: string | null;
+  /** 新版本的标签（带前缀），无需发布时为 null */
+  nextTag: string | null;
+  releaseType: ReleaseType | '';
+  /** 使用的版本升级策略 */
+  strategy: VersionStrategyName | null;
+  /** 看起来像版本但无法解析的标签（不参与计算） */
+  invalidTags: string[];
+}
+
+/**
+ * 计算目标分支的下一个版本：与 Action 使用相同的规则，但不读取仓库、不调用 GitHub API
+ *
+ * 不符合通道晋升规则时抛出 ActionError
+ */
+export function calculateVersion(options: CalculateVersionOptions): CalculateVersionResult {
+  const { config, targetBranch, sourceBranch, tagPrefix = config.tagPrefix, log = () => {} } = options;
+  const index = new TagIndex(options.tags, tagPrefix, config, options.reachableTags);
+  const releaseType = options.releaseType || getReleaseTypeFromPR(config, targetBranch, options.pr ?? null);
+
+  const baseVersion = resolveBaseVersion(index, targetBranch, sourceBranch, log);
+  const { version: nextVersion, strategy } = baseVersion
+    ? resolveNextVersion({ baseVersion, targetBranch, sourceBranch, releaseType, index, log })
+    : { version: null, strategy: null };
+
+  return {
+    baseVersion,
+    nextVersion,
+    nextTag: nextVersion ? `${tagPrefix}${nextVersion}` : null,
+    releaseType,
+    strategy,
+    invalidTags: [...index.invalidTags],
+  };
+}
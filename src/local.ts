@@ -0,0 +1,176 @@
+import type { ReleaseType } from 'semver';
+import { getCommitsInRange, isAutomatedCommit } from './changelog';
+import { getSyncPlan } from './channel';
+import { getActionConfig, isSupportedBranch } from './config';
+import { getReleaseTypeFromConventionalCommits } from './conventional';
+import { logger } from './core';
+import { applyVersionLocally, execGitWithOutput } from './git';
+import { MESSAGES } from './i18n';
+import { getBumpFromLabels } from './labels';
+import { ActionError, type SupportedBranch, type VersionPRData } from './types';
+import { calculateNewVersion, getBaseVersion } from './version';
+import { discoverWorkspacePackages, getMonorepoConfig, getPackageTag, planWorkspaceVersions } from './workspace';
+
+// ==================== 本地运行参数 ====================
+
+/**
+ * 本地 CLI 参数（见 cli.ts）
+ */
+export interface LocalReleaseOptions {
+  /** 目标分支（PR 的 base） */
+  targetBranch: string;
+  /** 源分支（PR 的 head），为空时使用当前分支 */
+  sourceBranch: string;
+  /** 模拟的 PR 标签 */
+  labels: string[];
+  /** 在本地应用版本更新（合并、版本文件、标签、CHANGELOG），不推送 */
+  apply: boolean;
+}
+
+// ==================== 本地仓库信息 ====================
+
+/**
+ * 获取当前检出的分支
+ */
+async function getCurrentBranch(): Promise<string> {
+  return await execGitWithOutput(['rev-parse', '--abbrev-ref', 'HEAD']);
+}
+
+/**
+ * 获取源分支相对目标分支新增的提交消息（对应 PR 中的提交，排除本 Action 的自动提交）
+ */
+async function getLocalCommitMessages(targetBranch: string, sourceBranch: string): Promise<string[]> {
+  const commits = await getCommitsInRange(targetBranch, sourceBranch);
+  return commits.map((commit) => commit.message).filter((message) => !isAutomatedCommit(message));
+}
+
+/**
+ * 获取源分支相对目标分支修改的文件（对应 PR 修改的文件）
+ */
+async function getLocalChangedFiles(targetBranch: string, sourceBranch: string): Promise<string[]> {
+  const output = await execGitWithOutput(['diff', '--name-only', `${targetBranch}...${sourceBranch}`]);
+  return output.split('\n').filter((file) => file.trim());
+}
+
+/**
+ * 构建本地模拟的 PR（编号为 0，不会创建 PR 评论）
+ */
+function buildLocalPR(sourceBranch: string, targetBranch: string, labels: string[], title: string): VersionPRData {
+  return {
+    number: 0,
+    title,
+    labels: labels.map((name) => ({ name })),
+    head: { ref: sourceBranch },
+    base: { ref: targetBranch },
+  };
+}
+
+/**
+ * 确定本地发布类型：PR 标签优先（由版本策略处理），启用 conventional-commits 时从本地提交推断
+ */
+function getLocalReleaseType(labels: string[], commitMessages: string[]): ReleaseType | undefined {
+  const { labelRules, conventionalCommits } = getActionConfig();
+  if (
+    getBumpFromLabels(
+      labels.map((name) => ({ name })),
+      labelRules,
+    ) ||
+    !conventionalCommits
+  ) {
+    return undefined;
+  }
+  return getReleaseTypeFromConventionalCommits(commitMessages) || undefined;
+}
+
+// ==================== 本地版本计划 ====================
+
+/**
+ * 输出单仓库的版本计划
+ */
+function printVersionPlan(
+  sourceBranch: string,
+  targetBranch: SupportedBranch,
+  baseVersion: string | null,
+  newVersion: string | null,
+): void {
+  logger.info(MESSAGES.cli.planHeader);
+  logger.info(MESSAGES.cli.planBranches(sourceBranch, targetBranch));
+  logger.info(MESSAGES.cli.planCurrentVersion(baseVersion));
+  logger.info(newVersion ? MESSAGES.cli.planNextVersion(newVersion) : MESSAGES.cli.planNoRelease);
+  if (!newVersion) return;
+
+  const syncPlan = getSyncPlan(
+    targetBranch,
+    sourceBranch,
+    getActionConfig().channels,
+    getActionConfig().hotfixBranches,
+  );
+  if (syncPlan.length === 0) {
+    logger.info(MESSAGES.cli.planNoSync);
+  }
+  for (const step of syncPlan) {
+    logger.info(MESSAGES.cli.planSyncStep(step.source, step.target, step.strategy));
+  }
+}
+
+/**
+ * 在本地仓库上计算版本计划（与PR预览相同的版本计算），可选地在本地应用版本更新
+ */
+export async function runLocalRelease(options: LocalReleaseOptions): Promise<void> {
+  const { targetBranch, labels, apply } = options;
+  if (!targetBranch) {
+    throw new ActionError(MESSAGES.error.localMissingTarget, 'runLocalRelease');
+  }
+  if (!isSupportedBranch(targetBranch)) {
+    throw new ActionError(MESSAGES.error.unsupportedBranch(targetBranch), 'runLocalRelease');
+  }
+
+  const sourceBranch = options.sourceBranch || (await getCurrentBranch());
+  if (sourceBranch === targetBranch) {
+    throw new ActionError(MESSAGES.error.localSameBranch(targetBranch), 'runLocalRelease');
+  }
+
+  const commitMessages = await getLocalCommitMessages(targetBranch, sourceBranch);
+  // git log 从新到旧，最早的提交标题作为 PR 标题
+  const title = commitMessages[commitMessages.length - 1]?.split('\n')[0] || '';
+  const pr = buildLocalPR(sourceBranch, targetBranch, labels, title);
+  const releaseType = getLocalReleaseType(labels, commitMessages);
+  logger.info(MESSAGES.cli.localRun(sourceBranch, targetBranch, labels.join(', '), commitMessages.length));
+
+  // Monorepo：只输出各包的版本计划
+  if (getMonorepoConfig().enabled) {
+    if (apply) {
+      throw new ActionError(MESSAGES.error.localMonorepoApplyUnsupported, 'runLocalRelease');
+    }
+    const packages = await discoverWorkspacePackages();
+    const changedFiles = await getLocalChangedFiles(targetBranch, sourceBranch);
+    const plans = await planWorkspaceVersions(packages, changedFiles, targetBranch, sourceBranch, pr, releaseType);
+
+    logger.info(MESSAGES.cli.planHeader);
+    logger.info(MESSAGES.cli.planBranches(sourceBranch, targetBranch));
+    for (const plan of plans) {
+      logger.info(
+        MESSAGES.cli.planPackage(
+          plan.name,
+          plan.currentVersion,
+          plan.nextVersion && getPackageTag(plan, plan.nextVersion),
+        ),
+      );
+    }
+    logger.info(MESSAGES.cli.previewOnly);
+    return;
+  }
+
+  const baseVersion = await getBaseVersion(targetBranch, sourceBranch, pr);
+  const newVersion = await calculateNewVersion(targetBranch, sourceBranch, pr, undefined, releaseType);
+  printVersionPlan(sourceBranch, targetBranch, baseVersion, newVersion);
+
+  if (!newVersion) return;
+  if (!apply) {
+    logger.info(MESSAGES.cli.previewOnly);
+    return;
+  }
+
+  const tag = await applyVersionLocally(newVersion, targetBranch, sourceBranch);
+  logger.info(MESSAGES.cli.applied(tag, targetBranch));
+}
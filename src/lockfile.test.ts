@@ -0,0 +1,86 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { syncLockfiles, updateNpmLockfileContent } from './lockfile';
+
+describe('updateNpmLockfileContent', () => {
+  const content = `${JSON.stringify(
+    {
+      name: 'root',
+      version: '1.0.0',
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'root', version: '1.0.0' },
+        'packages/a': { name: '@scope/a', version: '0.1.0' },
+        'node_modules/@scope/a': { resolved: 'packages/a', link: true },
+      },
+    },
+    null,
+    4,
+  )}\n`;
+
+  it('更新根包和 workspace 包的版本，保留缩进和结尾换行', () => {
+    const updated = updateNpmLockfileContent(content, [
+      { name: 'root', dir: '.', previousVersion: '1.0.0', version: '1.1.0' },
+      { name: '@scope/a', dir: './packages/a/', previousVersion: '0.1.0', version: '0.2.0' },
+    ]);
+    const lock = JSON.parse(updated);
+    expect(lock.version).toBe('1.1.0');
+    expect(lock.packages[''].version).toBe('1.1.0');
+    expect(lock.packages['packages/a'].version).toBe('0.2.0');
+    expect(updated).toMatch(/^ {4}"name"/m);
+    expect(updated.endsWith('}\n')).toBe(true);
+  });
+
+  it('没有变更时返回原内容', () => {
+    const updates = [{ name: '@scope/b', dir: 'packages/a', previousVersion: '0.1.0', version: '0.2.0' }];
+    expect(updateNpmLockfileContent(content, updates)).toBe(content);
+  });
+});
+
+describe('syncLockfiles', () => {
+  // pnpm 10 对 workspace 生成的锁文件（根项目依赖 workspace:*，app 依赖 workspace:^0.1.0）
+  const pnpmLockfile = [
+    "lockfileVersion: '9.0'",
+    '',
+    'settings:',
+    '  autoInstallPeers: true',
+    '  excludeLinksFromLockfile: false',
+    '',
+    'importers:',
+    '',
+    '  .:',
+    '    dependencies:',
+    "      '@scope/a':",
+    '        specifier: workspace:*',
+    '        version: link:packages/a',
+    '',
+    '  packages/a: {}',
+    '',
+    '  packages/app:',
+    '    dependencies:',
+    "      '@scope/a':",
+    '        specifier: workspace:^0.1.0',
+    '        version: link:../a',
+    '',
+  ].join('\n');
+
+  it('pnpm 锁文件中 workspace 依赖记录为 link:，升级版本时保持不变', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'lockfile-'));
+    try {
+      await writeFile(join(dir, 'pnpm-lock.yaml'), pnpmLockfile, 'utf8');
+      const changed = await syncLockfiles(
+        [
+          { name: 'root', dir: '', previousVersion: '1.0.0', version: '1.1.0' },
+          { name: '@scope/a', dir: 'packages/a', previousVersion: '0.1.0', version: '0.2.0' },
+        ],
+        dir,
+      );
+      expect(changed).toEqual([]);
+      expect(await readFile(join(dir, 'pnpm-lock.yaml'), 'utf8')).toBe(pnpmLockfile);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
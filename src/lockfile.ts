@@ -0,0 +1,90 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { logger } from './core';
+import { MESSAGES } from './i18n';
+import { ActionError } from './types';
+
+// ==================== 锁文件版本同步 ====================
+
+/**
+ * 包版本变更
+ */
+export interface LockfileVersionUpdate {
+  name: string;
+  /** 包目录（相对仓库根目录，根包为空字符串） */
+  dir: string;
+  previousVersion: string;
+  version: string;
+}
+
+/** npm 锁文件 */
+const NPM_LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json'];
+
+/**
+ * 统一包目录写法（`./packages/a/` -> `packages/a`，根目录 -> ``）
+ */
+function normalizePackageDir(dir: string): string {
+  const normalized = posix.normalize(dir.replace(/\\/g, '/')).replace(/^\.\/?|\/$/g, '');
+  return normalized === '.' ? '' : normalized;
+}
+
+/**
+ * 更新 npm 锁文件：根包的 `version` / `packages[""].version`，workspace 包的 `packages[dir].version`
+ */
+export function updateNpmLockfileContent(content: string, updates: LockfileVersionUpdate[]): string {
+  const lock = JSON.parse(content);
+  let changed = false;
+
+  for (const update of updates) {
+    const dir = normalizePackageDir(update.dir);
+
+    if (dir === '' && lock.name === update.name && lock.version !== update.version) {
+      lock.version = update.version;
+      changed = true;
+    }
+
+    const entry = lock.packages?.[dir];
+    if (entry && (dir === '' || entry.name === update.name) && entry.version !== update.version) {
+      entry.version = update.version;
+      changed = true;
+    }
+  }
+
+  if (!changed) return content;
+
+  const indent = content.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+  return `${JSON.stringify(lock, null, indent)}${content.endsWith('\n') ? '\n' : ''}`;
+}
+
+/**
+ * 离线同步锁文件中的版本字段（不重新生成锁文件），返回已修改的锁文件路径
+ *
+ * 只处理 npm 锁文件：pnpm-lock.yaml 中的 workspace 依赖记录为 `version: link:../pkg`，
+ * 根项目和 workspace 包本身的版本不写入锁文件，升级版本后无需修改
+ */
+export async function syncLockfiles(updates: LockfileVersionUpdate[], rootDir = '.'): Promise<string[]> {
+  const changedFiles: string[] = [];
+
+  for (const name of NPM_LOCKFILES) {
+    const path = join(rootDir, name);
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch {
+      continue;
+    }
+
+    try {
+      const updated = updateNpmLockfileContent(content, updates);
+      if (updated !== content) {
+        await writeFile(path, updated, 'utf8');
+        changedFiles.push(path);
+        logger.info(MESSAGES.log.lockfileSynced(name, updates.map((u) => `${u.name}@${u.version}`).join(', ')));
+      }
+    } catch (error) {
+      throw new ActionError(MESSAGES.error.lockfileSyncFailed(name, error), 'syncLockfiles', error);
+    }
+  }
+
+  return changedFiles;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getMaintenanceBranch, parseMaintenanceBranches } from './maintenance';
+import { getMessages } from './messages';
+
+const messages = getMessages('en');
+
+describe('parseMaintenanceBranches', () => {
+  it('从分支名推导版本范围和 npm 标签', () => {
+    expect(parseMaintenanceBranches('2.x\nrelease/2.4, v3', messages)).toEqual([
+      { branch: '2.x', range: '2.x', distTag: 'v2-lts' },
+      { branch: 'release/2.4', range: '2.4.x', distTag: 'v2.4-lts' },
+      { branch: 'v3', range: '3.x', distTag: 'v3-lts' },
+    ]);
+  });
+
+  it('显式配置优先于推导', () => {
+    expect(parseMaintenanceBranches('legacy => 1.x | v1-lts\nrelease/2 => 2.1.x', messages)).toEqual([
+      { branch: 'legacy', range: '1.x', distTag: 'v1-lts' },
+      { branch: 'release/2', range: '2.1.x', distTag: 'v2-lts' },
+    ]);
+  });
+
+  it('无法确定或无效的版本范围时抛出错误', () => {
+    expect(() => parseMaintenanceBranches('legacy', messages)).toThrow(
+      messages.error.maintenanceRangeUnknown('legacy'),
+    );
+    expect(() => parseMaintenanceBranches('legacy => not a range!', messages)).toThrow(
+      messages.error.maintenanceRangeInvalid('legacy', 'not a range!'),
+    );
+  });
+
+  it('按分支名查找维护分支', () => {
+    const branches = parseMaintenanceBranches('2.x', messages);
+    expect(getMaintenanceBranch('2.x', branches)?.range).toBe('2.x');
+    expect(getMaintenanceBranch('main', branches)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import semver from 'semver';
+import type { MessageCatalog } from './messages';
+import { ActionError } from './types';
+
+// ==================== 维护分支配置 ====================
+
+/**
+ * 维护分支：为旧的主版本/次版本线继续发布补丁版本
+ */
+export interface MaintenanceBranch {
+  branch: string;
+  /** 版本范围（semver range，如 `2.x`、`2.4.x`），标签查询只在此范围内进行 */
+  range: string;
+  /** npm 发布标签（如 `v2-lts`） */
+  distTag: string;
+}
+
+/** 从分支名推导版本线：`2.x`、`v2`、`release/2.4`、`maintenance/2.4.x` */
+const BRANCH_VERSION_LINE_PATTERN = /(?:^|[/-])v?(\d+)(?:\.(\d+))?(?:\.x)?$/;
+
+/**
+ * 从分支名推导版本范围和默认 npm 标签
+ */
+function deriveVersionLine(branch: string): { range: string; distTag: string } | null {
+  const match = branch.match(BRANCH_VERSION_LINE_PATTERN);
+  if (!match) return null;
+
+  const [, major, minor] = match;
+  return minor === undefined
+    ? { range: `${major}.x`, distTag: `v${major}-lts` }
+    : { range: `${major}.${minor}.x`, distTag: `v${major}.${minor}-lts` };
+}
+
+/**
+ * 解析维护分支配置
+ *
+ * 每行（或逗号分隔）一个分支：`分支 => 版本范围 | npm标签`，版本范围和 npm 标签可省略，
+ * 省略时从分支名推导（`2.x` → `2.x` / `v2-lts`，`release/2.4` → `2.4.x` / `v2.4-lts`）
+ *
+ * @example parseMaintenanceBranches("2.x\nrelease/2.4\nlegacy => 1.x | v1-lts")
+ */
+export function parseMaintenanceBranches(input: string, messages: MessageCatalog): MaintenanceBranch[] {
+  return input
+    .split(/,|\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line): MaintenanceBranch => {
+      const [branchPart, rest = ''] = line.split('=>');
+      const [rangePart = '', distTagPart = ''] = rest.split('|');
+      const branch = branchPart.trim();
+      const derived = deriveVersionLine(branch);
+
+      const range = rangePart.trim() || derived?.range;
+      if (!range) {
+        throw new ActionError(messages.error.maintenanceRangeUnknown(branch), 'parseMaintenanceBranches');
+      }
+      if (!semver.validRange(range)) {
+        throw new ActionError(messages.error.maintenanceRangeInvalid(branch, range), 'parseMaintenanceBranches');
+      }
+
+      const distTag = distTagPart.trim() || derived?.distTag || `${branch.replace(/[^\w.-]+/g, '-')}-lts`;
+      return { branch, range, distTag };
+    });
+}
+
+// ==================== 维护分支查询 ====================
+
+/**
+ * 获取分支对应的维护分支配置
+ */
+export function getMaintenanceBranch(branch: string, branches: readonly MaintenanceBranch[]): MaintenanceBranch | null {
+  return branches.find((m) => m.branch === branch) || null;
+}
+
+export function isMaintenanceBranch(branch: string, branches: readonly MaintenanceBranch[]): boolean {
+  return !!getMaintenanceBranch(branch, branches);
+}
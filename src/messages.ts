@@ -0,0 +1,1071 @@
+import type { PackagesPreviewData, VersionPreviewData } from './types';
+
+// ==================== 语言配置 ====================
+
+/** 支持的输出语言 */
+export type Locale = 'en' | 'zh-CN';
+
+/** 默认输出语言 */
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+/**
+ * 解析语言配置（`en-US` 等地区写法归入 `en`，`zh` / `zh-Hans` 归入 `zh-CN`），为空时使用默认语言，不支持的语言返回 null
+ */
+export function parseLocale(input: string): Locale | null {
+  const value = input?.trim().toLowerCase();
+  if (!value) return DEFAULT_LOCALE;
+  if (value === 'en' || value.startsWith('en-')) return 'en';
+  if (value === 'zh' || value.startsWith('zh-')) return 'zh-CN';
+  return null;
+}
+
+/**
+ * 不支持的语言提示（语言尚未确定，同时使用两种语言）
+ */
+export function describeUnsupportedLocale(input: string): string {
+  return `Unsupported locale "${input}" (supported: zh-CN, en) / 不支持的语言 "${input}"（支持: zh-CN、en）`;
+}
+
+// ==================== 中文消息 ====================
+
+const zhCN = {
+  /** PR 评论 */
+  comment: {
+    defaultTitle: '📦 版本管理',
+
+    versionPreview: (title: string, data: VersionPreviewData) => `## ${title}
+
+| 项目 | 值 |
+|------|-----|
+| **源分支** | \`${data.sourceBranch}\` |
+| **目标分支** | \`${data.targetBranch}\` |
+| **当前版本** | \`${data.currentVersion || '无'}\` |
+| **下一版本** | \`${data.nextVersion}\` |
+
+> ℹ️ 这是预览模式，合并 PR 后将自动创建 tag 并更新版本。`,
+
+    packagesPreview: (title: string, data: PackagesPreviewData) => `## ${title}
+
+**源分支**: \`${data.sourceBranch}\` → **目标分支**: \`${data.targetBranch}\`
+
+| 包 | 当前版本 | 下一版本 |
+|------|-----|-----|
+${data.packages
+  .map(
+    (pkg) =>
+      `| \`${pkg.name}\` | \`${pkg.currentVersion || '无'}\` | ${pkg.nextVersion ? `\`${pkg.nextVersion}\`` : '跳过 - 无需升级'} |`,
+  )
+  .join('\n')}
+
+> ℹ️ 这是预览模式，只有 PR 修改过的包会升级版本，合并 PR 后将自动创建 tag 并更新版本。`,
+
+    error: (title: string, errorMessage: string, releaseFlow: string) => `## ${title}
+
+❌ **错误信息**
+
+${errorMessage}
+
+> 请确保在创建新功能之前，所有已有功能都已完成完整的发布流程（${releaseFlow}）。`,
+
+    versionSkip: (title: string, targetBranch: string, baseVersion: string | null) => `## ${title}
+
+| 项目 | 值 |
+|------|-----|
+| **目标分支** | \`${targetBranch}\` |
+| **当前版本** | \`${baseVersion || '无'}\` |
+| **状态** | \`跳过 - 无需升级\` |
+
+> ℹ️ 根据当前分支状态和标签，无需进行版本升级。`,
+  },
+
+  /** 错误消息（会出现在错误评论中） */
+  error: {
+    unsupportedBranch: (branch: string) => `不支持的分支: ${branch}，跳过版本管理`,
+    unsupportedEvent: (eventName: string) => `不支持的事件类型: ${eventName}`,
+    invalidVersion: (version: string) => `无效的版本号: ${version}`,
+    mergeConflict: (sourceBranch: string, targetBranch: string) =>
+      `无法自动解决 ${sourceBranch} -> ${targetBranch} 的合并冲突，已创建issue需要人工介入`,
+    previewFailed: (error: unknown) => `预览处理失败: ${error}`,
+
+    entryAfterReleaseOnly: (branch: string, latestTag: string, tagType: string) =>
+      `${branch}分支只能在正式版本或${branch}版本后继续开发，当前最新版本: ${latestTag} (${tagType})`,
+    stableAfterDownstreamOnly: (branch: string, downstream: string, latestTag: string, tagType: string) =>
+      `${branch}分支只能在${downstream}测试完成后发布，当前最新版本: ${latestTag} (${tagType})`,
+    prereleaseAfterDownstreamOnly: (branch: string, downstream: string, latestTag: string, tagType: string) =>
+      `${branch}分支只能在${downstream}版本或${branch}版本后继续开发，当前最新版本: ${latestTag} (${tagType})`,
+
+    entryRejectsChannelSource: (branch: string, sourceBranch: string) =>
+      `${branch}分支不接受来自${sourceBranch}分支的合并，${branch}分支只能用于新功能开发`,
+    stableRejectsSource: (branch: string, downstream: string, sourceBranch: string) =>
+      `${branch}分支只接受来自${downstream}分支的合并，当前源分支: ${sourceBranch}`,
+    promotionDenied: (branch: string, sourceBranch: string, latestTag: string) =>
+      `晋升规则不允许将${sourceBranch}分支合并到${branch}分支，当前最新版本: ${latestTag}`,
+    stableMissingDownstream: (branch: string, downstream: string) =>
+      `${branch}分支发布失败：没有可用的${downstream}版本。${branch}分支只能用于发布已完成测试的${downstream}版本`,
+    promotionMissingDownstream: (branch: string, downstream: string) =>
+      `从${downstream}合并到${branch}失败：没有可用的${downstream}版本`,
+    prereleaseMissingCurrent: (branch: string, downstream: string, sourceBranch: string) =>
+      `非${downstream}分支合并到${branch}失败：没有对应的${branch}版本，全新功能必须先经过${downstream}测试 (源分支: ${sourceBranch})`,
+    baseVersionMismatch: (branch: string, currentBase: string, downstream: string, downstreamBase: string) =>
+      `${branch}版本基础号 (${currentBase}) 与${downstream}版本基础号 (${downstreamBase}) 不匹配，说明该功能未经过完整的${downstream}测试流程`,
+
+    manualMissingBranch: '手动发布需要指定 release-branch',
+    manualMissingRelease: '手动发布需要指定 release-type 或 release-version 其中之一',
+    manualUnknownReleaseType: (releaseType: string) =>
+      `无效的发布类型: ${releaseType} (支持: major/minor/patch/premajor/preminor/prepatch/prerelease)`,
+    manualConflictingRelease: 'release-type 和 release-version 不能同时指定',
+    manualInvalidReleaseType: (releaseType: string, branch: string) =>
+      `发布类型 ${releaseType} 不适用于${branch}分支（正式通道只能使用 major/minor/patch）`,
+    manualChannelMismatch: (version: string, branch: string, expected: string) =>
+      `版本 ${version} 不属于${branch}分支，该分支的版本应为 ${expected}`,
+    manualVersionNotGreater: (version: string, branch: string, current: string) =>
+      `版本 ${version} 必须高于${branch}分支当前版本 ${current}`,
+    manualMonorepoUnsupported: 'monorepo 模式暂不支持手动发布',
+
+    maintenanceNoRelease: (branch: string, range: string) =>
+      `维护分支 ${branch} 发布失败：版本范围 ${range} 内没有任何正式版本`,
+    remoteTagsUnavailable: (error: unknown) =>
+      `当前仓库为浅克隆或没有版本标签，且无法从远程读取标签（git ls-remote 和 GitHub API 均失败）: ${error}`,
+    signingKeyMissing:
+      '已启用签名（sign-commits / sign-tags），但没有提供 signing-key 输入，git 也没有配置 user.signingkey',
+    signingKeyInvalid:
+      'signing-key 不是有效的 GPG 私钥（BEGIN PGP PRIVATE KEY BLOCK）或 OpenSSH 私钥（BEGIN OPENSSH PRIVATE KEY）',
+    signingKeyUnavailable: (key: string, format: string) =>
+      `已启用签名，但 git 配置的签名密钥 ${key} 不可用（${format === 'ssh' ? '密钥文件不存在' : 'GPG 密钥环中没有对应私钥'}）`,
+    signingKeyImportFailed: (error: unknown) => `导入签名密钥失败: ${error}`,
+    releaseTagTaken: (tags: string) => `版本标签 ${tags} 已存在于远程仓库（可能已被并发运行发布）`,
+    releaseJournal: (status: string, steps: string) =>
+      status === 'rolled-back'
+        ? `发布已回滚 (${steps})`
+        : `发布步骤: ${steps}。重新运行此工作流将从失败的步骤继续，已完成的步骤不会重复执行`,
+    maintenancePatchOnly: (branch: string, releaseType: string) =>
+      `维护分支 ${branch} 只能发布补丁版本，当前PR要求 ${releaseType}`,
+    hotfixCollidesWithPrerelease: (version: string, tags: string) =>
+      `热修复版本 ${version} 与进行中的预发布版本线冲突 (${tags})，请先将该版本线晋升为正式版本，或以 minor 重新开始该版本线后再发布热修复`,
+
+    localMissingTarget: '缺少目标分支，请使用 --target 指定',
+    localSameBranch: (branch: string) => `源分支和目标分支相同 (${branch})，请切换到功能分支或使用 --source 指定`,
+    localMonorepoApplyUnsupported: 'monorepo 模式暂不支持 --apply，只能预览版本计划',
+    localInvalidInput: (input: string) => `无效的 --input 参数: ${input}（格式: 名称=值）`,
+    // 配置解析
+    channelsTooFew: (input: string) => `通道链至少需要两个分支: "${input}"`,
+    channelMissingBranch: (entry: string) => `通道配置缺少分支名: "${entry}"`,
+    stableChannelPrerelease: (branch: string, entry: string) => `正式发布通道 ${branch} 不能声明预发布标识: "${entry}"`,
+    channelInvalidPrerelease: (branch: string, prerelease: string) =>
+      `通道 ${branch} 的预发布标识无效: "${prerelease}"`,
+    channelDuplicateBranch: (input: string) => `通道链中存在重复分支: "${input}"`,
+    channelDuplicatePrerelease: (input: string) => `通道链中存在重复的预发布标识: "${input}"`,
+    labelRuleInvalid: (line: string) => `标签规则格式错误: "${line}"，应为 "标签 => 版本级别 | 分类"`,
+    labelRuleMissingPattern: (line: string) => `标签规则缺少标签模式: "${line}"`,
+    labelRuleInvalidBump: (line: string, bump: string) =>
+      `标签规则 "${line}" 的版本级别无效: ${bump} (支持: major/minor/patch)`,
+    labelRuleInvalidRegex: (line: string, pattern: string) => `标签规则 "${line}" 的正则无效: ${pattern}`,
+    maintenanceRangeUnknown: (branch: string) =>
+      `无法从维护分支 ${branch} 推导版本范围，请使用 "${branch} => 2.x" 的形式指定`,
+    maintenanceRangeInvalid: (branch: string, range: string) => `维护分支 ${branch} 的版本范围无效: ${range}`,
+    promotionRuleInvalid: (line: string) =>
+      `晋升规则格式错误: "${line}"，应为 "目标分支 <- 源分支 @ 标签类型 => allow|deny 错误消息"`,
+    promotionRuleInvalidAction: (line: string, action: string) =>
+      `晋升规则 "${line}" 的动作无效: ${action}，应为 allow 或 deny`,
+    templateUnclosed: (name: string) => `模板区块未正确闭合: {{/${name}}}`,
+    templateMissingClose: (name: string) => `模板区块缺少闭合标签: {{#${name}}}`,
+    templateUndefinedVariable: (name: string) => `模板变量未定义: {{${name}}}`,
+    versionFileInvalidRegex: (path: string, source: string) => `版本文件 ${path} 的正则无效: ${source}`,
+    versionFileUnknownFormat: (path: string) => `无法确定版本文件 ${path} 的格式，请使用 path:format 指定`,
+    workspaceNotFound: '未找到 workspace 配置 (pnpm-workspace.yaml 或 package.json workspaces)',
+
+    // 执行失败
+    gitCommandFailed: (args: string) => `执行 git ${args}`,
+    versionCalculationFailed: (error: unknown) => `版本计算失败: ${error}`,
+    versionFileInvalidJson: (path: string, error: unknown) => `${path} 不是合法的 JSON: ${error}`,
+    versionFileMissingVersion: (path: string) => `${path} 中未找到 version 字段`,
+    versionFilePatternNotMatched: (path: string, pattern: string) => `${path} 中未匹配到规则 ${pattern}`,
+    versionFileReadFailed: (path: string, error: unknown) => `读取版本文件 ${path} 失败: ${error}`,
+    versionFilesUpdateFailed: (error: unknown) => `更新版本文件失败: ${error}`,
+    lockfileSyncFailed: (name: string, error: unknown) => `同步锁文件 ${name} 失败: ${error}`,
+    resolveConflictsFailed: (error: unknown) => `手动解决版本冲突失败: ${error}`,
+    npmAuthFailed: (error: unknown) => `配置npm认证失败: ${error}`,
+    npmPublishFailed: (error: unknown) => `npm发布失败: ${error}`,
+    npmTokenMissing: 'npm-token未配置，无法发布到npm',
+    releaseFailed: (error: unknown) => `版本更新和标签创建失败: ${error}`,
+    packagesReleaseFailed: (error: unknown) => `包版本更新和标签创建失败: ${error}`,
+    resumeFailed: (error: unknown) => `继续发布失败: ${error}`,
+    applyLocallyFailed: (error: unknown) => `本地应用版本更新失败: ${error}`,
+    prFilesFailed: (prNumber: number, error: unknown) => `获取 PR #${prNumber} 修改文件失败: ${error}`,
+    previewCommentFailed: (error: unknown) => `创建版本管理评论失败: ${error}`,
+    packagesCommentFailed: (error: unknown) => `创建包版本管理评论失败: ${error}`,
+    skipCommentFailed: (error: unknown) => `创建版本跳过评论失败: ${error}`,
+  },
+
+  /** 合并冲突 issue */
+  issue: {
+    mergeConflictTitle: (sourceBranch: string, targetBranch: string) =>
+      `🔀 自动合并冲突: ${sourceBranch} -> ${targetBranch}`,
+    mergeConflictBody: (sourceBranch: string, targetBranch: string, version: string, time: string) => `## 合并冲突报告
+
+**源分支**: ${sourceBranch}
+**目标分支**: ${targetBranch}
+**版本**: ${version}
+**时间**: ${time}
+
+## 问题描述
+自动合并过程中遇到无法自动解决的冲突，需要人工介入处理。
+
+## 需要处理的步骤
+1. 检查 ${targetBranch} 分支的本地修改
+2. 手动合并 ${sourceBranch} 分支的更改
+3. 解决版本冲突
+4. 测试合并结果
+5. 推送更改
+
+## 自动化日志
+详细日志请查看 GitHub Actions 运行记录。
+
+---
+*此issue由版本管理Action自动创建*`,
+  },
+
+  /** 运行日志 */
+  log: {
+    // 主流程
+    onlyPullRequest: (eventName: string) =>
+      `只支持 pull_request、push 和 workflow_dispatch 事件，当前事件: ${eventName}`,
+    manualRelease: (branch: string, actor: string) => `🖐️ 手动发布: ${branch} (触发者: @${actor})`,
+    manualReleaseRequest: (releaseType: string | null, version: string | null) =>
+      `  - ${version ? `指定版本: ${version}` : `发布类型: ${releaseType}`}`,
+    pushCommits: (branch: string, count: number) => `📥 推送到 ${branch}: ${count} 个提交`,
+    pushOnlyAutomated: (branch: string) => `⏭️ 推送到 ${branch} 的提交均为自动提交，跳过`,
+    pushAlreadyReleased: (tags: string) => `⏭️ 推送的提交已包含在版本标签中 (${tags})，跳过`,
+    pushAssociatedPRs: (prs: string, selected: number) => `🔗 推送关联的PR: ${prs}，使用 PR #${selected}`,
+    pushWithoutPR: (releaseType: string | null, sourceBranch: string) =>
+      `📜 推送没有关联PR，从提交消息推断发布类型: ${releaseType || '无'}，源分支: ${sourceBranch || '未知'}`,
+    missingPRPayload: 'PR payload 不存在',
+    runInfoHeader: '🔍 ===== Action运行实例信息 =====',
+    runId: (id: string | undefined) => `  - Action运行ID: ${id}`,
+    runNumber: (num: string | undefined) => `  - Action运行编号: ${num}`,
+    workflow: (name: string | undefined) => `  - 工作流名称: ${name}`,
+    eventName: (name: string) => `  - 事件类型: ${name}`,
+    eventAction: (action: string | undefined) => `  - 事件动作: ${action}`,
+    prInfoHeader: '🔍 ===== PR信息 =====',
+    prNumber: (num: number) => `  - PR编号: #${num}`,
+    sourceBranch: (branch: string) => `  - 源分支 (head.ref): ${branch}`,
+    targetBranch: (branch: string) => `  - 目标分支 (base.ref): ${branch}`,
+    prTitle: (title: string | undefined) => `  - PR标题: ${title || '无'}`,
+    prUrl: (url: string | undefined) => `  - PR URL: ${url || '无'}`,
+    contextHeader: '🔍 ===== Context完整信息 =====',
+    contextSha: (sha: string) => `  - 提交 (context.sha): ${sha}`,
+    contextRef: (ref: string) => `  - 引用 (context.ref): ${ref}`,
+    payloadKeys: (keys: string) => `  - payload 字段: ${keys}`,
+    mergeDirection: (sourceBranch: string, targetBranch: string, isDryRun: boolean) =>
+      `分支合并方向: ${sourceBranch} → ${targetBranch} (${isDryRun ? 'preview模式 - 预览' : 'merge模式 - 执行'})`,
+    nextVersion: (version: string, isDryRun: boolean) => `🎯 ${isDryRun ? '预览' : '新'}版本: ${version}`,
+    emptyVersion: (sourceBranch: string, targetBranch: string, baseVersion: string | null) =>
+      `⚠️ 版本计算结果为空 - 合并方向: ${sourceBranch} → ${targetBranch}, 基础版本: ${baseVersion || '无'}`,
+    previewMode: '📝 执行预览模式...',
+    executionMode: '🚀 执行版本更新模式...',
+    versionUpdated: (version: string) => `✅ 版本更新完成: ${version}`,
+    packagesUpdated: (releases: string) => `✅ 包版本更新完成: ${releases}`,
+    noUpgrade: (sourceBranch: string, targetBranch: string, baseVersion?: string | null) =>
+      `ℹ️ 无需版本升级 - 合并方向: ${sourceBranch} → ${targetBranch}${baseVersion === undefined ? '' : `, 当前版本: ${baseVersion || '无'}`}`,
+    failedSyncs: (errors: string) => `部分分支同步失败: ${errors}`,
+    reportWritten: (path: string) => `📄 发布报告已写入: ${path}`,
+    reportWriteFailed: (error: unknown) => `写入发布报告失败: ${error}`,
+    invalidVersionTags: (tags: string[]) => `⚠️ 以下标签看起来像版本但无法解析，已忽略: ${tags.join(', ')}`,
+    reachableTagsUnavailable: (branch: string) => `⚠️ 未找到 ${branch} 分支，该分支使用全部版本标签`,
+    remoteTagSource: (shallow: boolean) =>
+      `🌐 ${shallow ? '当前仓库为浅克隆' : '本地没有版本标签'}，从远程仓库解析版本标签`,
+    remoteTagsResolved: (count: number, source: string) => `🏷️ 从 ${source} 解析到 ${count} 个远程标签`,
+    remoteTagsFallback: (error: unknown) => `⚠️ git ls-remote 读取标签失败，改用 GitHub API: ${error}`,
+    fetchingTagHistory: (tags: string[]) => `📥 获取版本计算所需的标签和分支历史: ${tags.join(', ')}`,
+    deepeningHistory: (depth: number) => `📥 标签尚不可从分支到达，加深历史 ${depth} 个提交`,
+    unshallowHistory: '📥 逐步加深后标签仍不可达，获取完整历史',
+    tagHistoryFailed: (error: unknown) => `⚠️ 获取标签历史失败，后续的合并和 CHANGELOG 可能受影响: ${error}`,
+    signingConfigured: (format: string, key: string, commits: boolean, tags: boolean) =>
+      `🔏 已启用${[commits && '提交', tags && '标签'].filter(Boolean).join('和')}签名 (${format}: ${key})`,
+    tagAnnotated: (tag: string, signed: boolean) => `🏷️ 已创建${signed ? '签名' : '附注'}标签: ${tag}`,
+    actionFailed: (message: string, context: string) => `Action执行失败: ${message} (${context})`,
+    unknownError: (error: unknown) => `未知错误: ${error}`,
+    errorCommentCreated: (prNumber: number) => `已在 PR #${prNumber} 创建错误评论`,
+    errorCommentFailed: (error: unknown) => `创建错误评论失败: ${error}`,
+    errorCommentFailedAgain: (error: unknown) => `创建错误评论也失败了: ${error}`,
+    previewFailed: (error: unknown) => `预览模式处理失败: ${error}`,
+    missingPRNumber: '无法获取 PR 号，跳过评论更新',
+    commentUpdated: (prNumber: number) => `已更新 PR #${prNumber} 的评论`,
+    commentCreated: (prNumber: number) => `已在 PR #${prNumber} 创建评论`,
+    commentFailed: (error: unknown) => `更新 PR 评论失败: ${error}`,
+
+    // 版本类型
+    releaseTypeStart: (prNumber: number | null, targetBranch: string) =>
+      `🔍 开始确定版本升级类型 (PR: ${prNumber ? `#${prNumber}` : '无'}, 分支: ${targetBranch})`,
+    releaseTypeFromLabels: (releaseType: string, prNumber: number) =>
+      `✅ 使用PR标签: ${releaseType} (来源: PR #${prNumber})`,
+    labelsWithoutBump: (prNumber: number, labels: string) => `📝 PR #${prNumber} 有标签但无版本标签: [${labels}]`,
+    noLabels: (prNumber: number) => `📝 PR #${prNumber} 没有标签`,
+    noPR: '📝 无PR信息，跳过版本升级',
+    releaseTypeFromCommits: (releaseType: string, prNumber: number, count: number) =>
+      `✅ 使用 Conventional Commits 推断: ${releaseType} (来源: PR #${prNumber} 标题及 ${count} 个提交)`,
+    noConventionalChanges: (prNumber: number) => `📝 PR #${prNumber} 标题和提交中没有 feat/fix/破坏性变更`,
+    noReleaseType: (labels: string) => `❌ 未检测到明确的版本标签 (${labels})，跳过版本升级`,
+
+    // 版本状态
+    noTags: (branch: string) => `📋 项目无版本标签，允许 ${branch} 分支开始开发`,
+    latestTag: (tag: string, tagType: string) => `📋 最新版本标签: ${tag} (类型: ${tagType})`,
+    branchAllowed: (branch: string, tagType: string) => `✅ ${branch} 分支允许在当前版本状态 (${tagType}) 下进行开发`,
+    promotionRuleMatched: (rule: string) => `📏 匹配晋升规则: ${rule}`,
+    manualPromotionCheck: (branch: string, source: string, actor: string) =>
+      `🖐️ 检查 @${actor} 手动发布 ${branch} 的晋升规则 (按源分支 ${source} 检查)`,
+    baseMaintenance: (branch: string, version: string, range: string) =>
+      `🧰 维护分支 ${branch} (${range}) 基础版本: ${version}`,
+    maintenancePatch: (branch: string, range: string, version: string, patchVersion: string | null) =>
+      `🧰 维护分支 ${branch} (${range}) 发布补丁版本: ${version} -> ${patchVersion}`,
+    baseHotfix: (branch: string, version: string, sourceBranch: string) =>
+      `🚑 热修复 ${sourceBranch} -> ${branch}，基础版本: ${version}`,
+    hotfixPatch: (sourceBranch: string, version: string, patchVersion: string | null) =>
+      `🚑 热修复 ${sourceBranch} 发布补丁版本: ${version} -> ${patchVersion}`,
+    baseFromStable: (branch: string, version: string, stable: string) =>
+      `📌 ${branch}分支基础版本: ${version} (无${branch}版本，基于${stable}版本)`,
+    baseNewFeature: (branch: string, version: string, stable: string) =>
+      `📌 ${branch}分支基础版本: ${version} (${branch}基础号与${stable}一致，准备新功能测试)`,
+    baseFeatureInTesting: (branch: string, version: string, stable: string) =>
+      `📌 ${branch}分支基础版本: ${version} (${branch}基础号与${stable}不一致，已有功能在测试)`,
+    baseFromDownstream: (branch: string, version: string, downstream: string) =>
+      `📌 ${branch}分支基础版本: ${version} (基于${downstream}版本)`,
+    basePromotion: (branch: string, version: string, downstream: string) =>
+      `📌 ${branch}分支基础版本: ${version} (源分支${downstream}，新功能进入${branch}测试)`,
+    baseIncrement: (branch: string, version: string, downstream: string) =>
+      `📌 ${branch}分支基础版本: ${version} (非${downstream}源分支，递增${branch}版本)`,
+
+    // 版本更新和发布
+    configureGitUser: '配置 Git 用户信息',
+    tagCreated: (tag: string) => `已创建标签: ${tag}`,
+    fileCommitted: (file: string) => `${file} 更新已提交并推送`,
+    pushAttempt: (attempt: number, maxRetries: number) => `🔄 尝试推送 (第${attempt}/${maxRetries}次)`,
+    pushSucceeded: (attempt: number) => `✅ 推送成功 (第${attempt}次尝试)`,
+    pushFailed: (maxRetries: number, error: unknown) => `❌ 推送失败，已尝试${maxRetries}次: ${error}`,
+    pushRetry: (attempt: number, maxRetries: number, error: unknown) =>
+      `⚠️ 推送失败 (第${attempt}/${maxRetries}次)，可能存在并发冲突: ${error}`,
+    pushWait: (delay: number) => `⏳ 等待 ${delay}ms 后重试...`,
+    refreshingTags: '🔄 重新读取版本标签...',
+    releaseRecalculated: (from: string, to: string) => `🔁 重新计算版本: ${from} → ${to}`,
+    releaseSuperseded: (tags: string) => `⏭️ ${tags} 已被并发运行发布（或重新读取标签后无需再发布），跳过本次发布`,
+    failurePolicyUnknown: (input: string) => `未知的 release-failure-policy 配置 "${input}"，使用 resume`,
+    journalInvalid: (error: unknown) => `⚠️ 无法解析之前运行保存的发布日志，按新发布处理: ${error}`,
+    journalResume: (tags: string, steps: string) => `📒 继续之前运行未完成的发布 ${tags} (${steps})`,
+    journalCompleted: (tags: string) => `⏭️ 该提交触发的发布 ${tags} 已在之前的运行中完成，跳过`,
+    journalStepSkipped: (step: string) => `⏭️ 发布步骤 ${step} 已在之前的运行中完成，跳过`,
+    npmPublishedSkipped: (tag: string) => `⏭️ ${tag} 已在之前的运行中发布到 npm，跳过`,
+    journalStepIncomplete: '步骤未成功完成（不中断发布）',
+    journalIncomplete: (steps: string) => `⚠️ 发布未全部完成 (${steps})，重新运行工作流将从失败的步骤继续`,
+    journalSaveFailed: (error: unknown) => `⚠️ 保存发布日志失败，失败后将无法从中断的步骤继续: ${error}`,
+    journalSaveRetry: (attempt: number, max: number) =>
+      `🔁 发布日志推送被拒绝（其他运行同时保存了日志），重新获取后重试 (${attempt}/${max})`,
+    rollbackStart: (tags: string) => `↩️ 发布失败，回滚 ${tags}...`,
+    rollbackDone: (tags: string, steps: string) => `↩️ 已回滚 ${tags} (${steps})`,
+    rollbackFailed: (error: unknown) => `❌ 回滚失败，保留发布状态，重新运行工作流将从失败的步骤继续: ${error}`,
+    rollbackIrreversible: (tags: string) =>
+      `⚠️ ${tags} 已发布到 npm，无法回滚；保留发布状态，重新运行工作流将从失败的步骤继续`,
+    versionUpdateStart: '开始执行版本更新...',
+    packagesUpdateStart: (releases: string) => `开始执行包版本更新: ${releases}`,
+    changelogCommitted: '✅ CHANGELOG 更新已提交',
+    changelogUnchanged: 'CHANGELOG 无更改，跳过提交',
+    privatePackageSkipped: (name: string) => `${name} 为私有包，跳过npm发布`,
+    npmDisabled: 'npm发布已禁用，跳过',
+    npmStart: (version: string, branch: string) => `开始npm发布流程: 版本=${version}, 目标分支=${branch}`,
+    npmPrepare: (version: string, tag: string, branch: string) =>
+      `准备发布到npm: 版本=${version}, 标签=${tag}, 分支=${branch}`,
+    npmPublished: (version: string, tag: string) => `✅ 成功发布到npm: ${version} (标签: ${tag})`,
+    npmAlreadyPublished: (version: string) => `版本 ${version} 已存在于npm registry，跳过发布`,
+    npmDone: (branch: string, version: string) => `✅ ${branch}分支版本 ${version} npm发布完成`,
+    npmFailed: (error: unknown) => `npm发布失败: ${error}`,
+
+    // 分支同步
+    autoCommitDetected: (message: string) => `检测到自动提交: ${message}`,
+    skipAutoSync: '检测到Push事件的自动同步提交，跳过分支同步避免级联触发',
+    syncDirection: (sourceBranch: string, targetBranch: string, useRebase: boolean) =>
+      `${sourceBranch}分支更新，使用${useRebase ? 'rebase' : 'merge'}向${targetBranch}分支同步`,
+    syncCascadeStopped: (sourceBranch: string, targetBranch: string) =>
+      `${sourceBranch} → ${targetBranch} 同步失败，跳过后续级联同步`,
+    mergeSyncStart: (sourceBranch: string, targetBranch: string) => `开始merge同步 ${sourceBranch} -> ${targetBranch}`,
+    mergeSucceeded: (sourceBranch: string, targetBranch: string) => `${sourceBranch} -> ${targetBranch} merge成功`,
+    mergeConflictDetected: (sourceBranch: string, targetBranch: string) =>
+      `${sourceBranch} -> ${targetBranch} merge冲突，进行强制同步`,
+    mergeSyncDone: (branch: string) => `${branch} 分支merge同步完成`,
+    versionFilesPreserved: (files: string) => `📌 保留下游分支的版本文件: ${files}`,
+    releaseFilesFailed: (tag: string, error: unknown) => `获取 ${tag} 发布提交的文件失败: ${error}`,
+    mergeSyncFailed: (sourceBranch: string, targetBranch: string, error: unknown) =>
+      `${sourceBranch} -> ${targetBranch} merge同步失败: ${error}`,
+    rebaseSyncStart: (sourceBranch: string, targetBranch: string) =>
+      `开始rebase同步 ${sourceBranch} -> ${targetBranch}`,
+    rebaseSucceeded: (sourceBranch: string, targetBranch: string) => `${sourceBranch} -> ${targetBranch} rebase成功`,
+    rebaseConflictDetected: (sourceBranch: string, targetBranch: string) =>
+      `${sourceBranch} -> ${targetBranch} rebase冲突，尝试处理`,
+    rebaseFallbackMerge: 'rebase失败，改用merge策略完成同步',
+    rebaseSyncDone: (branch: string) => `${branch} 分支rebase同步完成`,
+    rebaseSyncFailed: (sourceBranch: string, targetBranch: string, error: unknown) =>
+      `${sourceBranch} -> ${targetBranch} rebase同步失败: ${error}`,
+    conflictHandling: (sourceBranch: string, targetBranch: string) =>
+      `${sourceBranch} -> ${targetBranch} 合并冲突，尝试智能处理`,
+    strategyMergeSucceeded: (sourceBranch: string, targetBranch: string) =>
+      `使用策略合并成功解决 ${sourceBranch} -> ${targetBranch} 冲突`,
+    strategyMergeFailed: (error: unknown) => `策略合并失败，尝试手动解决版本冲突: ${error}`,
+    manualResolveSucceeded: (sourceBranch: string, targetBranch: string) =>
+      `手动解决版本冲突完成: ${sourceBranch} -> ${targetBranch}`,
+    manualResolveFailed: (error: unknown) => `手动解决冲突失败: ${error}`,
+    conflictIssueCreated: (title: string) => `已创建合并冲突issue: ${title}`,
+    conflictIssueFailed: (error: unknown) => `创建合并冲突issue失败: ${error}`,
+    // 配置
+    unsupportedBranchesIgnored: (branches: string) => `supported-branches 中的分支不在通道链中，已忽略: ${branches}`,
+    changelogModeUnknown: (input: string) => `未知的 collapse-prerelease-changelog 配置 "${input}"，保持预发布条目不变`,
+    templateRenderFailed: (path: string, error: unknown) => `评论模板 ${path} 渲染失败，使用内置模板: ${error}`,
+
+    // PR 信息
+    labelRuleMatched: (rule: string, bump: string) => `检测到标签规则 "${rule}"，版本级别: ${bump}`,
+    labelReleaseType: (releaseType: string) => `使用 ${releaseType} 发布类型`,
+    currentPRFailed: (error: unknown) => `获取当前 PR 失败: ${error}`,
+    prFetchFailed: (prNumber: number, error: unknown) => `获取 PR #${prNumber} 失败: ${error}`,
+    commitPRsFailed: (sha: string, error: unknown) => `获取提交 ${sha} 关联的 PR 失败: ${error}`,
+    prCommitsFailed: (prNumber: number, error: unknown) => `获取 PR #${prNumber} 提交列表失败: ${error}`,
+
+    // 版本标签
+    versionInit: (prefix: string, channels: string) =>
+      `🔍 初始化版本信息... (标签前缀: ${prefix}, 通道链: ${channels})`,
+    versionNoTags: '📝 未找到任何版本标签，将使用默认版本',
+    versionTagsFound: (count: number) => `📋 找到 ${count} 个版本标签`,
+    versionOverview: (versions: [string, string | null][]) =>
+      `📊 版本概览: ${versions.map(([branch, version]) => `${branch}=${version || '无'}`).join(', ')}`,
+    nonStandardPrefix: (version: string, used: string, prefix: string) =>
+      `版本 ${version} 使用了非标准前缀 "${used}"，建议统一使用 "${prefix}"`,
+    highestBaseVersion: (version: string) => `🏆 全局最高基础版本: ${version}`,
+
+    // 版本计算
+    baseVersionUnavailable: (branch: string) => `❌ 无法获取 ${branch} 分支的基础版本`,
+    baseVersionResolved: (branch: string, version: string) => `📌 ${branch} 分支基础版本: ${version}`,
+    versionCalculated: (version: string) => `🎯 计算出新版本: ${version}`,
+    versionUnchanged: '⏭️ 无需版本升级',
+    manualIncrement: (branch: string, releaseType: string, from: string, to: string | null) =>
+      `🔼 ${branch} 手动递增 (${releaseType}): ${from} -> ${to}`,
+    invalidBaseVersion: (version: string) => `无法解析基础版本: ${version}`,
+    strategySelected: (strategy: string) => `📋 使用策略: ${strategy}`,
+    strategyNotFound: '❌ 未找到适用的版本升级策略',
+    strategies: {
+      entry: '入口通道基于PR标签（或 Conventional Commits）处理版本升级',
+      prerelease: '预发布通道基于源分支类型处理版本升级',
+      stable: '正式通道只接受下游通道（或热修复分支）来源，转换为正式版本',
+      maintenance: '维护分支在版本范围内只发布补丁版本',
+    },
+    entryTargetUnresolved: (releaseType: string, stable: string, version: string) =>
+      `无法根据标签 ${releaseType} 从${stable}版本 ${version} 推导目标版本`,
+    entryTargetResolved: (releaseType: string, stable: string, from: string, to: string) =>
+      `🏷️ 根据标签 ${releaseType} 从${stable}版本推导目标版本: ${from} -> ${to}`,
+    entryNewFeature: (branch: string, stable: string, version: string) =>
+      `🆕 ${branch}基础号与${stable}一致，创建新功能版本: ${version}`,
+    entryResetLine: (branch: string, target: string, current: string, version: string) =>
+      `🔼 目标版本高于当前${branch}基础版本 (${target} > ${current})，重置版本线: ${version}`,
+    entryIncrement: (branch: string, target: string, current: string, version: string | null) =>
+      `🔄 目标版本不高于当前${branch}基础版本 (${target} <= ${current})，递增测试号: ${version}`,
+    prereleasePromote: (downstream: string, branch: string, from: string, to: string) =>
+      `🆕 从${downstream}创建/升级${branch}版本: ${from} -> ${to}`,
+    prereleaseIncrement: (branch: string, from: string, to: string | null, sourceBranch: string) =>
+      `🔄 递增${branch}测试号: ${from} -> ${to} (源分支: ${sourceBranch})`,
+    stableRelease: (from: string, to: string) => `🚀 转换为正式版: ${from} -> ${to}`,
+
+    // 版本文件
+    versionFileChanged: (path: string, status: string) => `检测到 ${path} 变化: ${status}`,
+    versionFileUpdated: (path: string, version: string) => `📝 ${path} 版本已更新到: ${version}`,
+    versionFilesUpdated: (version: string, baseDir: string) =>
+      `版本文件已更新到: ${version}${baseDir ? ` (${baseDir})` : ''}`,
+    lockfileSynced: (name: string, packages: string) => `🔒 ${name} 中的版本已同步: ${packages}`,
+
+    // workspace
+    workspacePackageNoName: (dir: string) => `workspace 包 ${dir} 缺少 name 字段，跳过`,
+    workspacePackagesFound: (count: number, names: string) => `📦 发现 ${count} 个 workspace 包: ${names}`,
+    workspaceUnaffected: '📝 PR 未修改任何 workspace 包，跳过版本升级',
+    workspaceAffected: (names: string) => `📦 受影响的包: ${names}`,
+    workspacePackageHeader: (name: string) => `🔍 ===== ${name} =====`,
+
+    // npm 配置
+    npmRegistry: (registry: string) => `配置npm registry: ${registry}`,
+    npmAuth: '配置npm认证token',
+
+    // CHANGELOG
+    changelogCollapsed: (count: number, version: string, versions: string) =>
+      `🗂️ 合并 ${count} 个预发布条目到 ${version}: ${versions}`,
+    changelogCommits: (from: string, to: string, count: number) => `📜 ${from}..${to} 之间有 ${count} 个提交`,
+    changelogQueryPRs: '提交消息中未找到PR编号，通过API查询提交关联的PR',
+    changelogCollectFailed: (from: string, to: string, error: unknown) => `收集 ${from}..${to} 之间的PR失败: ${error}`,
+    changelogNoPreviousTag: (branch: string) => `未找到 ${branch} 通道的上一个标签，只使用当前PR生成CHANGELOG`,
+    changelogPRs: (count: number, prs: string) => `📝 CHANGELOG 包含 ${count} 个PR: ${prs || '无'}`,
+    changelogRead: '读取现有CHANGELOG内容',
+    changelogCreate: (path: string) => `${path} 不存在，创建新文件`,
+    changelogDisabled: 'CHANGELOG 生成已禁用，跳过',
+    changelogStart: (path: string) => `开始生成基于PR的 CHANGELOG (${path})...`,
+    changelogMergeEntry: (path: string, tag: string) => `${path} 中已存在 ${tag}，合并条目`,
+    changelogUpdated: (tag: string) => `✅ CHANGELOG 已更新，添加版本 ${tag}`,
+    changelogPreview: '📋 CHANGELOG 预览:',
+    changelogFailed: (error: unknown) => `基于PR的CHANGELOG生成失败: ${error}`,
+    changelogFallback: '使用conventional-changelog作为备用方案...',
+    changelogFallbackDone: '✅ 使用conventional-changelog生成完成',
+    changelogFallbackFailed: (error: unknown) => `备用CHANGELOG生成也失败: ${error}`,
+
+    // GitHub Release
+    githubReleaseDisabled: 'GitHub Release 创建已禁用，跳过',
+    githubReleaseCreated: (tag: string, updated: boolean, prerelease: boolean, latest: boolean) =>
+      `✅ 已${updated ? '更新' : '创建'} GitHub Release: ${tag} (${prerelease ? 'prerelease' : 'release'}${latest ? ', latest' : ''})`,
+    githubReleaseFailed: (error: unknown) => `GitHub Release 创建失败: ${error}`,
+  },
+
+  /** 本地 CLI 输出 */
+  cli: {
+    usage: `用法: version-patch --target <分支> [选项]
+
+在本地仓库上计算合并源分支到目标分支后的版本（与 PR 预览相同），默认只输出计划，不修改任何内容。
+
+选项:
+  -t, --target <分支>      目标分支（PR 的 base），必填
+  -s, --source <分支>      源分支（PR 的 head），默认为当前分支
+  -l, --label <标签>       模拟的 PR 标签，可重复（如 --label minor）
+  -i, --input <名称=值>    Action 输入参数，可重复（如 --input version-prefix=v）
+      --apply              在本地合并源分支、更新版本文件、创建标签并更新 CHANGELOG（不推送）
+  -h, --help               显示帮助
+`,
+    localRun: (sourceBranch: string, targetBranch: string, labels: string, commits: number) =>
+      `🖥️ 本地运行: ${sourceBranch} → ${targetBranch}，标签: ${labels || '无'}，${commits} 个提交`,
+    planHeader: '📋 版本计划:',
+    planBranches: (sourceBranch: string, targetBranch: string) => `  分支: ${sourceBranch} → ${targetBranch}`,
+    planCurrentVersion: (version: string | null) => `  当前版本: ${version || '无'}`,
+    planNextVersion: (version: string) => `  下一版本: ${version}`,
+    planNoRelease: '  下一版本: 无（不需要升级版本）',
+    planSyncStep: (sourceBranch: string, targetBranch: string, strategy: string) =>
+      `  同步: ${sourceBranch} → ${targetBranch} (${strategy})`,
+    planNoSync: '  同步: 无',
+    planPackage: (name: string, current: string | null, next: string | null) =>
+      `  ${name}: ${current || '无'} → ${next || '不升级'}`,
+    previewOnly: 'ℹ️ 预览模式，未修改本地仓库（使用 --apply 在本地应用版本更新）',
+    applied: (tag: string, branch: string) =>
+      `✅ 已在本地 ${branch} 分支创建 ${tag}，检查无误后可推送: git push --atomic origin ${branch} ${tag}`,
+  },
+};
+
+/** 消息目录结构（以中文目录为准，其他语言必须提供相同的键） */
+export type MessageCatalog = typeof zhCN;
+
+// ==================== English messages ====================
+
+const en: MessageCatalog = {
+  comment: {
+    defaultTitle: '📦 Version Management',
+
+    versionPreview: (title, data) => `## ${title}
+
+| Item | Value |
+|------|-----|
+| **Source branch** | \`${data.sourceBranch}\` |
+| **Target branch** | \`${data.targetBranch}\` |
+| **Current version** | \`${data.currentVersion || 'none'}\` |
+| **Next version** | \`${data.nextVersion}\` |
+
+> ℹ️ This is a preview. The tag and version bump will be created automatically once the PR is merged.`,
+
+    packagesPreview: (title, data) => `## ${title}
+
+**Source branch**: \`${data.sourceBranch}\` → **Target branch**: \`${data.targetBranch}\`
+
+| Package | Current version | Next version |
+|------|-----|-----|
+${data.packages
+  .map(
+    (pkg) =>
+      `| \`${pkg.name}\` | \`${pkg.currentVersion || 'none'}\` | ${pkg.nextVersion ? `\`${pkg.nextVersion}\`` : 'Skipped - no bump needed'} |`,
+  )
+  .join('\n')}
+
+> ℹ️ This is a preview. Only packages changed by this PR are bumped; tags and versions will be created automatically once the PR is merged.`,
+
+    error: (title, errorMessage, releaseFlow) => `## ${title}
+
+❌ **Error**
+
+${errorMessage}
+
+> Make sure every existing feature has gone through the full release flow (${releaseFlow}) before starting a new one.`,
+
+    versionSkip: (title, targetBranch, baseVersion) => `## ${title}
+
+| Item | Value |
+|------|-----|
+| **Target branch** | \`${targetBranch}\` |
+| **Current version** | \`${baseVersion || 'none'}\` |
+| **Status** | \`Skipped - no bump needed\` |
+
+> ℹ️ No version bump is needed for the current branch state and labels.`,
+  },
+
+  error: {
+    unsupportedBranch: (branch) => `Unsupported branch: ${branch}, skipping version management`,
+    unsupportedEvent: (eventName) => `Unsupported event type: ${eventName}`,
+    invalidVersion: (version) => `Invalid version: ${version}`,
+    mergeConflict: (sourceBranch, targetBranch) =>
+      `Could not resolve the merge conflict ${sourceBranch} -> ${targetBranch} automatically; an issue has been opened for manual follow-up`,
+    previewFailed: (error) => `Preview failed: ${error}`,
+
+    entryAfterReleaseOnly: (branch, latestTag, tagType) =>
+      `The ${branch} branch can only continue after a stable or ${branch} release. Latest version: ${latestTag} (${tagType})`,
+    stableAfterDownstreamOnly: (branch, downstream, latestTag, tagType) =>
+      `The ${branch} branch can only release after ${downstream} testing is complete. Latest version: ${latestTag} (${tagType})`,
+    prereleaseAfterDownstreamOnly: (branch, downstream, latestTag, tagType) =>
+      `The ${branch} branch can only continue after a ${downstream} or ${branch} release. Latest version: ${latestTag} (${tagType})`,
+
+    entryRejectsChannelSource: (branch, sourceBranch) =>
+      `The ${branch} branch does not accept merges from ${sourceBranch}; ${branch} is for new feature development only`,
+    stableRejectsSource: (branch, downstream, sourceBranch) =>
+      `The ${branch} branch only accepts merges from ${downstream}. Source branch: ${sourceBranch}`,
+    promotionDenied: (branch, sourceBranch, latestTag) =>
+      `Promotion rules do not allow merging ${sourceBranch} into ${branch}. Latest version: ${latestTag}`,
+    stableMissingDownstream: (branch, downstream) =>
+      `Release on ${branch} failed: no ${downstream} version is available. ${branch} can only release ${downstream} versions that have finished testing`,
+    promotionMissingDownstream: (branch, downstream) =>
+      `Merging ${downstream} into ${branch} failed: no ${downstream} version is available`,
+    prereleaseMissingCurrent: (branch, downstream, sourceBranch) =>
+      `Merging a non-${downstream} branch into ${branch} failed: there is no ${branch} version yet, new features must go through ${downstream} first (source branch: ${sourceBranch})`,
+    baseVersionMismatch: (branch, currentBase, downstream, downstreamBase) =>
+      `The ${branch} base version (${currentBase}) does not match the ${downstream} base version (${downstreamBase}); this feature has not completed ${downstream} testing`,
+
+    manualMissingBranch: 'A manual release requires release-branch',
+    manualMissingRelease: 'A manual release requires either release-type or release-version',
+    manualUnknownReleaseType: (releaseType) =>
+      `Invalid release type: ${releaseType} (supported: major/minor/patch/premajor/preminor/prepatch/prerelease)`,
+    manualConflictingRelease: 'release-type and release-version cannot be used together',
+    manualInvalidReleaseType: (releaseType, branch) =>
+      `Release type ${releaseType} does not apply to the ${branch} branch (the stable channel only accepts major/minor/patch)`,
+    manualChannelMismatch: (version, branch, expected) =>
+      `Version ${version} does not belong to the ${branch} branch; versions on this branch look like ${expected}`,
+    manualVersionNotGreater: (version, branch, current) =>
+      `Version ${version} must be greater than the current ${branch} version ${current}`,
+    manualMonorepoUnsupported: 'Manual releases are not supported in monorepo mode yet',
+
+    maintenanceNoRelease: (branch, range) =>
+      `Release on maintenance branch ${branch} failed: there is no stable version in range ${range}`,
+    remoteTagsUnavailable: (error) =>
+      `The repository is a shallow or tagless clone and remote tags could not be read (both git ls-remote and the GitHub API failed): ${error}`,
+    signingKeyMissing:
+      'Signing is enabled (sign-commits / sign-tags), but no signing-key input was provided and git has no user.signingkey configured',
+    signingKeyInvalid:
+      'signing-key is neither a GPG private key (BEGIN PGP PRIVATE KEY BLOCK) nor an OpenSSH private key (BEGIN OPENSSH PRIVATE KEY)',
+    signingKeyUnavailable: (key, format) =>
+      `Signing is enabled, but the configured signing key ${key} is not available (${format === 'ssh' ? 'key file does not exist' : 'no matching secret key in the GPG keyring'})`,
+    signingKeyImportFailed: (error) => `Failed to import the signing key: ${error}`,
+    releaseTagTaken: (tags) =>
+      `Release tag ${tags} already exists on the remote (possibly released by a concurrent run)`,
+    releaseJournal: (status, steps) =>
+      status === 'rolled-back'
+        ? `The release was rolled back (${steps})`
+        : `Release steps: ${steps}. Re-running this workflow resumes from the failed step without repeating completed steps`,
+    maintenancePatchOnly: (branch, releaseType) =>
+      `Maintenance branch ${branch} only releases patches, but the pull request asks for ${releaseType}`,
+    hotfixCollidesWithPrerelease: (version, tags) =>
+      `Hotfix version ${version} collides with an in-flight prerelease line (${tags}). Promote that line to a stable release, or restart it with a minor bump, before releasing the hotfix`,
+
+    localMissingTarget: 'Missing target branch, pass it with --target',
+    localSameBranch: (branch) =>
+      `The source and target branch are the same (${branch}); check out a feature branch or pass --source`,
+    localMonorepoApplyUnsupported:
+      '--apply is not supported in monorepo mode yet, only the version plan can be previewed',
+    localInvalidInput: (input) => `Invalid --input value: ${input} (expected name=value)`,
+    channelsTooFew: (input) => `The channel chain needs at least two branches: "${input}"`,
+    channelMissingBranch: (entry) => `Channel entry is missing a branch name: "${entry}"`,
+    stableChannelPrerelease: (branch, entry) =>
+      `The stable channel ${branch} cannot declare a prerelease identifier: "${entry}"`,
+    channelInvalidPrerelease: (branch, prerelease) =>
+      `Invalid prerelease identifier for channel ${branch}: "${prerelease}"`,
+    channelDuplicateBranch: (input) => `The channel chain contains a duplicate branch: "${input}"`,
+    channelDuplicatePrerelease: (input) => `The channel chain contains a duplicate prerelease identifier: "${input}"`,
+    labelRuleInvalid: (line) => `Invalid label rule: "${line}", expected "label => bump | category"`,
+    labelRuleMissingPattern: (line) => `Label rule is missing a label pattern: "${line}"`,
+    labelRuleInvalidBump: (line, bump) =>
+      `Invalid bump in label rule "${line}": ${bump} (supported: major/minor/patch)`,
+    labelRuleInvalidRegex: (line, pattern) => `Invalid regex in label rule "${line}": ${pattern}`,
+    maintenanceRangeUnknown: (branch) =>
+      `Cannot derive a version range from maintenance branch ${branch}, specify it as "${branch} => 2.x"`,
+    maintenanceRangeInvalid: (branch, range) => `Invalid version range for maintenance branch ${branch}: ${range}`,
+    promotionRuleInvalid: (line) =>
+      `Invalid promotion rule: "${line}", expected "target <- source @ tag type => allow|deny message"`,
+    promotionRuleInvalidAction: (line, action) =>
+      `Invalid action in promotion rule "${line}": ${action}, expected allow or deny`,
+    templateUnclosed: (name) => `Template section is not closed correctly: {{/${name}}}`,
+    templateMissingClose: (name) => `Template section is missing its closing tag: {{#${name}}}`,
+    templateUndefinedVariable: (name) => `Undefined template variable: {{${name}}}`,
+    versionFileInvalidRegex: (path, source) => `Invalid regex for version file ${path}: ${source}`,
+    versionFileUnknownFormat: (path) =>
+      `Cannot determine the format of version file ${path}, specify it as path:format`,
+    workspaceNotFound: 'No workspace configuration found (pnpm-workspace.yaml or package.json workspaces)',
+
+    gitCommandFailed: (args) => `Running git ${args}`,
+    versionCalculationFailed: (error) => `Version calculation failed: ${error}`,
+    versionFileInvalidJson: (path, error) => `${path} is not valid JSON: ${error}`,
+    versionFileMissingVersion: (path) => `No version field found in ${path}`,
+    versionFilePatternNotMatched: (path, pattern) => `Pattern ${pattern} did not match in ${path}`,
+    versionFileReadFailed: (path, error) => `Failed to read version file ${path}: ${error}`,
+    versionFilesUpdateFailed: (error) => `Failed to update version files: ${error}`,
+    lockfileSyncFailed: (name, error) => `Failed to sync lockfile ${name}: ${error}`,
+    resolveConflictsFailed: (error) => `Failed to resolve version conflicts manually: ${error}`,
+    npmAuthFailed: (error) => `Failed to configure npm authentication: ${error}`,
+    npmPublishFailed: (error) => `npm publish failed: ${error}`,
+    npmTokenMissing: 'npm-token is not configured, cannot publish to npm',
+    releaseFailed: (error) => `Version update and tag creation failed: ${error}`,
+    packagesReleaseFailed: (error) => `Package version update and tag creation failed: ${error}`,
+    resumeFailed: (error) => `Failed to resume the release: ${error}`,
+    applyLocallyFailed: (error) => `Failed to apply the version update locally: ${error}`,
+    prFilesFailed: (prNumber, error) => `Failed to list files changed in PR #${prNumber}: ${error}`,
+    previewCommentFailed: (error) => `Failed to create the version comment: ${error}`,
+    packagesCommentFailed: (error) => `Failed to create the package version comment: ${error}`,
+    skipCommentFailed: (error) => `Failed to create the version skip comment: ${error}`,
+  },
+
+  issue: {
+    mergeConflictTitle: (sourceBranch, targetBranch) =>
+      `🔀 Automatic merge conflict: ${sourceBranch} -> ${targetBranch}`,
+    mergeConflictBody: (sourceBranch, targetBranch, version, time) => `## Merge conflict report
+
+**Source branch**: ${sourceBranch}
+**Target branch**: ${targetBranch}
+**Version**: ${version}
+**Time**: ${time}
+
+## Problem
+The automatic sync hit a conflict that could not be resolved automatically and needs manual attention.
+
+## Steps
+1. Check the local changes on ${targetBranch}
+2. Merge the changes from ${sourceBranch} manually
+3. Resolve the version conflicts
+4. Test the merge result
+5. Push the changes
+
+## Logs
+See the GitHub Actions run for detailed logs.
+
+---
+*This issue was created automatically by the version management action*`,
+  },
+
+  log: {
+    onlyPullRequest: (eventName) =>
+      `Only pull_request, push and workflow_dispatch events are supported, current event: ${eventName}`,
+    manualRelease: (branch, actor) => `🖐️ Manual release: ${branch} (triggered by @${actor})`,
+    manualReleaseRequest: (releaseType, version) =>
+      `  - ${version ? `Requested version: ${version}` : `Release type: ${releaseType}`}`,
+    pushCommits: (branch, count) => `📥 Push to ${branch}: ${count} commit(s)`,
+    pushOnlyAutomated: (branch) => `⏭️ All commits pushed to ${branch} were made by this action, skipping`,
+    pushAlreadyReleased: (tags) => `⏭️ The pushed commit is already part of a release tag (${tags}), skipping`,
+    pushAssociatedPRs: (prs, selected) => `🔗 Pull requests associated with the push: ${prs}, using PR #${selected}`,
+    pushWithoutPR: (releaseType, sourceBranch) =>
+      `📜 No pull request associated with the push, release type from commit messages: ${releaseType || 'none'}, source branch: ${sourceBranch || 'unknown'}`,
+    missingPRPayload: 'PR payload is missing',
+    runInfoHeader: '🔍 ===== Action run =====',
+    runId: (id) => `  - Run ID: ${id}`,
+    runNumber: (num) => `  - Run number: ${num}`,
+    workflow: (name) => `  - Workflow: ${name}`,
+    eventName: (name) => `  - Event: ${name}`,
+    eventAction: (action) => `  - Action: ${action}`,
+    prInfoHeader: '🔍 ===== Pull request =====',
+    prNumber: (num) => `  - PR number: #${num}`,
+    sourceBranch: (branch) => `  - Source branch (head.ref): ${branch}`,
+    targetBranch: (branch) => `  - Target branch (base.ref): ${branch}`,
+    prTitle: (title) => `  - PR title: ${title || 'none'}`,
+    prUrl: (url) => `  - PR URL: ${url || 'none'}`,
+    contextHeader: '🔍 ===== Context =====',
+    contextSha: (sha) => `  - Commit (context.sha): ${sha}`,
+    contextRef: (ref) => `  - Ref (context.ref): ${ref}`,
+    payloadKeys: (keys) => `  - Payload keys: ${keys}`,
+    mergeDirection: (sourceBranch, targetBranch, isDryRun) =>
+      `Merge direction: ${sourceBranch} → ${targetBranch} (${isDryRun ? 'preview' : 'merge - execute'})`,
+    nextVersion: (version, isDryRun) => `🎯 ${isDryRun ? 'Preview' : 'New'} version: ${version}`,
+    emptyVersion: (sourceBranch, targetBranch, baseVersion) =>
+      `⚠️ No version calculated - direction: ${sourceBranch} → ${targetBranch}, base version: ${baseVersion || 'none'}`,
+    previewMode: '📝 Running in preview mode...',
+    executionMode: '🚀 Running version update...',
+    versionUpdated: (version) => `✅ Version updated: ${version}`,
+    packagesUpdated: (releases) => `✅ Package versions updated: ${releases}`,
+    noUpgrade: (sourceBranch, targetBranch, baseVersion) =>
+      `ℹ️ No version bump needed - direction: ${sourceBranch} → ${targetBranch}${baseVersion === undefined ? '' : `, current version: ${baseVersion || 'none'}`}`,
+    failedSyncs: (errors) => `Some branch syncs failed: ${errors}`,
+    reportWritten: (path) => `📄 Release report written to: ${path}`,
+    reportWriteFailed: (error) => `Failed to write release report: ${error}`,
+    invalidVersionTags: (tags) => `⚠️ Ignoring tags that look like versions but cannot be parsed: ${tags.join(', ')}`,
+    reachableTagsUnavailable: (branch) => `⚠️ Branch ${branch} not found, using all version tags for it`,
+    remoteTagSource: (shallow) =>
+      `🌐 ${shallow ? 'Repository is a shallow clone' : 'No local version tags'}, resolving version tags from the remote`,
+    remoteTagsResolved: (count, source) => `🏷️ Resolved ${count} remote tags via ${source}`,
+    remoteTagsFallback: (error) => `⚠️ git ls-remote failed to read tags, falling back to the GitHub API: ${error}`,
+    fetchingTagHistory: (tags) => `📥 Fetching tags and branch history needed for versioning: ${tags.join(', ')}`,
+    deepeningHistory: (depth) => `📥 Tags not yet reachable from branches, deepening history by ${depth} commits`,
+    unshallowHistory: '📥 Tags still unreachable after deepening, fetching full history',
+    tagHistoryFailed: (error) => `⚠️ Failed to fetch tag history, later merges and changelog may be affected: ${error}`,
+    signingConfigured: (format, key, commits, tags) =>
+      `🔏 Signing enabled for ${[commits && 'commits', tags && 'tags'].filter(Boolean).join(' and ')} (${format}: ${key})`,
+    tagAnnotated: (tag, signed) => `🏷️ Created ${signed ? 'signed' : 'annotated'} tag: ${tag}`,
+    actionFailed: (message, context) => `Action failed: ${message} (${context})`,
+    unknownError: (error) => `Unknown error: ${error}`,
+    errorCommentCreated: (prNumber) => `Posted an error comment on PR #${prNumber}`,
+    errorCommentFailed: (error) => `Failed to post the error comment: ${error}`,
+    errorCommentFailedAgain: (error) => `Posting the error comment failed as well: ${error}`,
+    previewFailed: (error) => `Preview failed: ${error}`,
+    missingPRNumber: 'Could not determine the PR number, skipping the comment',
+    commentUpdated: (prNumber) => `Updated the comment on PR #${prNumber}`,
+    commentCreated: (prNumber) => `Posted a comment on PR #${prNumber}`,
+    commentFailed: (error) => `Failed to update the PR comment: ${error}`,
+
+    releaseTypeStart: (prNumber, targetBranch) =>
+      `🔍 Determining the release type (PR: ${prNumber ? `#${prNumber}` : 'none'}, branch: ${targetBranch})`,
+    releaseTypeFromLabels: (releaseType, prNumber) => `✅ Using PR labels: ${releaseType} (from PR #${prNumber})`,
+    labelsWithoutBump: (prNumber, labels) => `📝 PR #${prNumber} has labels but no version label: [${labels}]`,
+    noLabels: (prNumber) => `📝 PR #${prNumber} has no labels`,
+    noPR: '📝 No PR information, skipping the version bump',
+    releaseTypeFromCommits: (releaseType, prNumber, count) =>
+      `✅ Inferred from Conventional Commits: ${releaseType} (from the title of PR #${prNumber} and ${count} commits)`,
+    noConventionalChanges: (prNumber) =>
+      `📝 The title and commits of PR #${prNumber} contain no feat/fix/breaking change`,
+    noReleaseType: (labels) => `❌ No version label found (${labels}), skipping the version bump`,
+
+    noTags: (branch) => `📋 No version tags yet, ${branch} may start development`,
+    latestTag: (tag, tagType) => `📋 Latest version tag: ${tag} (type: ${tagType})`,
+    branchAllowed: (branch, tagType) => `✅ ${branch} may continue in the current version state (${tagType})`,
+    promotionRuleMatched: (rule) => `📏 Matched promotion rule: ${rule}`,
+    manualPromotionCheck: (branch, source, actor) =>
+      `🖐️ Checking promotion rules for @${actor}'s manual release to ${branch} (as from ${source})`,
+    baseMaintenance: (branch, version, range) => `🧰 Maintenance branch ${branch} (${range}) base version: ${version}`,
+    maintenancePatch: (branch, range, version, patchVersion) =>
+      `🧰 Maintenance branch ${branch} (${range}) releases a patch: ${version} -> ${patchVersion}`,
+    baseHotfix: (branch, version, sourceBranch) => `🚑 Hotfix ${sourceBranch} -> ${branch}, base version: ${version}`,
+    hotfixPatch: (sourceBranch, version, patchVersion) =>
+      `🚑 Hotfix ${sourceBranch} releases a patch: ${version} -> ${patchVersion}`,
+    baseFromStable: (branch, version, stable) =>
+      `📌 ${branch} base version: ${version} (no ${branch} version yet, based on ${stable})`,
+    baseNewFeature: (branch, version, stable) =>
+      `📌 ${branch} base version: ${version} (${branch} matches ${stable}, starting a new feature test)`,
+    baseFeatureInTesting: (branch, version, stable) =>
+      `📌 ${branch} base version: ${version} (${branch} is ahead of ${stable}, a feature is already in testing)`,
+    baseFromDownstream: (branch, version, downstream) =>
+      `📌 ${branch} base version: ${version} (based on ${downstream})`,
+    basePromotion: (branch, version, downstream) =>
+      `📌 ${branch} base version: ${version} (promoted from ${downstream} into ${branch} testing)`,
+    baseIncrement: (branch, version, downstream) =>
+      `📌 ${branch} base version: ${version} (not from ${downstream}, incrementing the ${branch} version)`,
+
+    configureGitUser: 'Configuring the Git user',
+    tagCreated: (tag) => `Created tag: ${tag}`,
+    fileCommitted: (file) => `Committed and pushed ${file}`,
+    pushAttempt: (attempt, maxRetries) => `🔄 Pushing (attempt ${attempt}/${maxRetries})`,
+    pushSucceeded: (attempt) => `✅ Push succeeded (attempt ${attempt})`,
+    pushFailed: (maxRetries, error) => `❌ Push failed after ${maxRetries} attempts: ${error}`,
+    pushRetry: (attempt, maxRetries, error) =>
+      `⚠️ Push failed (attempt ${attempt}/${maxRetries}), possibly a concurrent update: ${error}`,
+    pushWait: (delay) => `⏳ Retrying in ${delay}ms...`,
+    refreshingTags: '🔄 Re-reading version tags...',
+    releaseRecalculated: (from, to) => `🔁 Recalculated the release: ${from} → ${to}`,
+    releaseSuperseded: (tags) =>
+      `⏭️ ${tags} was released by a concurrent run (or no longer needs a release after re-reading tags), skipping`,
+    failurePolicyUnknown: (input) => `Unknown release-failure-policy "${input}", using resume`,
+    journalInvalid: (error) =>
+      `⚠️ Could not parse the release journal saved by a previous run, treating this as a new release: ${error}`,
+    journalResume: (tags, steps) => `📒 Resuming the unfinished release ${tags} from a previous run (${steps})`,
+    journalCompleted: (tags) =>
+      `⏭️ The release ${tags} triggered by this commit was completed by a previous run, skipping`,
+    journalStepSkipped: (step) => `⏭️ Release step ${step} was completed by a previous run, skipping`,
+    npmPublishedSkipped: (tag) => `⏭️ ${tag} was published to npm by a previous run, skipping`,
+    journalStepIncomplete: 'Step did not complete (the release continued)',
+    journalIncomplete: (steps) =>
+      `⚠️ The release did not fully complete (${steps}); re-run the workflow to resume from the failed step`,
+    journalSaveFailed: (error) => `⚠️ Failed to save the release journal; a failed release cannot be resumed: ${error}`,
+    journalSaveRetry: (attempt, max) =>
+      `🔁 Release journal push was rejected (another run saved its journal), fetching and retrying (${attempt}/${max})`,
+    rollbackStart: (tags) => `↩️ Release failed, rolling back ${tags}...`,
+    rollbackDone: (tags, steps) => `↩️ Rolled back ${tags} (${steps})`,
+    rollbackFailed: (error) =>
+      `❌ Rollback failed, keeping the release state; re-run the workflow to resume from the failed step: ${error}`,
+    rollbackIrreversible: (tags) =>
+      `⚠️ ${tags} was already published to npm and cannot be rolled back; keeping the release state, re-run the workflow to resume from the failed step`,
+    versionUpdateStart: 'Starting the version update...',
+    packagesUpdateStart: (releases) => `Starting the package version update: ${releases}`,
+    changelogCommitted: '✅ CHANGELOG update committed',
+    changelogUnchanged: 'CHANGELOG unchanged, nothing to commit',
+    privatePackageSkipped: (name) => `${name} is private, skipping npm publish`,
+    npmDisabled: 'npm publishing is disabled, skipping',
+    npmStart: (version, branch) => `Starting npm publish: version=${version}, target branch=${branch}`,
+    npmPrepare: (version, tag, branch) => `Publishing to npm: version=${version}, tag=${tag}, branch=${branch}`,
+    npmPublished: (version, tag) => `✅ Published to npm: ${version} (tag: ${tag})`,
+    npmAlreadyPublished: (version) => `Version ${version} already exists in the npm registry, skipping`,
+    npmDone: (branch, version) => `✅ npm publish of ${version} from ${branch} finished`,
+    npmFailed: (error) => `npm publish failed: ${error}`,
+
+    autoCommitDetected: (message) => `Detected an automated commit: ${message}`,
+    skipAutoSync: 'Push event from an automated sync commit, skipping branch sync to avoid cascading runs',
+    syncDirection: (sourceBranch, targetBranch, useRebase) =>
+      `${sourceBranch} updated, syncing into ${targetBranch} with ${useRebase ? 'rebase' : 'merge'}`,
+    syncCascadeStopped: (sourceBranch, targetBranch) =>
+      `Sync ${sourceBranch} → ${targetBranch} failed, skipping the rest of the cascade`,
+    mergeSyncStart: (sourceBranch, targetBranch) => `Starting merge sync ${sourceBranch} -> ${targetBranch}`,
+    mergeSucceeded: (sourceBranch, targetBranch) => `Merged ${sourceBranch} -> ${targetBranch}`,
+    mergeConflictDetected: (sourceBranch, targetBranch) =>
+      `Merge conflict ${sourceBranch} -> ${targetBranch}, forcing the sync`,
+    mergeSyncDone: (branch) => `Merge sync of ${branch} finished`,
+    versionFilesPreserved: (files) => `📌 Kept the downstream branch's version files: ${files}`,
+    releaseFilesFailed: (tag, error) => `Failed to list the files of release commit ${tag}: ${error}`,
+    mergeSyncFailed: (sourceBranch, targetBranch, error) =>
+      `Merge sync ${sourceBranch} -> ${targetBranch} failed: ${error}`,
+    rebaseSyncStart: (sourceBranch, targetBranch) => `Starting rebase sync ${sourceBranch} -> ${targetBranch}`,
+    rebaseSucceeded: (sourceBranch, targetBranch) => `Rebased ${sourceBranch} -> ${targetBranch}`,
+    rebaseConflictDetected: (sourceBranch, targetBranch) =>
+      `Rebase conflict ${sourceBranch} -> ${targetBranch}, trying to recover`,
+    rebaseFallbackMerge: 'Rebase failed, finished the sync with a merge instead',
+    rebaseSyncDone: (branch) => `Rebase sync of ${branch} finished`,
+    rebaseSyncFailed: (sourceBranch, targetBranch, error) =>
+      `Rebase sync ${sourceBranch} -> ${targetBranch} failed: ${error}`,
+    conflictHandling: (sourceBranch, targetBranch) =>
+      `Merge conflict ${sourceBranch} -> ${targetBranch}, trying to resolve it automatically`,
+    strategyMergeSucceeded: (sourceBranch, targetBranch) =>
+      `Resolved the ${sourceBranch} -> ${targetBranch} conflict with a strategy merge`,
+    strategyMergeFailed: (error) => `Strategy merge failed, resolving version conflicts manually: ${error}`,
+    manualResolveSucceeded: (sourceBranch, targetBranch) =>
+      `Resolved version conflicts manually: ${sourceBranch} -> ${targetBranch}`,
+    manualResolveFailed: (error) => `Manual conflict resolution failed: ${error}`,
+    conflictIssueCreated: (title) => `Opened merge conflict issue: ${title}`,
+    conflictIssueFailed: (error) => `Failed to open the merge conflict issue: ${error}`,
+    unsupportedBranchesIgnored: (branches) => `Ignoring supported-branches not in the channel chain: ${branches}`,
+    changelogModeUnknown: (input) =>
+      `Unknown collapse-prerelease-changelog value "${input}", keeping prerelease entries unchanged`,
+    templateRenderFailed: (path, error) =>
+      `Failed to render comment template ${path}, using the built-in one: ${error}`,
+
+    labelRuleMatched: (rule, bump) => `Matched label rule "${rule}", bump: ${bump}`,
+    labelReleaseType: (releaseType) => `Using release type ${releaseType}`,
+    currentPRFailed: (error) => `Failed to fetch the current PR: ${error}`,
+    prFetchFailed: (prNumber, error) => `Failed to fetch PR #${prNumber}: ${error}`,
+    commitPRsFailed: (sha, error) => `Failed to fetch PRs associated with commit ${sha}: ${error}`,
+    prCommitsFailed: (prNumber, error) => `Failed to list commits of PR #${prNumber}: ${error}`,
+
+    versionInit: (prefix, channels) => `🔍 Loading version info... (tag prefix: ${prefix}, channels: ${channels})`,
+    versionNoTags: '📝 No version tags found, using default versions',
+    versionTagsFound: (count) => `📋 Found ${count} version tags`,
+    versionOverview: (versions) =>
+      `📊 Version overview: ${versions.map(([branch, version]) => `${branch}=${version || 'none'}`).join(', ')}`,
+    nonStandardPrefix: (version, used, prefix) =>
+      `Version ${version} uses the non-standard prefix "${used}", prefer "${prefix}"`,
+    highestBaseVersion: (version) => `🏆 Highest base version: ${version}`,
+
+    baseVersionUnavailable: (branch) => `❌ Could not determine the base version of ${branch}`,
+    baseVersionResolved: (branch, version) => `📌 ${branch} base version: ${version}`,
+    versionCalculated: (version) => `🎯 Calculated version: ${version}`,
+    versionUnchanged: '⏭️ No version bump needed',
+    manualIncrement: (branch, releaseType, from, to) => `🔼 ${branch} manual bump (${releaseType}): ${from} -> ${to}`,
+    invalidBaseVersion: (version) => `Cannot parse base version: ${version}`,
+    strategySelected: (strategy) => `📋 Using strategy: ${strategy}`,
+    strategyNotFound: '❌ No version upgrade strategy applies',
+    strategies: {
+      entry: 'The entry channel bumps versions from PR labels (or Conventional Commits)',
+      prerelease: 'Prerelease channels bump versions based on the source branch',
+      stable:
+        'The stable channel only accepts its downstream channel (or hotfix branches) and releases a stable version',
+      maintenance: 'Maintenance branches only release patch versions within their range',
+    },
+    entryTargetUnresolved: (releaseType, stable, version) =>
+      `Cannot derive a target version from ${stable} version ${version} with label ${releaseType}`,
+    entryTargetResolved: (releaseType, stable, from, to) =>
+      `🏷️ Target version from ${stable} with label ${releaseType}: ${from} -> ${to}`,
+    entryNewFeature: (branch, stable, version) =>
+      `🆕 ${branch} base matches ${stable}, starting a new feature version: ${version}`,
+    entryResetLine: (branch, target, current, version) =>
+      `🔼 Target is above the current ${branch} base (${target} > ${current}), resetting the version line: ${version}`,
+    entryIncrement: (branch, target, current, version) =>
+      `🔄 Target is not above the current ${branch} base (${target} <= ${current}), incrementing the prerelease number: ${version}`,
+    prereleasePromote: (downstream, branch, from, to) =>
+      `🆕 Creating/upgrading the ${branch} version from ${downstream}: ${from} -> ${to}`,
+    prereleaseIncrement: (branch, from, to, sourceBranch) =>
+      `🔄 Incrementing the ${branch} prerelease number: ${from} -> ${to} (source branch: ${sourceBranch})`,
+    stableRelease: (from, to) => `🚀 Releasing stable version: ${from} -> ${to}`,
+
+    versionFileChanged: (path, status) => `Detected changes in ${path}: ${status}`,
+    versionFileUpdated: (path, version) => `📝 ${path} updated to: ${version}`,
+    versionFilesUpdated: (version, baseDir) => `Version files updated to: ${version}${baseDir ? ` (${baseDir})` : ''}`,
+    lockfileSynced: (name, packages) => `🔒 Synced versions in ${name}: ${packages}`,
+
+    workspacePackageNoName: (dir) => `Workspace package ${dir} has no name field, skipping`,
+    workspacePackagesFound: (count, names) => `📦 Found ${count} workspace packages: ${names}`,
+    workspaceUnaffected: '📝 The PR does not change any workspace package, skipping the version bump',
+    workspaceAffected: (names) => `📦 Affected packages: ${names}`,
+    workspacePackageHeader: (name) => `🔍 ===== ${name} =====`,
+
+    npmRegistry: (registry) => `Configuring npm registry: ${registry}`,
+    npmAuth: 'Configuring npm auth token',
+
+    changelogCollapsed: (count, version, versions) =>
+      `🗂️ Collapsed ${count} prerelease entries into ${version}: ${versions}`,
+    changelogCommits: (from, to, count) => `📜 ${count} commits between ${from}..${to}`,
+    changelogQueryPRs: 'No PR numbers found in commit messages, querying associated PRs through the API',
+    changelogCollectFailed: (from, to, error) => `Failed to collect PRs between ${from}..${to}: ${error}`,
+    changelogNoPreviousTag: (branch) =>
+      `No previous tag found on the ${branch} channel, generating the CHANGELOG from the current PR only`,
+    changelogPRs: (count, prs) => `📝 CHANGELOG includes ${count} PRs: ${prs || 'none'}`,
+    changelogRead: 'Reading the existing CHANGELOG',
+    changelogCreate: (path) => `${path} does not exist, creating it`,
+    changelogDisabled: 'CHANGELOG generation is disabled, skipping',
+    changelogStart: (path) => `Generating the PR-based CHANGELOG (${path})...`,
+    changelogMergeEntry: (path, tag) => `${tag} already exists in ${path}, merging entries`,
+    changelogUpdated: (tag) => `✅ CHANGELOG updated with ${tag}`,
+    changelogPreview: '📋 CHANGELOG preview:',
+    changelogFailed: (error) => `PR-based CHANGELOG generation failed: ${error}`,
+    changelogFallback: 'Falling back to conventional-changelog...',
+    changelogFallbackDone: '✅ Generated with conventional-changelog',
+    changelogFallbackFailed: (error) => `Fallback CHANGELOG generation also failed: ${error}`,
+
+    githubReleaseDisabled: 'GitHub Release creation is disabled, skipping',
+    githubReleaseCreated: (tag, updated, prerelease, latest) =>
+      `✅ ${updated ? 'Updated' : 'Created'} GitHub Release: ${tag} (${prerelease ? 'prerelease' : 'release'}${latest ? ', latest' : ''})`,
+    githubReleaseFailed: (error) => `GitHub Release creation failed: ${error}`,
+  },
+
+  cli: {
+    usage: `Usage: version-patch --target <branch> [options]
+
+Computes the version that merging the source branch into the target branch would release in the local
+repository (same as the pull request preview). By default it only prints the plan and changes nothing.
+
+Options:
+  -t, --target <branch>    Target branch (the pull request base), required
+  -s, --source <branch>    Source branch (the pull request head), defaults to the current branch
+  -l, --label <label>      Simulated pull request label, repeatable (e.g. --label minor)
+  -i, --input <name=value> Action input, repeatable (e.g. --input version-prefix=v)
+      --apply              Merge the source branch, update version files, create the tag and update CHANGELOG locally (no push)
+  -h, --help               Show this help
+`,
+    localRun: (sourceBranch, targetBranch, labels, commits) =>
+      `🖥️ Local run: ${sourceBranch} → ${targetBranch}, labels: ${labels || 'none'}, ${commits} commit(s)`,
+    planHeader: '📋 Version plan:',
+    planBranches: (sourceBranch, targetBranch) => `  Branches: ${sourceBranch} → ${targetBranch}`,
+    planCurrentVersion: (version) => `  Current version: ${version || 'none'}`,
+    planNextVersion: (version) => `  Next version: ${version}`,
+    planNoRelease: '  Next version: none (no version bump needed)',
+    planSyncStep: (sourceBranch, targetBranch, strategy) => `  Sync: ${sourceBranch} → ${targetBranch} (${strategy})`,
+    planNoSync: '  Sync: none',
+    planPackage: (name, current, next) => `  ${name}: ${current || 'none'} → ${next || 'no bump'}`,
+    previewOnly:
+      'ℹ️ Preview only, the local repository was not changed (use --apply to apply the version update locally)',
+    applied: (tag, branch) =>
+      `✅ Created ${tag} on the local ${branch} branch; after checking it, push with: git push --atomic origin ${branch} ${tag}`,
+  },
+};
+
+// ==================== 消息目录 ====================
+
+/** 各语言的消息目录 */
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+/**
+ * 获取指定语言的消息目录
+ */
+export function getMessages(locale: Locale): MessageCatalog {
+  return CATALOGS[locale];
+}
@@ -1,12 +1,35 @@
 import { context, getOctokit } from '@actions/github';
 import type { ReleaseType } from 'semver';
+import { describeReleaseFlow, getSyncPlan } from './channel';
+import { getActionConfig } from './config';
+import { getReleaseTypeFromConventionalCommits } from './conventional';
 import core, { logger } from './core';
-import { ActionError, COMMENT_CONFIG, COMMENT_TEMPLATES, type PRData, type VersionPreviewData } from './types';
+import { MESSAGES } from './i18n';
+import { describeBumpLabels, getBumpFromLabels, matchLabelRules } from './labels';
+import { COMMENT_MARKER, renderCommentTemplate, type TemplateView } from './templates';
+import {
+  ActionError,
+  type PackagesPreviewData,
+  type PackageVersionPlan,
+  type PRData,
+  type SyncStep,
+  type VersionPRData,
+  type VersionPreviewData,
+} from './types';
 
 // ==================== GitHub API 客户端 ====================
 
-/** 初始化 GitHub API 客户端 */
-const octokit = getOctokit(core.getInput('token', { required: true }));
+let octokit: ReturnType<typeof getOctokit> | null = null;
+
+/**
+ * 获取 GitHub API 客户端（首次调用时初始化，只做本地版本计算时不需要 token）
+ */
+export function getGitHubClient(): ReturnType<typeof getOctokit> {
+  if (!octokit) {
+    octokit = getOctokit(core.getInput('token', { required: true }));
+  }
+  return octokit;
+}
 
 // ==================== PR 工具类 ====================
 
@@ -17,31 +40,23 @@ export class PRUtils {
   /**
    * 获取当前 PR 号（优先使用payload数据）
    */
-  static getCurrentPRNumber(pr: PRData | null): number | null {
+  static getCurrentPRNumber(pr: VersionPRData | null): number | null {
     return context.payload.pull_request?.number || pr?.number || null;
   }
 
   /**
-   * 从 PR 标签获取发布类型
+   * 从 PR 标签获取发布类型（标签规则见 labels.ts）
    */
   static getReleaseTypeFromLabels(labels: { name: string }[] = []): ReleaseType | '' {
-    const labelNames = labels.map((label) => label.name);
-
-    // 按优先级顺序检查标签（major > minor > patch）
-    let tempReleaseType = '' as ReleaseType;
-
-    if (labelNames.includes('major')) {
-      tempReleaseType = 'premajor';
-      logger.info('检测到 major 标签，使用 premajor 发布类型');
-    } else if (labelNames.includes('minor')) {
-      tempReleaseType = 'preminor';
-      logger.info('检测到 minor 标签，使用 preminor 发布类型');
-    } else if (labelNames.includes('patch')) {
-      tempReleaseType = 'prepatch';
-      logger.info('检测到 patch 标签，使用 prepatch 发布类型');
-    }
+    const { labelRules } = getActionConfig();
+    const bump = getBumpFromLabels(labels, labelRules);
+    if (!bump) return '';
 
-    return tempReleaseType;
+    const rule = matchLabelRules(labels, labelRules).find((r) => r.bump === bump)!;
+    logger.info(MESSAGES.log.labelRuleMatched(rule.source, bump));
+    const releaseType: ReleaseType = `pre${bump}`;
+    logger.info(MESSAGES.log.labelReleaseType(releaseType));
+    return releaseType;
   }
 }
 
@@ -56,54 +71,155 @@ export async function getCurrentPR(): Promise<PRData | null> {
   }
 
   try {
-    const { data: pr } = await octokit.rest.pulls.get({
+    const { data: pr } = await getGitHubClient().rest.pulls.get({
       owner: context.repo.owner,
       repo: context.repo.repo,
       pull_number: context.payload.pull_request.number,
     });
     return pr;
   } catch (error) {
-    logger.warning(`获取当前 PR 失败: ${error}`);
+    logger.warning(MESSAGES.log.currentPRFailed(error));
+    return null;
+  }
+}
+
+/**
+ * 根据编号获取 Pull Request
+ */
+export async function getPullRequest(prNumber: number): Promise<PRData | null> {
+  try {
+    const { data } = await getGitHubClient().rest.pulls.get({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      pull_number: prNumber,
+    });
+    return data;
+  } catch (error) {
+    logger.warning(MESSAGES.log.prFetchFailed(prNumber, error));
     return null;
   }
 }
 
+/**
+ * 获取与提交关联的已合并 PR 编号
+ */
+export async function getMergedPRNumbersForCommit(sha: string): Promise<number[]> {
+  try {
+    const { data } = await getGitHubClient().rest.repos.listPullRequestsAssociatedWithCommit({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      commit_sha: sha,
+    });
+    return data.filter((pr) => pr.merged_at).map((pr) => pr.number);
+  } catch (error) {
+    logger.warning(MESSAGES.log.commitPRsFailed(sha.slice(0, 7), error));
+    return [];
+  }
+}
+
+/**
+ * 获取 PR 修改过的文件列表（包含重命名前的路径）
+ */
+export async function getPRChangedFiles(prNumber: number): Promise<string[]> {
+  try {
+    const client = getGitHubClient();
+    const files = await client.paginate(client.rest.pulls.listFiles, {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+    return files.flatMap((file) =>
+      file.previous_filename ? [file.filename, file.previous_filename] : [file.filename],
+    );
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.prFilesFailed(prNumber, error), 'getPRChangedFiles', error);
+  }
+}
+
 // ==================== PR 评论管理 ====================
 
+/** 评论模板（内容随 locale 配置切换，标题可通过action输入覆盖） */
+const COMMENT_TEMPLATES = {
+  /** 版本管理评论模板 */
+  VERSION_PREVIEW: (data: VersionPreviewData) => MESSAGES.comment.versionPreview(getActionConfig().commentTitle, data),
+
+  /** Monorepo 版本管理评论模板 */
+  PACKAGES_PREVIEW: (data: PackagesPreviewData) =>
+    MESSAGES.comment.packagesPreview(getActionConfig().commentTitle, data),
+
+  /** 错误评论模板 */
+  ERROR: (errorMessage: string) =>
+    MESSAGES.comment.error(
+      getActionConfig().commentTitle,
+      errorMessage,
+      describeReleaseFlow(getActionConfig().channels),
+    ),
+
+  /** 版本跳过模板 */
+  VERSION_SKIP: (targetBranch: string, baseVersion: string | null) =>
+    MESSAGES.comment.versionSkip(getActionConfig().commentTitle, targetBranch, baseVersion),
+} as const;
+
+/**
+ * 构建评论模板变量（所有变量始终存在，未知的值为空字符串）
+ */
+function buildCommentView(data: Partial<VersionPreviewData> & { errorMessage?: string }): TemplateView {
+  const syncPlan: SyncStep[] = data.syncPlan ?? [];
+  return {
+    title: getActionConfig().commentTitle,
+    sourceBranch: data.sourceBranch ?? context.payload.pull_request?.head?.ref ?? '',
+    targetBranch: data.targetBranch ?? context.payload.pull_request?.base?.ref ?? '',
+    currentVersion: data.currentVersion ?? '',
+    nextVersion: data.nextVersion ?? '',
+    releaseType: data.releaseType ?? '',
+    changelogPreview: data.changelogPreview ?? '',
+    prNumber: data.prNumber ?? '',
+    syncPlan,
+    syncPlanText: syncPlan.map((step) => `- ${step.source} → ${step.target} (${step.strategy})`).join('\n'),
+    errorMessage: data.errorMessage ?? '',
+  };
+}
+
 /**
  * 创建或更新 PR 评论
+ *
+ * 评论末尾附加隐藏标记，自定义模板不包含标题时也能找到已有评论
  */
 export async function updatePRComment(prNumber: number, commentBody: string, identifier: string): Promise<void> {
+  const body = commentBody.includes(COMMENT_MARKER) ? commentBody : `${commentBody.trimEnd()}\n\n${COMMENT_MARKER}`;
+
   try {
-    const { data: comments } = await octokit.rest.issues.listComments({
+    const { data: comments } = await getGitHubClient().rest.issues.listComments({
       owner: context.repo.owner,
       repo: context.repo.repo,
       issue_number: prNumber,
     });
 
     const existingComment = comments.find(
-      (comment) => comment.user?.type === 'Bot' && comment.body?.includes(identifier),
+      (comment) =>
+        comment.user?.type === 'Bot' && (comment.body?.includes(COMMENT_MARKER) || comment.body?.includes(identifier)),
     );
 
     if (existingComment) {
-      await octokit.rest.issues.updateComment({
+      await getGitHubClient().rest.issues.updateComment({
         owner: context.repo.owner,
         repo: context.repo.repo,
         comment_id: existingComment.id,
-        body: commentBody,
+        body,
       });
-      logger.info(`已更新 PR #${prNumber} 的评论`);
+      logger.info(MESSAGES.log.commentUpdated(prNumber));
     } else {
-      await octokit.rest.issues.createComment({
+      await getGitHubClient().rest.issues.createComment({
         owner: context.repo.owner,
         repo: context.repo.repo,
         issue_number: prNumber,
-        body: commentBody,
+        body,
       });
-      logger.info(`已在 PR #${prNumber} 创建评论`);
+      logger.info(MESSAGES.log.commentCreated(prNumber));
     }
   } catch (error) {
-    logger.warning(`更新 PR 评论失败: ${error}`);
+    logger.warning(MESSAGES.log.commentFailed(error));
   }
 }
 
@@ -112,10 +228,33 @@ export async function updatePRComment(prNumber: number, commentBody: string, ide
  */
 export async function createVersionPreviewComment(prNumber: number, data: VersionPreviewData): Promise<void> {
   try {
-    const commentBody = COMMENT_TEMPLATES.VERSION_PREVIEW(data);
-    await updatePRComment(prNumber, commentBody, `## ${COMMENT_CONFIG.title}`);
+    const { channels, hotfixBranches } = getActionConfig();
+    const view = buildCommentView({
+      ...data,
+      prNumber,
+      syncPlan: data.syncPlan ?? getSyncPlan(data.targetBranch, data.sourceBranch, channels, hotfixBranches),
+    });
+    const commentBody = await renderCommentTemplate('preview', view, () => COMMENT_TEMPLATES.VERSION_PREVIEW(data));
+    await updatePRComment(prNumber, commentBody, `## ${getActionConfig().commentTitle}`);
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.previewCommentFailed(error), 'createVersionPreviewComment', error);
+  }
+}
+
+/**
+ * 创建 monorepo 包版本管理评论
+ */
+export async function createPackagesPreviewComment(
+  prNumber: number,
+  sourceBranch: string,
+  targetBranch: string,
+  packages: PackageVersionPlan[],
+): Promise<void> {
+  try {
+    const commentBody = COMMENT_TEMPLATES.PACKAGES_PREVIEW({ sourceBranch, targetBranch, packages });
+    await updatePRComment(prNumber, commentBody, `## ${getActionConfig().commentTitle}`);
   } catch (error) {
-    throw new ActionError(`创建版本管理评论失败: ${error}`, 'createVersionPreviewComment', error);
+    throw new ActionError(MESSAGES.error.packagesCommentFailed(error), 'createPackagesPreviewComment', error);
   }
 }
 
@@ -128,10 +267,13 @@ export async function createVersionSkipComment(
   baseVersion: string | null,
 ): Promise<void> {
   try {
-    const commentBody = COMMENT_TEMPLATES.VERSION_SKIP(targetBranch, baseVersion);
-    await updatePRComment(prNumber, commentBody, `## ${COMMENT_CONFIG.title}`);
+    const view = buildCommentView({ prNumber, targetBranch, currentVersion: baseVersion ?? undefined });
+    const commentBody = await renderCommentTemplate('skip', view, () =>
+      COMMENT_TEMPLATES.VERSION_SKIP(targetBranch, baseVersion),
+    );
+    await updatePRComment(prNumber, commentBody, `## ${getActionConfig().commentTitle}`);
   } catch (error) {
-    throw new ActionError(`创建版本跳过评论失败: ${error}`, 'createVersionSkipComment', error);
+    throw new ActionError(MESSAGES.error.skipCommentFailed(error), 'createVersionSkipComment', error);
   }
 }
 
@@ -140,38 +282,69 @@ export async function createVersionSkipComment(
  */
 export async function createErrorComment(prNumber: number, errorMessage: string): Promise<void> {
   try {
-    const commentBody = COMMENT_TEMPLATES.ERROR(errorMessage);
-    await updatePRComment(prNumber, commentBody, `## ${COMMENT_CONFIG.title}`);
+    const view = buildCommentView({ prNumber, errorMessage });
+    const commentBody = await renderCommentTemplate('error', view, () => COMMENT_TEMPLATES.ERROR(errorMessage));
+    await updatePRComment(prNumber, commentBody, `## ${getActionConfig().commentTitle}`);
+  } catch (error) {
+    logger.warning(MESSAGES.log.errorCommentFailed(error));
+  }
+}
+
+/**
+ * 获取 PR 中所有提交的消息
+ */
+export async function getPRCommitMessages(prNumber: number): Promise<string[]> {
+  try {
+    const client = getGitHubClient();
+    const commits = await client.paginate(client.rest.pulls.listCommits, {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+    return commits.map((commit) => commit.commit.message);
   } catch (error) {
-    logger.warning(`创建错误评论失败: ${error}`);
+    logger.warning(MESSAGES.log.prCommitsFailed(prNumber, error));
+    return [];
   }
 }
 
 /**
- * 严格策略：确定版本升级类型 - 只基于PR标签，无智能推断
- * 要求：必须有明确的版本标签（major/minor/patch）才进行版本升级
+ * 确定版本升级类型 - PR标签优先，启用 conventional-commits 时从PR标题和提交推断
+ * 要求：必须有匹配标签规则的版本标签或符合规范的提交才进行版本升级
  */
-export async function determineReleaseType(pr: PRData | null, targetBranch: string): Promise<ReleaseType | ''> {
-  logger.info(`🔍 开始确定版本升级类型 (PR: ${pr ? `#${pr.number}` : '无'}, 分支: ${targetBranch})`);
+export async function determineReleaseType(pr: VersionPRData | null, targetBranch: string): Promise<ReleaseType | ''> {
+  logger.info(MESSAGES.log.releaseTypeStart(pr?.number ?? null, targetBranch));
 
-  // 🎯 严格要求：只基于PR标签进行版本升级
+  // 🎯 PR标签优先
   if (pr?.labels && pr.labels.length > 0) {
     const labelReleaseType = PRUtils.getReleaseTypeFromLabels(pr.labels);
     if (labelReleaseType) {
-      logger.info(`✅ 使用PR标签: ${labelReleaseType} (来源: PR #${pr.number})`);
+      logger.info(MESSAGES.log.releaseTypeFromLabels(labelReleaseType, pr.number));
       return labelReleaseType;
     } else {
       const labelNames = pr.labels.map((l) => l.name).join(', ');
-      logger.info(`📝 PR #${pr.number} 有标签但无版本标签: [${labelNames}]，跳过版本升级`);
+      logger.info(MESSAGES.log.labelsWithoutBump(pr.number, labelNames));
     }
   } else if (pr) {
-    logger.info(`📝 PR #${pr.number} 没有标签，跳过版本升级`);
+    logger.info(MESSAGES.log.noLabels(pr.number));
   } else {
-    logger.info(`📝 无PR信息，跳过版本升级`);
+    logger.info(MESSAGES.log.noPR);
+    return '';
   }
 
-  // 🚫 移除智能推断：严格要求明确的版本标签
-  logger.info(`❌ 未检测到明确的版本标签 (major/minor/patch)，跳过版本升级`);
+  // 📜 可选：从 Conventional Commits 推断
+  if (getActionConfig().conventionalCommits) {
+    const commitMessages = await getPRCommitMessages(pr.number);
+    const commitReleaseType = getReleaseTypeFromConventionalCommits([pr.title || '', ...commitMessages]);
+    if (commitReleaseType) {
+      logger.info(MESSAGES.log.releaseTypeFromCommits(commitReleaseType, pr.number, commitMessages.length));
+      return commitReleaseType;
+    }
+    logger.info(MESSAGES.log.noConventionalChanges(pr.number));
+  }
+
+  logger.info(MESSAGES.log.noReleaseType(describeBumpLabels(getActionConfig().labelRules)));
   return '';
 }
 
@@ -184,10 +357,11 @@ export async function handlePreviewMode(
   targetBranch: string,
   baseVersion: string | null,
   newVersion: string | null,
+  preview: Pick<VersionPreviewData, 'releaseType' | 'changelogPreview'> = {},
 ): Promise<void> {
   const prNumber = PRUtils.getCurrentPRNumber(pr);
   if (!prNumber) {
-    logger.warning('无法获取 PR 号，跳过评论更新');
+    logger.warning(MESSAGES.log.missingPRNumber);
     return;
   }
 
@@ -201,15 +375,47 @@ export async function handlePreviewMode(
         targetBranch,
         currentVersion: baseVersion || undefined,
         nextVersion: newVersion,
+        ...preview,
       });
     }
   } catch (error) {
-    logger.error(`预览模式处理失败: ${error}`);
+    logger.error(MESSAGES.log.previewFailed(error));
     // 尝试创建错误评论
     try {
-      await createErrorComment(prNumber, `预览处理失败: ${error}`);
+      await createErrorComment(prNumber, MESSAGES.error.previewFailed(error));
+    } catch (commentError) {
+      logger.error(MESSAGES.log.errorCommentFailedAgain(commentError));
+    }
+  }
+}
+
+/**
+ * 处理 monorepo 预览模式逻辑
+ */
+export async function handlePackagesPreviewMode(
+  pr: PRData | null,
+  sourceBranch: string,
+  targetBranch: string,
+  packages: PackageVersionPlan[],
+): Promise<void> {
+  const prNumber = PRUtils.getCurrentPRNumber(pr);
+  if (!prNumber) {
+    logger.warning(MESSAGES.log.missingPRNumber);
+    return;
+  }
+
+  try {
+    if (packages.every((pkg) => !pkg.nextVersion)) {
+      await createVersionSkipComment(prNumber, targetBranch, null);
+    } else {
+      await createPackagesPreviewComment(prNumber, sourceBranch, targetBranch, packages);
+    }
+  } catch (error) {
+    logger.error(MESSAGES.log.previewFailed(error));
+    try {
+      await createErrorComment(prNumber, MESSAGES.error.previewFailed(error));
     } catch (commentError) {
-      logger.error(`创建错误评论也失败了: ${commentError}`);
+      logger.error(MESSAGES.log.errorCommentFailedAgain(commentError));
     }
   }
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseBranchPatterns, parseReleaseChannels } from './channel';
+import { getMessages } from './messages';
+import { buildPromotionRules, matchPromotionRule, type PromotionCheck, parsePromotionRules } from './promotion';
+
+const messages = getMessages('en');
+const channels = parseReleaseChannels('main,beta,alpha', messages);
+const hotfixBranches = parseBranchPatterns('hotfix/*');
+
+const check = (
+  targetBranch: string,
+  sourceBranch: string,
+  latestTagType: string,
+  latestTag: string | null = latestTagType === 'none' ? null : 'v1.0.0',
+): PromotionCheck => ({ targetBranch, sourceBranch, latestTag, latestTagType });
+
+describe('parsePromotionRules', () => {
+  it('解析分支模式、标签类型和错误消息模板', () => {
+    const [rule] = parsePromotionRules(
+      'main,beta <- release/* @ release, beta => deny {source} → {target}: {tag}',
+      messages,
+    );
+    expect(rule.allow).toBe(false);
+    expect(rule.tagTypes).toEqual(['release', 'beta']);
+    expect(rule.message(check('main', 'release/1.2', 'release'))).toBe('release/1.2 → main: v1.0.0');
+  });
+
+  it('省略标签类型时匹配任意类型', () => {
+    expect(parsePromotionRules('beta <- * => allow', messages)[0].tagTypes).toBeNull();
+  });
+
+  it('拒绝无效的规则', () => {
+    expect(() => parsePromotionRules('main => allow', messages)).toThrow(
+      messages.error.promotionRuleInvalid('main => allow'),
+    );
+    expect(() => parsePromotionRules('main <- beta => maybe', messages)).toThrow(
+      messages.error.promotionRuleInvalidAction('main <- beta => maybe', 'maybe'),
+    );
+  });
+});
+
+describe('内置晋升规则', () => {
+  const rules = buildPromotionRules('', channels, hotfixBranches, messages);
+  const allowed = (c: PromotionCheck) => matchPromotionRule(c, rules)?.allow !== false;
+
+  it('正式通道只接受下游通道版本之后的发布和热修复分支', () => {
+    expect(allowed(check('main', 'beta', 'beta'))).toBe(true);
+    expect(allowed(check('main', 'beta', 'alpha'))).toBe(false);
+    expect(allowed(check('main', 'hotfix/login', 'release'))).toBe(true);
+    expect(allowed(check('main', 'feature/x', 'beta'))).toBe(false);
+  });
+
+  it('中间通道在下游通道或本通道版本之后发布', () => {
+    expect(allowed(check('beta', 'alpha', 'alpha'))).toBe(true);
+    expect(allowed(check('beta', 'alpha', 'beta'))).toBe(true);
+    expect(allowed(check('beta', 'alpha', 'release'))).toBe(false);
+  });
+
+  it('入口通道不接受来自其他通道的合并', () => {
+    expect(allowed(check('alpha', 'feature/x', 'release'))).toBe(true);
+    expect(allowed(check('alpha', 'main', 'release'))).toBe(false);
+    expect(allowed(check('alpha', 'feature/x', 'beta'))).toBe(false);
+  });
+
+  it('没有标签时允许任何通道开始', () => {
+    expect(allowed(check('beta', 'alpha', 'none'))).toBe(true);
+    expect(allowed(check('main', 'beta', 'none'))).toBe(true);
+  });
+
+  it('用户规则优先于内置规则', () => {
+    const custom = buildPromotionRules('main <- beta => deny frozen', channels, hotfixBranches, messages);
+    const rule = matchPromotionRule(check('main', 'beta', 'beta'), custom);
+    expect(rule?.builtin).toBe(false);
+    expect(rule?.message(check('main', 'beta', 'beta'))).toBe('frozen');
+  });
+});
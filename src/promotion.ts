@@ -0,0 +1,222 @@
+import { parseBranchPatterns } from './channel';
+import type { MessageCatalog } from './messages';
+import { ActionError, type ReleaseChannel } from './types';
+
+// ==================== 晋升规则类型 ====================
+
+/**
+ * 晋升检查的输入：合并方向和仓库当前的最新标签
+ */
+export interface PromotionCheck {
+  targetBranch: string;
+  sourceBranch: string;
+  /** 最新标签（没有标签时为 null） */
+  latestTag: string | null;
+  /** 最新标签类型：`release`、预发布标识、`unknown`，没有标签时为 `none` */
+  latestTagType: string;
+}
+
+/**
+ * 晋升规则：匹配（目标分支、源分支、最新标签类型）时允许或拒绝发布
+ */
+export interface PromotionRule {
+  /** 规则原文（用于日志） */
+  source: string;
+  targetBranches: readonly RegExp[];
+  sourceBranches: readonly RegExp[];
+  /** 匹配的最新标签类型（null 表示任意） */
+  tagTypes: readonly string[] | null;
+  allow: boolean;
+  /** 拒绝时的错误消息 */
+  message: (check: PromotionCheck) => string;
+  /** 是否为内置规则 */
+  builtin: boolean;
+}
+
+// ==================== 规则解析 ====================
+
+/**
+ * 将错误消息模板中的占位符替换为检查内容
+ */
+function renderPromotionMessage(template: string, check: PromotionCheck): string {
+  return template
+    .replace(/\{target\}/g, check.targetBranch)
+    .replace(/\{source\}/g, check.sourceBranch)
+    .replace(/\{tag\}/g, check.latestTag || '-')
+    .replace(/\{type\}/g, check.latestTagType);
+}
+
+/**
+ * 解析晋升规则配置
+ *
+ * 每行一条规则：`目标分支 <- 源分支 @ 最新标签类型 => allow` 或 `... => deny 错误消息`。
+ * 分支支持 `*` 通配符和逗号分隔的列表；标签类型为 `release`、预发布标识或 `none`（没有标签），`@` 部分省略时匹配任意类型；
+ * 错误消息可使用 `{target}`、`{source}`、`{tag}`、`{type}` 占位符
+ *
+ * @example parsePromotionRules("beta <- * @ release => allow\nmain <- release/* => deny 正式版本只能从 {target} 的下游通道发布")
+ */
+export function parsePromotionRules(input: string, messages: MessageCatalog): PromotionRule[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line): PromotionRule => {
+      const separatorIndex = line.lastIndexOf('=>');
+      const arrowIndex = line.indexOf('<-');
+      if (separatorIndex === -1 || arrowIndex === -1 || arrowIndex > separatorIndex) {
+        throw new ActionError(messages.error.promotionRuleInvalid(line), 'parsePromotionRules');
+      }
+
+      const [sourcePart, tagTypePart = '*'] = line.slice(arrowIndex + 2, separatorIndex).split('@');
+      const action = line.slice(separatorIndex + 2).trim();
+      const [, decision = '', template = ''] = action.match(/^(\w+)\s*[:：]?\s*(.*)$/) || [];
+      if (decision !== 'allow' && decision !== 'deny') {
+        throw new ActionError(messages.error.promotionRuleInvalidAction(line, action), 'parsePromotionRules');
+      }
+
+      const tagTypes = tagTypePart
+        .split(',')
+        .map((type) => type.trim())
+        .filter((type) => type.length > 0);
+      return {
+        source: line,
+        targetBranches: parseBranchPatterns(line.slice(0, arrowIndex)),
+        sourceBranches: parseBranchPatterns(sourcePart),
+        tagTypes: tagTypes.length === 0 || tagTypes.includes('*') ? null : tagTypes,
+        allow: decision === 'allow',
+        message: (check) =>
+          template
+            ? renderPromotionMessage(template, check)
+            : messages.error.promotionDenied(check.targetBranch, check.sourceBranch, check.latestTag || '-'),
+        builtin: false,
+      };
+    });
+}
+
+// ==================== 内置规则 ====================
+
+/**
+ * 创建内置规则（源分支为分支模式列表，或热修复分支模式）
+ */
+function createBuiltinRule(
+  target: string,
+  sources: string | readonly RegExp[],
+  tagTypes: string[] | null,
+  message: PromotionRule['message'] | null,
+): PromotionRule {
+  const sourceText = typeof sources === 'string' ? sources : 'hotfix-branches';
+  return {
+    source: `${target} <- ${sourceText} @ ${tagTypes ? tagTypes.join(',') : '*'} => ${message ? 'deny' : 'allow'}`,
+    targetBranches: parseBranchPatterns(target),
+    sourceBranches: typeof sources === 'string' ? parseBranchPatterns(sources) : sources,
+    tagTypes,
+    allow: !message,
+    message: message || (() => ''),
+    builtin: true,
+  };
+}
+
+/**
+ * 根据通道链生成内置规则（按顺序匹配）：
+ *
+ * - 入口通道：不接受来自其他通道的合并，只能在正式版本或本通道版本之后发布
+ * - 正式通道：只接受下游通道（最新版本必须是下游通道版本）和热修复分支
+ * - 中间通道：最新版本必须是下游通道或本通道版本
+ *
+ * 没有任何标签时允许任何通道开始（仍受源分支限制）
+ */
+export function buildBuiltinPromotionRules(
+  channels: readonly ReleaseChannel[],
+  hotfixBranches: readonly RegExp[],
+  messages: MessageCatalog,
+): PromotionRule[] {
+  const rules: PromotionRule[] = [];
+  const tagType = (channel: ReleaseChannel) => channel.prerelease || 'release';
+
+  channels.forEach((channel, index) => {
+    const { branch } = channel;
+    const downstream = channels[index + 1];
+
+    if (!downstream) {
+      // 入口通道：只用于新功能开发
+      const otherChannels = channels.filter((c) => c.branch !== branch).map((c) => c.branch);
+      if (otherChannels.length > 0) {
+        rules.push(
+          createBuiltinRule(branch, otherChannels.join(','), null, (check) =>
+            messages.error.entryRejectsChannelSource(check.targetBranch, check.sourceBranch),
+          ),
+        );
+      }
+      rules.push(
+        createBuiltinRule(branch, '*', ['none', 'release', tagType(channel)], null),
+        createBuiltinRule(branch, '*', null, (check) =>
+          messages.error.entryAfterReleaseOnly(check.targetBranch, check.latestTag!, check.latestTagType),
+        ),
+      );
+    } else if (index === 0) {
+      // 正式通道：只接受下游通道（或热修复分支）
+      rules.push(
+        createBuiltinRule(branch, downstream.branch, ['none', tagType(downstream)], null),
+        createBuiltinRule(branch, downstream.branch, null, (check) =>
+          messages.error.stableAfterDownstreamOnly(
+            check.targetBranch,
+            downstream.branch,
+            check.latestTag!,
+            check.latestTagType,
+          ),
+        ),
+      );
+      if (hotfixBranches.length > 0) {
+        rules.push(createBuiltinRule(branch, hotfixBranches, null, null));
+      }
+      rules.push(
+        createBuiltinRule(branch, '*', null, (check) =>
+          messages.error.stableRejectsSource(check.targetBranch, downstream.branch, check.sourceBranch),
+        ),
+      );
+    } else {
+      // 中间通道：在下游通道或本通道版本之后发布
+      rules.push(
+        createBuiltinRule(branch, '*', ['none', tagType(downstream), tagType(channel)], null),
+        createBuiltinRule(branch, '*', null, (check) =>
+          messages.error.prereleaseAfterDownstreamOnly(
+            check.targetBranch,
+            downstream.branch,
+            check.latestTag!,
+            check.latestTagType,
+          ),
+        ),
+      );
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * 构建完整的晋升规则：用户规则优先，内置规则兜底
+ */
+export function buildPromotionRules(
+  input: string,
+  channels: readonly ReleaseChannel[],
+  hotfixBranches: readonly RegExp[],
+  messages: MessageCatalog,
+): PromotionRule[] {
+  return [...parsePromotionRules(input, messages), ...buildBuiltinPromotionRules(channels, hotfixBranches, messages)];
+}
+
+// ==================== 规则匹配 ====================
+
+/**
+ * 查找第一条匹配的晋升规则，没有匹配时返回 null（允许）
+ */
+export function matchPromotionRule(check: PromotionCheck, rules: readonly PromotionRule[]): PromotionRule | null {
+  return (
+    rules.find(
+      (rule) =>
+        rule.targetBranches.some((pattern) => pattern.test(check.targetBranch)) &&
+        rule.sourceBranches.some((pattern) => pattern.test(check.sourceBranch)) &&
+        (!rule.tagTypes || rule.tagTypes.includes(check.latestTagType)),
+    ) || null
+  );
+}
@@ -0,0 +1,160 @@
+import { context } from '@actions/github';
+import type { ReleaseType } from 'semver';
+import { isAutomatedCommit } from './changelog';
+import { getChannel } from './channel';
+import { getActionConfig, isSupportedBranch } from './config';
+import { getReleaseTypeFromConventionalCommits } from './conventional';
+import { logger } from './core';
+import { MESSAGES } from './i18n';
+import { ReleaseJournal } from './journal';
+import { getMergedPRNumbersForCommit, getPullRequest } from './pr';
+import { findRemoteTags, findTagsContaining } from './tag-source';
+import type { PRData, ReleaseSkipReason, SupportedBranch } from './types';
+
+// ==================== 推送事件类型 ====================
+
+/**
+ * 推送事件中的提交（payload.commits）
+ */
+interface PushCommit {
+  id: string;
+  message: string;
+  added?: string[];
+  removed?: string[];
+  modified?: string[];
+}
+
+/**
+ * 推送事件的发布上下文
+ */
+export interface PushReleaseContext {
+  targetBranch: SupportedBranch;
+  /** 推断出的源分支（关联PR的 head.ref 或合并提交中的分支名，无法推断时为空） */
+  sourceBranch: string;
+  /** 代表本次推送的PR（优先选择来自通道分支的晋升PR） */
+  pr: PRData | null;
+  /** 没有关联PR时从提交消息推断的发布类型 */
+  releaseType: ReleaseType | null;
+  /** 推送修改过的文件（用于 monorepo） */
+  changedFiles: string[];
+}
+
+/** 合并提交消息中的源分支：`Merge branch 'beta'`、`Merge remote-tracking branch 'origin/beta'`、`Merge pull request #1 from owner/beta` */
+const MERGE_SOURCE_PATTERNS = [
+  /^Merge (?:remote-tracking )?branch '(?:origin\/)?([^']+)'/,
+  /^Merge pull request #\d+ from [^/\s]+\/(\S+)/,
+];
+
+/** 通过提交关联API查询PR时最多查询的提交数（从最新的提交开始） */
+const MAX_COMMIT_LOOKUPS = 100;
+
+// ==================== 推送信息解析 ====================
+
+/**
+ * 获取推送的分支名（标签推送返回 null）
+ */
+export function getPushedBranch(): string | null {
+  return context.ref.startsWith('refs/heads/') ? context.ref.slice('refs/heads/'.length) : null;
+}
+
+/**
+ * 获取推送中的提交，排除本 Action 生成的自动提交（版本提交、CHANGELOG 提交、`[skip ci]` 同步提交）
+ */
+function getPushedCommits(): PushCommit[] {
+  const commits = (context.payload.commits || []) as PushCommit[];
+  return commits.filter((commit) => !isAutomatedCommit(commit.message));
+}
+
+/**
+ * 从合并提交消息中解析源分支
+ */
+function getMergeSourceBranch(commits: PushCommit[]): string {
+  for (const commit of [...commits].reverse()) {
+    const subject = commit.message.split('\n')[0];
+    for (const pattern of MERGE_SOURCE_PATTERNS) {
+      const match = subject.match(pattern);
+      if (match) return match[1];
+    }
+  }
+  return '';
+}
+
+/**
+ * 检查推送的提交是否已包含在某个版本标签中（例如同一次合并已由 pull_request 事件发布）
+ *
+ * 浅克隆中本地标签不完整：读取远程保存在该提交上的发布日志，再确认日志中的标签仍在远程且包含该提交
+ */
+async function getReleasedTags(sha: string): Promise<string[]> {
+  try {
+    const journalTags = await ReleaseJournal.findReleasedTags(sha);
+    return await findTagsContaining(sha, await findRemoteTags(journalTags));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 查找推送提交关联的、合并到目标分支的PR（提交可能同时关联合并到其他通道的PR）
+ */
+async function findAssociatedPRs(commits: PushCommit[], targetBranch: string): Promise<PRData[]> {
+  const prNumbers = new Set<number>();
+  for (const commit of commits.slice(-MAX_COMMIT_LOOKUPS)) {
+    for (const prNumber of await getMergedPRNumbersForCommit(commit.id)) {
+      prNumbers.add(prNumber);
+    }
+  }
+
+  const prs: PRData[] = [];
+  for (const prNumber of Array.from(prNumbers)) {
+    const pr = await getPullRequest(prNumber);
+    if (pr?.merged_at && pr.base.ref === targetBranch) prs.push(pr);
+  }
+  return prs;
+}
+
+/**
+ * 解析推送事件：跳过自动提交和已发布的提交，查找关联PR，没有PR时从提交消息推断发布类型
+ *
+ * 本次推送不需要处理时返回跳过原因
+ */
+export async function resolvePushRelease(): Promise<PushReleaseContext | ReleaseSkipReason> {
+  const targetBranch = getPushedBranch();
+  if (!targetBranch || !isSupportedBranch(targetBranch)) {
+    logger.info(MESSAGES.error.unsupportedBranch(targetBranch || context.ref));
+    return 'unsupported-branch';
+  }
+
+  const commits = getPushedCommits();
+  if (commits.length === 0) {
+    logger.info(MESSAGES.log.pushOnlyAutomated(targetBranch));
+    return 'automated-commits';
+  }
+  logger.info(MESSAGES.log.pushCommits(targetBranch, commits.length));
+
+  const releasedTags = await getReleasedTags(context.payload.after || context.sha);
+  if (releasedTags.length > 0) {
+    logger.info(MESSAGES.log.pushAlreadyReleased(releasedTags.join(', ')));
+    return 'already-released';
+  }
+
+  const changedFiles = Array.from(
+    new Set(
+      commits.flatMap((commit) => [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]),
+    ),
+  );
+
+  const prs = await findAssociatedPRs(commits, targetBranch);
+  if (prs.length > 0) {
+    // 多个PR时优先选择晋升PR（来自通道分支），其次选择最后合并的PR
+    const sorted = [...prs].sort((a, b) => (a.merged_at || '').localeCompare(b.merged_at || ''));
+    const pr = sorted.find((p) => getChannel(p.head.ref, getActionConfig().channels)) || sorted[sorted.length - 1];
+    logger.info(MESSAGES.log.pushAssociatedPRs(prs.map((p) => `#${p.number}`).join(', '), pr.number));
+    return { targetBranch, sourceBranch: pr.head.ref, pr, releaseType: null, changedFiles };
+  }
+
+  // 没有关联PR：从提交消息推断发布类型，从合并提交推断源分支
+  const releaseType = getReleaseTypeFromConventionalCommits(commits.map((commit) => commit.message)) || null;
+  const sourceBranch = getMergeSourceBranch(commits);
+  logger.info(MESSAGES.log.pushWithoutPR(releaseType, sourceBranch));
+  return { targetBranch, sourceBranch, pr: null, releaseType, changedFiles };
+}
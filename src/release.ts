@@ -0,0 +1,98 @@
+import { context } from '@actions/github';
+import { isStableChannel } from './channel';
+import { getActionConfig } from './config';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { getGitHubClient } from './pr';
+import type { SupportedBranch } from './types';
+import { VersionUtils } from './version';
+
+// ==================== GitHub Release 配置 ====================
+
+/**
+ * GitHub Release 配置（调用时读取输入参数）
+ */
+export function getGitHubReleaseConfig() {
+  return {
+    /** 是否为每个版本标签创建 GitHub Release */
+    enabled: core.getInput('create-github-release')?.toLowerCase() === 'true',
+  } as const;
+}
+
+export interface GitHubReleaseOptions {
+  /** 已推送的标签名 */
+  tag: string;
+  version: string;
+  targetBranch: SupportedBranch;
+  /** 本次生成的 CHANGELOG 条目，为空时由 GitHub 自动生成说明 */
+  notes: string | null;
+}
+
+// ==================== GitHub Release 操作 ====================
+
+/**
+ * 查找标签对应的已有 Release
+ */
+async function findReleaseByTag(tag: string): Promise<{ id: number } | null> {
+  try {
+    const { data } = await getGitHubClient().rest.repos.getReleaseByTag({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      tag,
+    });
+    return data;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * 创建或更新标签对应的 GitHub Release
+ *
+ * 预发布版本标记为 prerelease，正式通道的版本标记为 latest；已存在的 Release 会被更新而不是重复创建。
+ * Release 失败不中断发布流程，只记录警告和输出。
+ */
+export async function publishGitHubRelease(options: GitHubReleaseOptions): Promise<string | null> {
+  if (!getGitHubReleaseConfig().enabled) {
+    logger.info(MESSAGES.log.githubReleaseDisabled);
+    return null;
+  }
+
+  const { tag, version, targetBranch, notes } = options;
+
+  try {
+    const parsed = VersionUtils.parseVersion(version);
+    const prerelease = !!parsed && parsed.prerelease.length > 0;
+    const makeLatest = !prerelease && isStableChannel(targetBranch, getActionConfig().channels) ? 'true' : 'false';
+
+    const release = {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      name: tag,
+      prerelease,
+      make_latest: makeLatest,
+    } as const;
+
+    const existing = await findReleaseByTag(tag);
+    const { data } = existing
+      ? await getGitHubClient().rest.repos.updateRelease({
+          ...release,
+          release_id: existing.id,
+          ...(notes ? { body: notes } : {}),
+        })
+      : await getGitHubClient().rest.repos.createRelease({
+          ...release,
+          tag_name: tag,
+          ...(notes ? { body: notes } : { generate_release_notes: true }),
+        });
+
+    logger.info(MESSAGES.log.githubReleaseCreated(tag, !!existing, prerelease, makeLatest === 'true'));
+    core.setOutput('release-url', data.html_url);
+    return data.html_url;
+  } catch (error) {
+    logger.warning(MESSAGES.log.githubReleaseFailed(error));
+    core.setOutput('release-failed', 'true');
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import type { ReleaseReport } from './types';
+
+// ==================== 发布报告配置 ====================
+
+/**
+ * 发布报告文件路径（可通过action输入覆盖，默认写入运行器临时目录）
+ */
+function getReportFile(): string {
+  return core.getInput('report-file') || join(process.env.RUNNER_TEMP || tmpdir(), 'version-patch-report.json');
+}
+
+// ==================== 发布报告 ====================
+
+/**
+ * 创建空的发布报告（默认为未处理，由各执行流程填充）
+ */
+export function createReleaseReport(event: string): ReleaseReport {
+  return {
+    event,
+    mode: 'skipped',
+    sourceBranch: '',
+    targetBranch: '',
+    prNumber: null,
+    baseVersion: null,
+    nextVersion: null,
+    releaseType: null,
+    strategy: null,
+    tag: null,
+    changelog: null,
+    syncResults: [],
+    packages: [],
+    skipReason: null,
+    invalidTags: [],
+    journal: null,
+    error: null,
+  };
+}
+
+/**
+ * 输出发布报告：主要字段作为单独的输出参数，完整报告写入 JSON 文件供后续步骤读取
+ */
+export async function writeReleaseReport(report: ReleaseReport): Promise<void> {
+  core.setOutput('release-mode', report.mode);
+  core.setOutput('base-version', report.baseVersion || '');
+  core.setOutput('resolved-release-type', report.releaseType || '');
+  core.setOutput('version-strategy', report.strategy || '');
+  core.setOutput('release-tag', report.tag || '');
+  core.setOutput('changelog', report.changelog || '');
+  core.setOutput('sync-results', JSON.stringify(report.syncResults));
+  core.setOutput('skip-reason', report.skipReason || '');
+  core.setOutput('release-report', JSON.stringify(report));
+
+  // 写入失败不影响发布结果
+  const reportFile = getReportFile();
+  try {
+    await mkdir(dirname(reportFile), { recursive: true });
+    await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+    core.setOutput('release-report-file', reportFile);
+    logger.info(MESSAGES.log.reportWritten(reportFile));
+  } catch (error) {
+    logger.warning(MESSAGES.log.reportWriteFailed(error));
+  }
+}
@@ -0,0 +1,183 @@
+import { exec } from '@actions/exec';
+import { context } from '@actions/github';
+import { logger } from './core';
+import { MESSAGES } from './i18n';
+import { getGitHubClient } from './pr';
+import { ActionError } from './types';
+
+// ==================== 标签来源配置 ====================
+
+/** 浅克隆补全历史时首次加深的提交数（之后每轮翻倍） */
+const INITIAL_DEEPEN_DEPTH = 50;
+
+/** 逐步加深的最大轮数，仍不足时获取完整历史 */
+const MAX_DEEPEN_ROUNDS = 5;
+
+// ==================== Git 辅助函数 ====================
+
+/**
+ * 执行 git 命令并按行返回输出（忽略空行）
+ */
+async function execGitLines(args: string[]): Promise<string[]> {
+  let stdout = '';
+  await exec('git', args, {
+    listeners: {
+      stdout: (data: Buffer) => {
+        stdout += data.toString();
+      },
+    },
+  });
+  return stdout.split('\n').filter((line) => line.trim().length > 0);
+}
+
+/**
+ * 是否为浅克隆（actions/checkout 默认 `fetch-depth: 1`）
+ */
+export async function isShallowRepository(): Promise<boolean> {
+  const [output = ''] = await execGitLines(['rev-parse', '--is-shallow-repository']);
+  return output.trim() === 'true';
+}
+
+/**
+ * 是否配置了 origin 远程仓库（本地新建的仓库没有远程时使用默认版本）
+ */
+export async function hasOriginRemote(): Promise<boolean> {
+  return (await execGitLines(['remote'])).includes('origin');
+}
+
+// ==================== 远程标签 ====================
+
+/**
+ * 通过 `git ls-remote` 读取远程仓库中匹配的标签
+ */
+async function listRemoteTags(...patterns: string[]): Promise<string[]> {
+  const refs = patterns.map((pattern) => `refs/tags/${pattern}`);
+  const lines = await execGitLines(['ls-remote', '--tags', '--refs', 'origin', ...refs]);
+  return lines.map((line) => line.split('\t')[1]?.replace(/^refs\/tags\//, '') || '').filter(Boolean);
+}
+
+/**
+ * 查找已存在于远程仓库的标签（创建版本标签前检查，避免与并发发布使用同一个版本）
+ */
+export async function findRemoteTags(tags: readonly string[]): Promise<string[]> {
+  if (tags.length === 0) return [];
+  const remoteTags = new Set(await listRemoteTags(...tags));
+  return tags.filter((tag) => remoteTags.has(tag));
+}
+
+/**
+ * 查找包含指定提交的远程标签：获取标签后用 `git merge-base --is-ancestor` 判断（浅克隆中本地标签和历史都不完整）
+ */
+export async function findTagsContaining(sha: string, tags: readonly string[]): Promise<string[]> {
+  if (!sha || tags.length === 0) return [];
+
+  const tagRefspecs = tags.map((tag) => `+refs/tags/${tag}:refs/tags/${tag}`);
+  await exec('git', ['fetch', '--no-tags', 'origin', ...tagRefspecs], { silent: true, ignoreReturnCode: true });
+
+  const containing: string[] = [];
+  for (const tag of tags) {
+    const exitCode = await exec('git', ['merge-base', '--is-ancestor', sha, tag], {
+      silent: true,
+      ignoreReturnCode: true,
+    });
+    if (exitCode === 0) containing.push(tag);
+  }
+  return containing;
+}
+
+/**
+ * 通过 GitHub API 读取仓库的版本标签
+ */
+async function listApiTags(tagPrefix: string): Promise<string[]> {
+  const octokit = getGitHubClient();
+  const tags = await octokit.paginate(octokit.rest.repos.listTags, { ...context.repo, per_page: 100 });
+  return tags.map((tag) => tag.name).filter((name) => name.startsWith(tagPrefix));
+}
+
+/**
+ * 从远程解析版本标签：优先 `git ls-remote`，失败时使用 GitHub API，都不可用时抛出错误
+ * （不能退回默认版本，否则会计算出错误的版本号）
+ */
+export async function resolveRemoteTags(pattern: string, tagPrefix: string): Promise<string[]> {
+  try {
+    const tags = await listRemoteTags(pattern);
+    logger.info(MESSAGES.log.remoteTagsResolved(tags.length, 'git ls-remote'));
+    return tags;
+  } catch (error) {
+    logger.warning(MESSAGES.log.remoteTagsFallback(error));
+  }
+
+  try {
+    const tags = await listApiTags(tagPrefix);
+    logger.info(MESSAGES.log.remoteTagsResolved(tags.length, 'GitHub API'));
+    return tags;
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.remoteTagsUnavailable(error), 'resolveRemoteTags', error);
+  }
+}
+
+// ==================== 按需获取历史 ====================
+
+/**
+ * 获取版本计算所需的标签，浅克隆时逐步加深分支历史直到每个分支都能到达自己所需的标签
+ * （分支可达性、CHANGELOG 区间和后续的合并/rebase 都依赖这段历史），获取失败时只输出警告
+ *
+ * @param required 各分支所需的标签（通道的最新和上一个标签），远程不存在的分支会被跳过
+ */
+export async function fetchTagHistory(required: Readonly<Record<string, readonly string[]>>): Promise<void> {
+  const tags = Array.from(new Set(Object.values(required).flat()));
+  if (tags.length === 0) return;
+
+  try {
+    const remoteHeads = new Set(
+      (await execGitLines(['ls-remote', '--heads', 'origin'])).map(
+        (line) => line.split('\t')[1]?.replace(/^refs\/heads\//, '') || '',
+      ),
+    );
+    const branches = Object.keys(required).filter((branch) => remoteHeads.has(branch));
+    const branchRefspecs = branches.map((branch) => `+refs/heads/${branch}:refs/remotes/origin/${branch}`);
+    const tagRefspecs = tags.map((tag) => `+refs/tags/${tag}:refs/tags/${tag}`);
+
+    logger.info(MESSAGES.log.fetchingTagHistory(tags));
+    const shallow = await isShallowRepository();
+    await execGitLines([
+      'fetch',
+      '--no-tags',
+      ...(shallow ? ['--depth=1'] : []),
+      'origin',
+      ...branchRefspecs,
+      ...tagRefspecs,
+    ]);
+    if (!shallow || branches.length === 0) return;
+
+    let depth = INITIAL_DEEPEN_DEPTH;
+    for (let round = 0; ; round++) {
+      if (!(await isShallowRepository()) || (await isHistoryComplete(required, branches))) return;
+      if (round === MAX_DEEPEN_ROUNDS) break;
+
+      logger.info(MESSAGES.log.deepeningHistory(depth));
+      await execGitLines(['fetch', '--no-tags', `--deepen=${depth}`, 'origin', ...branchRefspecs]);
+      depth *= 2;
+    }
+
+    // 仍有标签不可达（如标签不在对应分支上）时获取完整历史
+    logger.info(MESSAGES.log.unshallowHistory);
+    await execGitLines(['fetch', '--no-tags', '--unshallow', 'origin', ...branchRefspecs]);
+  } catch (error) {
+    logger.warning(MESSAGES.log.tagHistoryFailed(error));
+  }
+}
+
+/**
+ * 各分支所需的标签是否都已可从该分支到达
+ */
+async function isHistoryComplete(
+  required: Readonly<Record<string, readonly string[]>>,
+  branches: readonly string[],
+): Promise<boolean> {
+  for (const branch of branches) {
+    const reachable = new Set(await execGitLines(['tag', '-l', '--merged', `refs/remotes/origin/${branch}`]));
+    if (!required[branch].every((tag) => reachable.has(tag))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate } from './templates';
+import { ActionError } from './types';
+
+describe('renderTemplate', () => {
+  it('替换变量和路径变量，不做 HTML 转义', () => {
+    expect(
+      renderTemplate('{{version}} <{{{pr.title}}}> {{pr.author}}', { version: '1.0.0', pr: { title: 'a & b' } }),
+    ).toBe('1.0.0 <a & b> ');
+  });
+
+  it('区块按列表循环，反向区块在值为空时渲染', () => {
+    const template = '{{#items}}- {{name}}\n{{/items}}{{^items}}（无）{{/items}}';
+    expect(renderTemplate(template, { items: [{ name: 'a' }, { name: 'b' }] })).toBe('- a\n- b\n');
+    expect(renderTemplate(template, { items: [] })).toBe('（无）');
+  });
+
+  it('条件区块中可以引用外层变量，独占一行的标签不留空行', () => {
+    const template =
+      '# {{title}}\n{{#releaseType}}\n类型：{{releaseType}}（{{title}}）\n{{/releaseType}}\n{{! 注释 }}\n结束';
+    expect(renderTemplate(template, { title: 'v1', releaseType: 'minor' })).toBe('# v1\n类型：minor（v1）\n结束');
+    expect(renderTemplate(template, { title: 'v1', releaseType: null })).toBe('# v1\n结束');
+  });
+
+  it('未定义的变量和未闭合的区块视为模板错误', () => {
+    expect(() => renderTemplate('{{missing}}', {})).toThrow(ActionError);
+    expect(() => renderTemplate('{{#a}}', { a: true })).toThrow(ActionError);
+    expect(() => renderTemplate('{{#a}}{{/b}}', { a: true })).toThrow(ActionError);
+  });
+});
@@ -0,0 +1,162 @@
+import { readFile } from 'node:fs/promises';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { ActionError } from './types';
+
+// ==================== 评论模板配置 ====================
+
+/** 可自定义的评论类型 */
+export type CommentTemplateKind = 'preview' | 'skip' | 'error';
+
+/** 各评论类型的模板输入参数 */
+const COMMENT_TEMPLATE_INPUTS: Record<CommentTemplateKind, string> = {
+  preview: 'preview-comment-template',
+  skip: 'skip-comment-template',
+  error: 'error-comment-template',
+};
+
+/**
+ * 自定义评论模板文件路径（相对仓库根目录，为空时使用内置模板）
+ */
+function getCommentTemplateFile(kind: CommentTemplateKind): string {
+  return core.getInput(COMMENT_TEMPLATE_INPUTS[kind]);
+}
+
+/** 评论隐藏标记，用于识别本 Action 创建的评论 */
+export const COMMENT_MARKER = '<!-- version-patch -->';
+
+/** 模板变量 */
+export type TemplateView = Record<string, unknown>;
+
+// ==================== 模板解析 ====================
+
+/**
+ * 模板节点：文本、变量或区块（`{{#name}}` / `{{^name}}`）
+ */
+type TemplateNode =
+  | string
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+/** 标签：`{{{name}}}`、`{{name}}`、`{{#name}}`、`{{^name}}`、`{{/name}}`、`{{! 注释}}` */
+const TAG_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+
+/** 独占一行的区块/注释标签，渲染时连同换行一起去掉 */
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{[#^/!][^}]*\}\})[ \t]*\r?\n/gm;
+
+/**
+ * 解析模板为节点树
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+  const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+
+  let lastIndex = 0;
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const current = stack[stack.length - 1].children;
+    if (match.index! > lastIndex) current.push(source.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    const [, raw, sigil, name] = match;
+    if (raw) {
+      current.push({ type: 'variable', name: raw });
+    } else if (sigil === '!') {
+      // 注释
+    } else if (sigil === '#' || sigil === '^') {
+      const section = { type: 'section' as const, name, inverted: sigil === '^', children: [] };
+      current.push(section);
+      stack.push(section);
+    } else if (sigil === '/') {
+      const open = stack.pop()!;
+      if (stack.length === 0 || open.name !== name) {
+        throw new ActionError(MESSAGES.error.templateUnclosed(name), 'parseTemplate');
+      }
+    } else {
+      current.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new ActionError(MESSAGES.error.templateMissingClose(stack[stack.length - 1].name), 'parseTemplate');
+  }
+  if (lastIndex < source.length) root.push(source.slice(lastIndex));
+  return root;
+}
+
+// ==================== 模板渲染 ====================
+
+/**
+ * 在上下文栈中查找变量（`.` 为当前上下文，支持 `a.b` 路径），未定义的变量视为模板错误
+ */
+function lookup(name: string, contexts: unknown[]): unknown {
+  if (name === '.') return contexts[contexts.length - 1];
+
+  const [head, ...rest] = name.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context && typeof context === 'object' && head in context) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (context as Record<string, unknown>)[head],
+      );
+    }
+  }
+  throw new ActionError(MESSAGES.error.templateUndefinedVariable(name), 'renderTemplate');
+}
+
+/**
+ * 渲染节点
+ */
+function renderNodes(nodes: TemplateNode[], contexts: unknown[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') return node;
+
+      const value = lookup(node.name, contexts);
+      if (node.type === 'variable') {
+        return value === null || value === undefined ? '' : String(value);
+      }
+
+      const isEmpty = !value || (Array.isArray(value) && value.length === 0);
+      if (node.inverted) {
+        return isEmpty ? renderNodes(node.children, contexts) : '';
+      }
+      if (isEmpty) return '';
+      if (Array.isArray(value)) {
+        return value.map((item) => renderNodes(node.children, [...contexts, item])).join('');
+      }
+      return renderNodes(node.children, typeof value === 'object' ? [...contexts, value] : contexts);
+    })
+    .join('');
+}
+
+/**
+ * 渲染 Mustache 风格的模板
+ *
+ * 支持 `{{name}}` 变量、`{{#list}}...{{/list}}` 循环/条件区块、`{{^name}}...{{/name}}` 反向区块和 `{{! 注释}}`。
+ * 评论内容为 Markdown，变量不做 HTML 转义。
+ */
+export function renderTemplate(template: string, view: TemplateView): string {
+  return renderNodes(parseTemplate(template), [view]);
+}
+
+/**
+ * 使用自定义模板渲染评论，未配置模板或模板出错时回退到内置模板
+ */
+export async function renderCommentTemplate(
+  kind: CommentTemplateKind,
+  view: TemplateView,
+  fallback: () => string,
+): Promise<string> {
+  const templatePath = getCommentTemplateFile(kind);
+  if (!templatePath) return fallback();
+
+  try {
+    const template = await readFile(templatePath, 'utf8');
+    return renderTemplate(template, view);
+  } catch (error) {
+    logger.warning(MESSAGES.log.templateRenderFailed(templatePath, error));
+    return fallback();
+  }
+}
@@ -1,22 +1,33 @@
 import type { getOctokit } from '@actions/github';
 import type { ReleaseType } from 'semver';
-import core from './core';
 
 // ==================== 基础类型定义 ====================
 
-export const SUPPORTED_BRANCHES = core
-  .getInput('supported-branches')
-  ?.split(',')
-  .map((b) => b.trim()) || ['main', 'beta', 'alpha'];
-export type SupportedBranch = 'main' | 'beta' | 'alpha';
+/** 通道链中声明的分支名（见 channel.ts） */
+export type SupportedBranch = string;
+
+/** 发布通道 */
+export interface ReleaseChannel {
+  /** 分支名 */
+  branch: string;
+  /** 预发布标识（正式发布通道为 null） */
+  prerelease: string | null;
+}
 
 export type PRData = Awaited<ReturnType<ReturnType<typeof getOctokit>['rest']['pulls']['get']>>['data'];
 
+/** 版本计算使用的 PR 字段（本地 CLI 模拟的 PR 只有这些字段） */
+export type VersionPRData = Pick<PRData, 'number' | 'title'> & {
+  labels: Pick<PRData['labels'][number], 'name'>[];
+  head: Pick<PRData['head'], 'ref'>;
+  base: Pick<PRData['base'], 'ref'>;
+};
+
 export interface VersionInfo {
   current: string;
-  beta: string;
+  downstream: string;
   currentTag: string | null;
-  betaTag: string | null;
+  downstreamTag: string | null;
 }
 
 export interface EventInfo {
@@ -25,97 +36,125 @@ export interface EventInfo {
   pr: PRData | null;
 }
 
+/** 手动发布请求（workflow_dispatch） */
+export interface ManualReleaseRequest {
+  targetBranch: SupportedBranch;
+  /** 发布类型，与 version 二选一 */
+  releaseType: ReleaseType | null;
+  /** 指定的版本号，与 releaseType 二选一 */
+  version: string | null;
+  /** 触发者 */
+  actor: string;
+}
+
+/** 分支同步步骤 */
+export interface SyncStep {
+  source: SupportedBranch;
+  target: SupportedBranch;
+  strategy: 'rebase' | 'merge';
+  /** 合并后保留目标分支的版本文件（热修复同步时使用） */
+  preserveVersions: boolean;
+}
+
 export interface VersionPreviewData {
   sourceBranch: string;
   targetBranch: string;
   currentVersion?: string;
   nextVersion: string;
+  /** 以下字段用于自定义评论模板 */
+  prNumber?: number;
+  releaseType?: string;
+  changelogPreview?: string;
+  syncPlan?: SyncStep[];
 }
 
-// ==================== 配置常量 ====================
-
-/** 版本前缀配置 */
-export const VERSION_PREFIX_CONFIG = {
-  /** 默认版本前缀 */
-  default: 'v',
-  /** 自定义前缀（可通过action输入覆盖） */
-  custom: core.getInput('version-prefix') || 'v',
-  /** 支持的前缀列表（用于兼容性处理） */
-  supported: ['v', 'version-', 'ver-', 'rel-'],
-} as const;
-
-/** Git 用户配置 */
-export const GIT_USER_CONFIG = {
-  name: core.getInput('git-user-name') || 'GitHub Action',
-  email: core.getInput('git-user-email') || 'action@github.com',
-} as const;
-
-/** 评论配置 */
-export const COMMENT_CONFIG = {
-  /** 评论标题（可通过action输入覆盖） */
-  title: core.getInput('comment-title') || '📦 版本管理',
-} as const;
-
-/** 默认版本号 */
-export const DEFAULT_VERSIONS = {
-  base: '0.0.0',
-  beta: '0.0.0-beta.0',
-  alpha: '0.0.0-alpha.0',
-} as const;
-
-// ==================== 消息模板 ====================
-
-/** 评论模板 */
-export const COMMENT_TEMPLATES = {
-  /** 版本管理评论模板 */
-  VERSION_PREVIEW: (data: VersionPreviewData) => `## ${COMMENT_CONFIG.title}
-
-| 项目 | 值 |
-|------|-----|
-| **源分支** | \`${data.sourceBranch}\` |
-| **目标分支** | \`${data.targetBranch}\` |
-| **当前版本** | \`${data.currentVersion || '无'}\` |
-| **下一版本** | \`${data.nextVersion}\` |
-
-> ℹ️ 这是预览模式，合并 PR 后将自动创建 tag 并更新版本。`,
-
-  /** 错误评论模板 */
-  ERROR: (errorMessage: string) => `## ${COMMENT_CONFIG.title}
-
-❌ **错误信息**
+/** Monorepo 包的版本规划 */
+export interface PackageVersionPlan {
+  name: string;
+  dir: string;
+  private: boolean;
+  /** 标签命名空间前缀（如 `@scope/pkg@`） */
+  tagPrefix: string;
+  currentVersion: string | null;
+  nextVersion: string | null;
+}
 
-${errorMessage}
+export interface PackagesPreviewData {
+  sourceBranch: string;
+  targetBranch: string;
+  packages: PackageVersionPlan[];
+}
 
-> 请确保在创建新功能之前，所有已有功能都已完成完整的发布流程（alpha → beta → main）。`,
+/** 未执行发布的原因 */
+export type ReleaseSkipReason =
+  | 'unsupported-event'
+  | 'missing-pr-payload'
+  | 'unsupported-branch'
+  | 'automated-commits'
+  | 'already-released'
+  | 'no-version-change';
+
+/** Monorepo 包的发布结果 */
+export interface PackageReleaseReport {
+  name: string;
+  currentVersion: string | null;
+  nextVersion: string | null;
+  /** 已创建的标签（预览时为 null） */
+  tag: string | null;
+  changelog: string | null;
+}
 
-  /** 版本跳过模板 */
-  VERSION_SKIP: (targetBranch: string, baseVersion: string | null) => `## ${COMMENT_CONFIG.title}
+/**
+ * 发布报告：本次运行的版本计划和执行结果（见 report.ts）
+ */
+export interface ReleaseReport {
+  event: string;
+  /** preview: PR 预览；release: 执行发布；skipped: 未处理；failed: 执行失败 */
+  mode: 'preview' | 'release' | 'skipped' | 'failed';
+  sourceBranch: string;
+  targetBranch: string;
+  prNumber: number | null;
+  baseVersion: string | null;
+  nextVersion: string | null;
+  /** 计算使用的发布类型（来自PR标签、提交消息或手动输入） */
+  releaseType: string | null;
+  /** 版本升级策略（手动发布为 manual） */
+  strategy: string | null;
+  /** 已创建的标签（预览时为 null） */
+  tag: string | null;
+  /** 本次发布的 CHANGELOG 条目（预览时为预览内容） */
+  changelog: string | null;
+  syncResults: BranchSyncResult[];
+  packages: PackageReleaseReport[];
+  skipReason: ReleaseSkipReason | null;
+  /** 看起来像版本但无法解析的标签（不参与版本计算） */
+  invalidTags: string[];
+  /** 发布日志（未执行发布时为 null） */
+  journal: ReleaseJournalEntry | null;
+  error: string | null;
+}
 
-| 项目 | 值 |
-|------|-----|
-| **目标分支** | \`${targetBranch}\` |
-| **当前版本** | \`${baseVersion || '无'}\` |
-| **状态** | \`跳过 - 无需升级\` |
+// ==================== 配置常量 ====================
 
-> ℹ️ 根据当前分支状态和标签，无需进行版本升级。`,
-} as const;
+/** 默认基础版本号（没有任何版本标签时使用，各通道的默认版本见 channel.ts getDefaultChannelVersion） */
+export const DEFAULT_BASE_VERSION = '0.0.0';
 
-/** 错误消息 */
-export const ERROR_MESSAGES = {
-  UNSUPPORTED_BRANCH: (branch: string) => `不支持的分支: ${branch}，跳过版本管理`,
-  UNSUPPORTED_EVENT: (eventName: string) => `不支持的事件类型: ${eventName}`,
-  INVALID_VERSION: (version: string) => `无效的版本号: ${version}`,
-  MERGE_CONFLICT: (sourceBranch: string, targetBranch: string) =>
-    `无法自动解决 ${sourceBranch} -> ${targetBranch} 的合并冲突，已创建issue需要人工介入`,
-} as const;
+// ==================== 消息模板 ====================
 
 /** 提交消息模板 */
 export const COMMIT_TEMPLATES = {
-  VERSION_BUMP: (version: string, branch: string) => `chore: bump version to ${version} for ${branch}`,
-  SYNC_BETA_TO_ALPHA: (version: string) => `chore: sync beta v${version} to alpha [skip ci]`,
-  SYNC_MAIN_TO_BETA: (version: string) => `chore: sync main v${version} to beta [skip ci]`,
-  FORCE_SYNC: (version: string) => `chore: force sync from main v${version} [skip ci]`,
+  VERSION_BUMP: (version: string, branch: string, triggeredBy?: string) =>
+    `chore: bump version to ${version} for ${branch}${triggeredBy ? `\n\nTriggered-by: @${triggeredBy}` : ''}`,
+  PACKAGES_BUMP: (releases: string[], branch: string) => `chore: bump versions for ${branch}\n\n${releases.join('\n')}`,
+  /** 单个标签写在标题中，monorepo 多个包的标签逐行写在正文中 */
+  SYNC_DOWNSTREAM: (sourceBranch: string, targetBranch: string, tags: readonly string[]) =>
+    tags.length === 1
+      ? `chore: sync ${sourceBranch} ${tags[0]} to ${targetBranch} [skip ci]`
+      : `chore: sync ${sourceBranch} packages to ${targetBranch} [skip ci]\n\n${tags.join('\n')}`,
   CHANGELOG_UPDATE: (version: string) => `docs: update CHANGELOG for ${version}`,
+  /** 没有 CHANGELOG 条目时的附注标签消息 */
+  RELEASE_TAG: (tag: string) => `Release ${tag}`,
+  RELEASE_ROLLBACK: (tags: string) => `chore: roll back release ${tags} [skip ci]`,
 } as const;
 
 // ==================== 工具函数类型 ====================
@@ -129,19 +168,68 @@ export interface VersionSummary {
   prefix: string;
 }
 
+/** 已创建的版本标签 */
+export interface TagRelease {
+  tag: string;
+  /** 实际发布的版本（与并发发布冲突时为重新计算后的版本） */
+  version: string;
+  /** 本次发布的 CHANGELOG 条目（未生成时为 null） */
+  changelog: string | null;
+}
+
+/** 发布被并发运行抢先时重新计算版本（调用前已重新读取标签），无需发布时返回 null */
+export type VersionRecalculator = () => Promise<string | null>;
+
+/** 发布日志中记录的版本（monorepo 包额外记录包名、目录和是否私有） */
+export interface JournalRelease extends TagRelease {
+  name?: string;
+  dir?: string;
+  private?: boolean;
+  /** 已发布到 npm（无法撤销，之后的运行继续发布时跳过） */
+  published?: boolean;
+}
+
+/** 发布步骤（按执行顺序） */
+export type ReleaseStepName = 'push' | 'github-release' | 'npm-publish' | 'sync';
+
+/** pending: 未执行；done: 已完成；skipped: 未启用；failed: 失败；rolled-back: 已回滚 */
+export type ReleaseStepStatus = 'pending' | 'done' | 'skipped' | 'failed' | 'rolled-back';
+
+export interface ReleaseJournalStep {
+  name: ReleaseStepName;
+  status: ReleaseStepStatus;
+  error: string | null;
+}
+
+/**
+ * 发布日志：记录发布的每个步骤，失败时用于回滚或由之后的运行继续（见 journal.ts）
+ */
+export interface ReleaseJournalEntry {
+  /** 触发本次发布的提交（日志以 git notes 的形式附加在该提交上） */
+  trigger: string;
+  /** 触发发布的事件和运行 ID（手动发布只在重新运行同一次运行时继续） */
+  event: string;
+  runId: string;
+  targetBranch: SupportedBranch;
+  sourceBranch: string;
+  /** in-progress: 执行中；completed: 全部完成；failed: 有步骤失败，可由之后的运行继续；rolled-back: 已回滚 */
+  status: 'in-progress' | 'completed' | 'failed' | 'rolled-back';
+  releases: JournalRelease[];
+  /** 版本提交的父提交和推送后的目标分支提交（回滚时撤销这段提交） */
+  commits: { base: string; head: string } | null;
+  steps: ReleaseJournalStep[];
+}
+
 export interface BranchSyncResult {
   success: boolean;
   conflicts?: string[];
-  version?: string;
+  /** 同步的发布标签 */
+  tags?: string[];
   error?: string;
 }
 
 // ==================== 常用类型守卫 ====================
 
-export function isSupportedBranch(branch: string): branch is SupportedBranch {
-  return SUPPORTED_BRANCHES.includes(branch);
-}
-
 export function isValidReleaseType(type: string): type is ReleaseType {
   return ['major', 'minor', 'patch', 'premajor', 'preminor', 'prepatch', 'prerelease'].includes(type);
 }
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ActionError } from './types';
+import { parseVersionFileTargets, VERSION_FILE_WRITERS, type VersionFileTarget } from './version-files';
+
+/**
+ * 按配置行写入版本
+ */
+function write(line: string, content: string, version = '1.2.3'): string {
+  const [target] = parseVersionFileTargets(line);
+  return VERSION_FILE_WRITERS[target.format](content, version, target);
+}
+
+describe('parseVersionFileTargets', () => {
+  it('根据文件名推断格式，忽略空行和注释', () => {
+    expect(parseVersionFileTargets('package.json\n# 注释\n\nCargo.toml\nVERSION\nversion.txt:text')).toEqual<
+      VersionFileTarget[]
+    >([
+      { path: 'package.json', format: 'json' },
+      { path: 'Cargo.toml', format: 'toml' },
+      { path: 'VERSION', format: 'text' },
+      { path: 'version.txt', format: 'text' },
+    ]);
+  });
+
+  it('正则可以包含冒号', () => {
+    const [target] = parseVersionFileTargets("src/version.ts:regex:VERSION: '([^']+)'");
+    expect(target.pattern?.source).toBe("VERSION: '([^']+)'");
+  });
+
+  it('无法推断格式或正则无效时抛出错误', () => {
+    expect(() => parseVersionFileTargets('setup.py')).toThrow(ActionError);
+    expect(() => parseVersionFileTargets('a.ts:regex:(')).toThrow(ActionError);
+  });
+});
+
+describe('VERSION_FILE_WRITERS', () => {
+  it('JSON 保留缩进和结尾换行', () => {
+    expect(write('package.json', '{\n\t"name": "a",\n\t"version": "1.0.0"\n}\n')).toBe(
+      '{\n\t"name": "a",\n\t"version": "1.2.3"\n}\n',
+    );
+  });
+
+  it('TOML 优先替换 [package] 段落中的版本', () => {
+    const content = '[workspace]\nversion = "0.0.0"\n\n[package]\nname = "a"\nversion = \'1.0.0\'\n';
+    expect(write('Cargo.toml', content)).toBe(
+      '[workspace]\nversion = "0.0.0"\n\n[package]\nname = "a"\nversion = \'1.2.3\'\n',
+    );
+  });
+
+  it('TOML 没有版本字段时抛出错误', () => {
+    expect(() => write('pyproject.toml', '[project]\nname = "a"\n')).toThrow(ActionError);
+  });
+
+  it('纯文本保留结尾换行', () => {
+    expect(write('VERSION', '1.0.0\n')).toBe('1.2.3\n');
+  });
+
+  it('正则按捕获组的位置替换，而不是捕获组文本第一次出现的位置', () => {
+    const content = "// 1.0.0 兼容说明\nexport const VERSION = '1.0.0';\n";
+    expect(write("src/version.ts:regex:VERSION = '([^']+)'", content)).toBe(
+      "// 1.0.0 兼容说明\nexport const VERSION = '1.2.3';\n",
+    );
+  });
+
+  it('正则支持多行模式的 ^ 和 $', () => {
+    expect(write('a.txt:regex:^version=(.+)$', 'name=a\nversion=1.0.0\n')).toBe('name=a\nversion=1.2.3\n');
+  });
+
+  it('正则未匹配时抛出错误', () => {
+    expect(() => write("a.ts:regex:VERSION = '([^']+)'", 'nothing here')).toThrow(ActionError);
+  });
+});
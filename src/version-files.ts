@@ -0,0 +1,205 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { ActionError } from './types';
+
+// ==================== 版本文件类型 ====================
+
+/** 内置版本文件格式 */
+export type VersionFileFormat = 'json' | 'toml' | 'text' | 'regex';
+
+/**
+ * 版本文件目标
+ */
+export interface VersionFileTarget {
+  /** 文件路径（相对仓库根目录，monorepo 模式下相对包目录） */
+  path: string;
+  format: VersionFileFormat;
+  /** regex 格式的匹配规则，第一个捕获组会被替换为新版本 */
+  pattern?: RegExp;
+}
+
+/**
+ * 版本文件写入器：输入原文件内容，返回替换版本后的内容
+ */
+export type VersionFileWriter = (content: string, version: string, target: VersionFileTarget) => string;
+
+// ==================== 内置写入器 ====================
+
+/**
+ * JSON 写入器（package.json、jsr.json、deno.json 等），保留原有缩进
+ */
+function writeJsonVersion(content: string, version: string, target: VersionFileTarget): string {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.versionFileInvalidJson(target.path, error), 'writeJsonVersion', error);
+  }
+
+  const indent = content.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+  data.version = version;
+  return `${JSON.stringify(data, null, indent)}${content.endsWith('\n') ? '\n' : ''}`;
+}
+
+/** TOML 中依次尝试的版本所在段落 */
+const TOML_VERSION_SECTIONS = ['package', 'project', 'tool.poetry', 'workspace.package'];
+
+/**
+ * TOML 写入器（Cargo.toml 的 [package]、pyproject.toml 的 [project] / [tool.poetry]）
+ */
+function writeTomlVersion(content: string, version: string, target: VersionFileTarget): string {
+  const lines = content.split('\n');
+  const versionLines = new Map<string, number>();
+  let section = '';
+
+  lines.forEach((line, index) => {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*(#.*)?$/);
+    if (header) {
+      section = header[1].trim();
+      return;
+    }
+    if (!versionLines.has(section) && /^\s*version\s*=\s*["']/.test(line)) {
+      versionLines.set(section, index);
+    }
+  });
+
+  const targetSection = [...TOML_VERSION_SECTIONS, ''].find((name) => versionLines.has(name));
+  if (targetSection === undefined) {
+    throw new ActionError(MESSAGES.error.versionFileMissingVersion(target.path), 'writeTomlVersion');
+  }
+
+  const index = versionLines.get(targetSection)!;
+  lines[index] = lines[index].replace(/(version\s*=\s*)(["'])[^"']*\2/, `$1$2${version}$2`);
+  return lines.join('\n');
+}
+
+/**
+ * 纯文本写入器（VERSION 文件），整个文件内容即版本号
+ */
+function writeTextVersion(content: string, version: string): string {
+  return `${version}${content.endsWith('\n') || content.length === 0 ? '\n' : ''}`;
+}
+
+/**
+ * 正则写入器：替换第一个捕获组
+ */
+function writeRegexVersion(content: string, version: string, target: VersionFileTarget): string {
+  const pattern = target.pattern!;
+  const match = pattern.exec(content);
+  const group = match?.indices?.[1];
+  if (!match || match[1] === undefined || !group) {
+    throw new ActionError(
+      MESSAGES.error.versionFilePatternNotMatched(target.path, String(pattern)),
+      'writeRegexVersion',
+    );
+  }
+
+  const [groupStart, groupEnd] = group;
+  return `${content.slice(0, groupStart)}${version}${content.slice(groupEnd)}`;
+}
+
+/** 内置格式写入器 */
+export const VERSION_FILE_WRITERS: Record<VersionFileFormat, VersionFileWriter> = {
+  json: writeJsonVersion,
+  toml: writeTomlVersion,
+  text: writeTextVersion,
+  regex: writeRegexVersion,
+};
+
+// ==================== 目标配置解析 ====================
+
+/**
+ * 根据文件名推断格式
+ */
+function inferVersionFileFormat(path: string): VersionFileFormat | null {
+  const name = basename(path);
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.toml')) return 'toml';
+  if (name === 'VERSION' || name.endsWith('.txt')) return 'text';
+  return null;
+}
+
+/**
+ * 解析版本文件目标配置
+ *
+ * 每行一个目标：
+ * - `path`：根据文件名推断格式（*.json / *.toml / VERSION）
+ * - `path:format`：显式指定内置格式
+ * - `path:regex:pattern`：按正则替换，第一个捕获组为版本号
+ *
+ * @example parseVersionFileTargets("package.json\nCargo.toml\nsrc/version.ts:regex:VERSION = '([^']+)'")
+ */
+export function parseVersionFileTargets(input: string): VersionFileTarget[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line): VersionFileTarget => {
+      const [path, format, ...rest] = line.split(':');
+
+      if (format === 'regex') {
+        const source = rest.join(':');
+        let pattern: RegExp;
+        try {
+          // d 标志记录捕获组的位置，替换时不依赖捕获组文本在整个匹配中第一次出现的位置
+          pattern = new RegExp(source, 'md');
+        } catch (error) {
+          throw new ActionError(MESSAGES.error.versionFileInvalidRegex(path, source), 'parseVersionFileTargets', error);
+        }
+        return { path, format, pattern };
+      }
+
+      const resolvedFormat = (format as VersionFileFormat) || inferVersionFileFormat(path);
+      if (!resolvedFormat || !(resolvedFormat in VERSION_FILE_WRITERS)) {
+        throw new ActionError(MESSAGES.error.versionFileUnknownFormat(path), 'parseVersionFileTargets');
+      }
+      return { path, format: resolvedFormat };
+    });
+}
+
+let versionFileTargets: readonly VersionFileTarget[] | null = null;
+
+/**
+ * 版本文件目标（可通过action输入覆盖，首次调用时读取输入参数）
+ */
+export function getVersionFileTargets(): readonly VersionFileTarget[] {
+  if (!versionFileTargets) {
+    versionFileTargets = parseVersionFileTargets(core.getInput('version-files') || 'package.json');
+  }
+  return versionFileTargets;
+}
+
+// ==================== 版本文件写入 ====================
+
+/**
+ * 将版本号写入所有目标文件，返回已写入的文件路径
+ *
+ * 先计算所有文件的新内容再统一写入，任一目标失败时不会留下部分更新的文件。
+ */
+export async function writeVersionFiles(
+  version: string,
+  baseDir = '.',
+  targets: readonly VersionFileTarget[] = getVersionFileTargets(),
+): Promise<string[]> {
+  const updates: { path: string; content: string }[] = [];
+
+  for (const target of targets) {
+    const path = join(baseDir, target.path);
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      throw new ActionError(MESSAGES.error.versionFileReadFailed(path, error), 'writeVersionFiles', error);
+    }
+    updates.push({ path, content: VERSION_FILE_WRITERS[target.format](content, version, target) });
+  }
+
+  for (const update of updates) {
+    await writeFile(update.path, update.content, 'utf8');
+    logger.info(MESSAGES.log.versionFileUpdated(update.path, version));
+  }
+
+  return updates.map((update) => update.path);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createVersionConfig } from './lib';
+import { assertManualReleaseAllowed, resolveNextVersion, TagIndex } from './version-model';
+
+const config = createVersionConfig({ locale: 'en' });
+
+const index = (...tags: string[]) => new TagIndex(tags, config.tagPrefix, config);
+
+describe('assertManualReleaseAllowed', () => {
+  it('入口通道的版本线尚未晋升时拒绝手动发布正式通道', () => {
+    expect(() => assertManualReleaseAllowed(index('v1.1.0-alpha.0', 'v1.0.0'), 'main', 'octocat')).toThrow(
+      config.messages.error.stableAfterDownstreamOnly('main', 'beta', 'v1.1.0-alpha.0', 'alpha'),
+    );
+  });
+
+  it('按从下游通道晋升检查各通道', () => {
+    expect(() => assertManualReleaseAllowed(index('v1.1.0-beta.0', 'v1.0.0'), 'main', 'octocat')).not.toThrow();
+    expect(() => assertManualReleaseAllowed(index('v1.1.0-alpha.0', 'v1.0.0'), 'beta', 'octocat')).not.toThrow();
+    expect(() => assertManualReleaseAllowed(index('v1.0.0'), 'beta', 'octocat')).toThrow();
+  });
+
+  it('入口通道按任意源分支检查', () => {
+    expect(() => assertManualReleaseAllowed(index('v1.0.0'), 'alpha', 'octocat')).not.toThrow();
+    expect(() => assertManualReleaseAllowed(index('v1.1.0-beta.0', 'v1.0.0'), 'alpha', 'octocat')).toThrow();
+  });
+});
+
+describe('热修复', () => {
+  const hotfixConfig = createVersionConfig({ hotfixBranches: 'hotfix/*', locale: 'en' });
+  const hotfix = (...tags: string[]) =>
+    resolveNextVersion({
+      baseVersion: '1.2.0',
+      targetBranch: 'main',
+      sourceBranch: 'hotfix/login',
+      releaseType: '',
+      index: new TagIndex(tags, hotfixConfig.tagPrefix, hotfixConfig),
+      log: () => {},
+    });
+
+  it('在当前正式版本上发布补丁版本', () => {
+    expect(hotfix('v1.3.0-alpha.0', 'v1.2.0').version).toBe('1.2.1');
+  });
+
+  it('补丁版本已有进行中的预发布版本线时拒绝发布', () => {
+    expect(() => hotfix('v1.2.1-alpha.1', 'v1.2.1-alpha.0', 'v1.2.0')).toThrow(
+      hotfixConfig.messages.error.hotfixCollidesWithPrerelease('1.2.1', 'v1.2.1-alpha.1, v1.2.1-alpha.0'),
+    );
+  });
+});
@@ -0,0 +1,707 @@
+import semver, { type ReleaseType } from 'semver';
+import {
+  getChannel,
+  getDownstreamChannel,
+  getStableChannel,
+  isEntryChannel,
+  isHotfixBranch,
+  isStableChannel,
+} from './channel';
+import { getReleaseTypeFromConventionalCommits } from './conventional';
+import { getBumpFromLabels, type LabelRule } from './labels';
+import { getMaintenanceBranch, type MaintenanceBranch } from './maintenance';
+import type { MessageCatalog } from './messages';
+import { matchPromotionRule, type PromotionCheck, type PromotionRule } from './promotion';
+import { ActionError, DEFAULT_BASE_VERSION, type ReleaseChannel, type SupportedBranch } from './types';
+
+// ==================== 版本模型配置 ====================
+
+/**
+ * 版本规则配置（Action 从输入参数读取，其他工具通过 lib.ts 显式传入）
+ */
+export interface VersionModelConfig {
+  /** 通道链（从稳定到不稳定） */
+  channels: readonly ReleaseChannel[];
+  /** 热修复分支模式 */
+  hotfixBranches: readonly RegExp[];
+  /** 维护分支 */
+  maintenanceBranches: readonly MaintenanceBranch[];
+  /** PR 标签规则 */
+  labelRules: readonly LabelRule[];
+  /** 无版本标签时是否从 Conventional Commits（PR标题和提交）推断 */
+  conventionalCommits: boolean;
+  /** 通道晋升规则（按顺序匹配） */
+  promotionRules: readonly PromotionRule[];
+  /** 版本标签前缀（如 `v`） */
+  tagPrefix: string;
+  /** 错误和日志消息（随 locale 切换） */
+  messages: MessageCatalog;
+}
+
+/** 规则执行过程的日志输出（Action 写入日志，库调用默认丢弃） */
+export type VersionLog = (message: string) => void;
+
+const silent: VersionLog = () => {};
+
+/**
+ * 计算版本所需的 PR 信息
+ */
+export interface VersionPRInfo {
+  labels: { name: string }[];
+  title?: string;
+  /** PR 中的提交消息（启用 conventional-commits 时使用） */
+  commitMessages?: string[];
+}
+
+// ==================== 版本号解析 ====================
+
+/**
+ * 安全解析不带前缀的版本号（修复不规范的prerelease格式，如 1.0.0-0-alpha.0 -> 1.0.0-alpha.0）
+ */
+export function parseVersion(version: string): semver.SemVer | null {
+  return semver.parse(version.replace(/-0-(alpha|beta)\./, '-$1.'));
+}
+
+/**
+ * 获取版本的基础版本号（不含预发布标识）
+ */
+export function getBaseVersionString(version: string): string {
+  const parsed = parseVersion(version);
+  if (!parsed) return '0.0.0';
+  return `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+}
+
+/**
+ * 获取通道的标签类型（正式通道为 release）
+ */
+function getChannelTagType(channel: ReleaseChannel): string {
+  return channel.prerelease || 'release';
+}
+
+// ==================== 版本标签索引 ====================
+
+/** 各分支可达的标签（同 `git tag --merged <branch>`），未提供的分支使用全部标签 */
+export type ReachableTags = Readonly<Partial<Record<SupportedBranch, readonly string[]>>>;
+
+/**
+ * 版本标签索引 - 从标签列表解析各通道的最新版本
+ *
+ * 标签按 semver 优先级排序，调用方提供的顺序（同 `git tag --sort=-creatordate`）只用于版本相同时的先后；
+ * 提供分支可达标签时，各分支只使用从该分支可达的标签。返回的版本均不带前缀
+ */
+export class TagIndex {
+  /** 可解析的版本标签（按版本从高到低） */
+  readonly tags: readonly string[];
+  /** 看起来像版本但无法解析的标签（不参与版本计算） */
+  readonly invalidTags: readonly string[];
+  /** 通道链使用的标签（排除维护分支版本范围内的标签，旧版本线的补丁不影响通道链） */
+  readonly channelTags: readonly string[];
+  private readonly versions = new Map<string, semver.SemVer>();
+  private readonly reachable = new Map<SupportedBranch, ReadonlySet<string>>();
+  private readonly latestVersions: Record<SupportedBranch, string | null> = {};
+
+  /**
+   * @param tags 所有版本标签（已按标签前缀过滤）
+   * @param tagPrefix 标签命名空间前缀（如 `v`，monorepo 包为 `name@`）
+   * @param reachableTags 各分支可达的标签
+   */
+  constructor(
+    tags: readonly string[],
+    readonly tagPrefix: string,
+    readonly config: VersionModelConfig,
+    reachableTags: ReachableTags = {},
+  ) {
+    const invalidTags: string[] = [];
+    for (const tag of tags) {
+      const version = this.getTagVersion(tag);
+      const parsed = parseVersion(version);
+      if (parsed) {
+        this.versions.set(tag, parsed);
+      } else if (/^\d/.test(version)) {
+        invalidTags.push(tag);
+      }
+    }
+    this.invalidTags = invalidTags;
+
+    // 排序是稳定的：版本优先级相同时保留调用方提供的创建时间顺序
+    this.tags = tags
+      .filter((tag) => this.versions.has(tag))
+      .sort((a, b) => semver.rcompare(this.versions.get(a)!, this.versions.get(b)!));
+
+    for (const [branch, branchTags] of Object.entries(reachableTags)) {
+      if (branchTags) this.reachable.set(branch, new Set(branchTags));
+    }
+
+    const ranges = config.maintenanceBranches.map((m) => m.range);
+    this.channelTags = this.tags.filter(
+      (tag) => !ranges.some((range) => semver.satisfies(this.versions.get(tag)!, range, { includePrerelease: true })),
+    );
+
+    for (const channel of config.channels) {
+      const latest = this.getReachableTags(channel.branch, this.channelTags).find(
+        (tag) => this.getTagType(tag) === getChannelTagType(channel),
+      );
+      this.latestVersions[channel.branch] = latest ? this.getTagVersion(latest) : null;
+    }
+  }
+
+  /**
+   * 过滤出从分支可达的标签（没有该分支的可达信息时不过滤）
+   */
+  private getReachableTags(branch: SupportedBranch, tags: readonly string[]): readonly string[] {
+    const reachable = this.reachable.get(branch);
+    return reachable ? tags.filter((tag) => reachable.has(tag)) : tags;
+  }
+
+  /**
+   * 去掉标签命名空间前缀，得到版本部分
+   */
+  getTagVersion(tag: string): string {
+    return tag.startsWith(this.tagPrefix) ? tag.slice(this.tagPrefix.length) : tag;
+  }
+
+  /**
+   * 获取指定通道的最新版本
+   */
+  getLatestVersion(branch: SupportedBranch): string | null {
+    return this.latestVersions[branch] || null;
+  }
+
+  /**
+   * 获取版本范围内最高的正式版本（维护分支使用，指定分支时只查找从该分支可达的标签）
+   */
+  getLatestVersionInRange(range: string, branch?: SupportedBranch): string | null {
+    const tags = branch ? this.getReachableTags(branch, this.tags) : this.tags;
+    const latest = tags.find(
+      (tag) => this.getTagType(tag) === 'release' && semver.satisfies(this.versions.get(tag)!, range),
+    );
+    return latest ? this.getTagVersion(latest) : null;
+  }
+
+  /**
+   * 获取通道链的最新tag（按版本号）
+   *
+   * 只考虑从通道分支可达的标签（任一通道缺少可达信息时不过滤）；
+   * 启用热修复时跳过热修复产生的正式版本标签，热修复不改变通道链的晋升状态
+   */
+  getLatestTag(): string | null {
+    const branches = this.config.channels.map((c) => c.branch);
+    const tags = branches.every((branch) => this.reachable.has(branch))
+      ? this.channelTags.filter((tag) => branches.some((branch) => this.reachable.get(branch)!.has(tag)))
+      : this.channelTags;
+    return tags.find((tag) => !this.isHotfixTag(tag)) || null;
+  }
+
+  /**
+   * 是否为热修复标签：没有任何对应预发布版本的正式版本
+   */
+  private isHotfixTag(tag: string): boolean {
+    if (this.config.hotfixBranches.length === 0 || this.getTagType(tag) !== 'release') return false;
+
+    return this.findPrereleaseTags(getBaseVersionString(this.getTagVersion(tag))).length === 0;
+  }
+
+  /**
+   * 查找通道链中基础版本号为指定版本的预发布标签（如 `1.2.1` 对应 `v1.2.1-alpha.0`）
+   */
+  findPrereleaseTags(baseVersion: string): string[] {
+    return this.channelTags.filter(
+      (tag) => this.getTagType(tag) !== 'release' && getBaseVersionString(this.getTagVersion(tag)) === baseVersion,
+    );
+  }
+
+  /**
+   * 获取指定通道中低于当前标签的上一个标签（按版本号，只考虑从该分支可达的标签）
+   */
+  getPreviousTag(branch: SupportedBranch, currentTag: string): string | null {
+    const maintenance = getMaintenanceBranch(branch, this.config.maintenanceBranches);
+    const channel = getChannel(branch, this.config.channels);
+    if (!channel && !maintenance) return null;
+
+    // 维护分支只比较自己版本范围内的正式版本
+    const channelTags = maintenance
+      ? this.tags.filter(
+          (tag) => this.getTagType(tag) === 'release' && semver.satisfies(this.getTagVersion(tag), maintenance.range),
+        )
+      : this.channelTags.filter((tag) => this.getTagType(tag) === getChannelTagType(channel!));
+    const branchTags = this.getReachableTags(branch, channelTags);
+    const currentIndex = branchTags.indexOf(currentTag);
+    if (currentIndex !== -1) return branchTags[currentIndex + 1] || null;
+
+    // 当前标签不在列表中（如尚未创建）时，取低于当前版本的最高标签
+    const current = parseVersion(this.getTagVersion(currentTag));
+    return branchTags.find((tag) => !current || semver.lt(this.versions.get(tag)!, current)) || null;
+  }
+
+  /**
+   * 版本计算所需的标签：各通道和维护分支的最新标签及其上一个标签（没有标签的分支为空列表）
+   *
+   * 浅克隆时只获取这些标签和分支的历史
+   */
+  getRequiredTags(): Record<SupportedBranch, string[]> {
+    const required: Record<SupportedBranch, string[]> = {};
+    const add = (branch: SupportedBranch, version: string | null) => {
+      const tag = version && `${this.tagPrefix}${version}`;
+      const previous = tag && this.getPreviousTag(branch, tag);
+      required[branch] = [tag, previous].filter((t): t is string => !!t);
+    };
+
+    for (const channel of this.config.channels) add(channel.branch, this.getLatestVersion(channel.branch));
+    for (const maintenance of this.config.maintenanceBranches) {
+      add(maintenance.branch, this.getLatestVersionInRange(maintenance.range, maintenance.branch));
+    }
+    return required;
+  }
+
+  /**
+   * 检查tag的类型（正式版本为 release，预发布版本为对应通道的预发布标识）
+   */
+  getTagType(tag: string): string {
+    if (!tag) return 'unknown';
+    const version = this.getTagVersion(tag);
+
+    for (const channel of this.config.channels) {
+      if (channel.prerelease && version.includes(`-${channel.prerelease}.`)) return channel.prerelease;
+    }
+    if (!version.includes('-')) return 'release';
+    return 'unknown';
+  }
+}
+
+// ==================== 发布类型 ====================
+
+/**
+ * 从PR信息推断发布类型：PR标签优先，启用 conventional-commits 时从PR标题和提交推断
+ *
+ * 维护分支只看PR标签（与 Action 一致）
+ */
+export function getReleaseTypeFromPR(
+  config: VersionModelConfig,
+  targetBranch: SupportedBranch,
+  pr: VersionPRInfo | null,
+): ReleaseType | '' {
+  if (!pr) return '';
+
+  const bump = getBumpFromLabels(pr.labels, config.labelRules);
+  if (bump) return `pre${bump}`;
+
+  if (!config.conventionalCommits || getMaintenanceBranch(targetBranch, config.maintenanceBranches)) return '';
+  return getReleaseTypeFromConventionalCommits([pr.title || '', ...(pr.commitMessages || [])]);
+}
+
+// ==================== 晋升规则检查 ====================
+
+/**
+ * 按晋升规则检查合并方向是否允许发布（基于源分支、目标分支和最新tag状态），不允许时抛出错误
+ */
+export function assertPromotionAllowed(
+  index: TagIndex,
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  log = silent,
+): void {
+  const { messages } = index.config;
+  const latestTag = index.getLatestTag();
+  const latestTagType = latestTag ? index.getTagType(latestTag) : 'none';
+  if (latestTag) {
+    log(messages.log.latestTag(latestTag, latestTagType));
+  }
+
+  const check: PromotionCheck = { targetBranch, sourceBranch, latestTag, latestTagType };
+  const rule = matchPromotionRule(check, index.config.promotionRules);
+  if (rule && !rule.builtin) {
+    log(messages.log.promotionRuleMatched(rule.source));
+  }
+  if (rule && !rule.allow) {
+    throw new ActionError(rule.message(check), 'assertPromotionAllowed');
+  }
+
+  log(latestTag ? messages.log.branchAllowed(targetBranch, latestTagType) : messages.log.noTags(targetBranch));
+}
+
+/**
+ * 检查手动发布（workflow_dispatch）是否符合晋升规则，不允许时抛出错误
+ *
+ * 手动发布没有源分支，按从下游通道晋升检查（入口通道没有下游通道，按任意源分支检查），
+ * 例如入口通道的版本线尚未晋升时拒绝手动发布正式版本
+ */
+export function assertManualReleaseAllowed(
+  index: TagIndex,
+  targetBranch: SupportedBranch,
+  actor: string,
+  log = silent,
+): void {
+  const sourceBranch = getDownstreamChannel(targetBranch, index.config.channels)?.branch || '';
+  log(index.config.messages.log.manualPromotionCheck(targetBranch, sourceBranch || '-', actor));
+  assertPromotionAllowed(index, targetBranch, sourceBranch, log);
+}
+
+// ==================== 基础版本 ====================
+
+/**
+ * 获取目标分支的基础版本 - 基于源分支和目标分支在通道链中的位置判断，不符合晋升规则时抛出错误
+ */
+export function resolveBaseVersion(
+  index: TagIndex,
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  log = silent,
+): string | null {
+  const { channels, hotfixBranches, maintenanceBranches, messages } = index.config;
+
+  // 维护分支：只在自己的版本范围内查找正式版本
+  const maintenance = getMaintenanceBranch(targetBranch, maintenanceBranches);
+  if (maintenance) {
+    const maintenanceVersion = index.getLatestVersionInRange(maintenance.range, maintenance.branch);
+    if (!maintenanceVersion) {
+      throw new ActionError(
+        messages.error.maintenanceNoRelease(targetBranch, maintenance.range),
+        'getBaseVersion-maintenance',
+      );
+    }
+    log(messages.log.baseMaintenance(targetBranch, maintenanceVersion, maintenance.range));
+    return maintenanceVersion;
+  }
+
+  if (!getChannel(targetBranch, channels)) return null;
+
+  const downstream = getDownstreamChannel(targetBranch, channels);
+
+  if (!downstream) {
+    // 入口通道：基于正式版本和本通道版本判断
+    const stable = getStableChannel(channels);
+    const currentEntryVersion = index.getLatestVersion(targetBranch);
+    const mainVersion = index.getLatestVersion(stable.branch);
+    const mainBaseVersion = mainVersion ? getBaseVersionString(mainVersion) : '0.0.0';
+
+    if (!currentEntryVersion) {
+      // 没有入口通道版本，基于正式版本开始
+      const baseVersion = mainVersion || DEFAULT_BASE_VERSION;
+      log(messages.log.baseFromStable(targetBranch, baseVersion, stable.branch));
+      return baseVersion;
+    }
+
+    // 比较入口通道基础号和正式版本
+    const entryBaseVersion = getBaseVersionString(currentEntryVersion);
+
+    if (entryBaseVersion === mainBaseVersion) {
+      // 基础号与正式版本一致，说明是新功能要进入测试
+      log(messages.log.baseNewFeature(targetBranch, mainVersion || DEFAULT_BASE_VERSION, stable.branch));
+      return mainVersion || DEFAULT_BASE_VERSION;
+    } else {
+      // 基础号与正式版本不一致，说明已有新功能在测试
+      // 具体的版本计算逻辑（main+label vs current alpha）将在Strategy中处理
+      log(messages.log.baseFeatureInTesting(targetBranch, currentEntryVersion, stable.branch));
+      return currentEntryVersion;
+    }
+  }
+
+  if (isStableChannel(targetBranch, channels)) {
+    // 热修复分支：基于当前正式版本发布补丁
+    if (isHotfixBranch(sourceBranch, hotfixBranches, channels)) {
+      const stableVersion = index.getLatestVersion(targetBranch) || DEFAULT_BASE_VERSION;
+      log(messages.log.baseHotfix(targetBranch, stableVersion, sourceBranch));
+      return stableVersion;
+    }
+
+    // 正式通道：基于下游通道版本（源分支是否允许由晋升规则检查）
+    const downstreamVersion = index.getLatestVersion(downstream.branch);
+    if (!downstreamVersion) {
+      throw new ActionError(
+        messages.error.stableMissingDownstream(targetBranch, downstream.branch),
+        'getBaseVersion-stable',
+      );
+    }
+
+    log(messages.log.baseFromDownstream(targetBranch, downstreamVersion, downstream.branch));
+    return downstreamVersion;
+  }
+
+  // 中间预发布通道：严格基于源分支判断
+  const currentVersion = index.getLatestVersion(targetBranch);
+  const downstreamVersion = index.getLatestVersion(downstream.branch);
+
+  if (sourceBranch === downstream.branch) {
+    // 源分支是下游通道：新功能进入本通道测试
+    if (!downstreamVersion) {
+      throw new ActionError(
+        messages.error.promotionMissingDownstream(targetBranch, downstream.branch),
+        'getBaseVersion-prerelease',
+      );
+    }
+    log(messages.log.basePromotion(targetBranch, downstreamVersion, downstream.branch));
+    return downstreamVersion;
+  }
+
+  // 源分支不是下游通道：本通道版本的增量更新
+  if (!currentVersion) {
+    throw new ActionError(
+      messages.error.prereleaseMissingCurrent(targetBranch, downstream.branch, sourceBranch),
+      'getBaseVersion-prerelease',
+    );
+  }
+
+  // 检查是否有对应基础号的下游版本（确保功能经过了下游测试）
+  if (downstreamVersion) {
+    const currentBaseVersion = getBaseVersionString(currentVersion);
+    const downstreamBaseVersion = getBaseVersionString(downstreamVersion);
+
+    if (currentBaseVersion !== downstreamBaseVersion) {
+      throw new ActionError(
+        messages.error.baseVersionMismatch(targetBranch, currentBaseVersion, downstream.branch, downstreamBaseVersion),
+        'getBaseVersion-prerelease',
+      );
+    }
+  }
+
+  log(messages.log.baseIncrement(targetBranch, currentVersion, downstream.branch));
+  return currentVersion;
+}
+
+// ==================== 版本升级规则定义 ====================
+
+/**
+ * 版本升级上下文
+ */
+export interface VersionUpgradeContext {
+  /** 基础版本（不带前缀，见 resolveBaseVersion） */
+  baseVersion: string;
+  targetBranch: SupportedBranch;
+  sourceBranch: string;
+  /** 发布类型（入口通道和维护分支使用，来自PR标签、提交消息或手动指定） */
+  releaseType: ReleaseType | '';
+  index: TagIndex;
+  log: VersionLog;
+}
+
+/** 版本升级策略名称 */
+export type VersionStrategyName = 'maintenance' | 'entry' | 'prerelease' | 'stable';
+
+/**
+ * 版本升级结果
+ */
+export interface VersionUpgradeResult {
+  /** 新版本号（不带前缀），不需要升级时为 null */
+  version: string | null;
+  /** 使用的策略，没有适用策略时为 null */
+  strategy: VersionStrategyName | null;
+}
+
+/**
+ * 版本升级策略接口
+ */
+interface VersionUpgradeStrategy {
+  canHandle(context: VersionUpgradeContext): boolean;
+  execute(context: VersionUpgradeContext): string | null;
+  name: VersionStrategyName;
+}
+
+/**
+ * 入口通道策略（默认 alpha） - 基于PR标签处理
+ */
+class EntryChannelStrategy implements VersionUpgradeStrategy {
+  canHandle(context: VersionUpgradeContext): boolean {
+    return isEntryChannel(context.targetBranch, context.index.config.channels);
+  }
+
+  execute(context: VersionUpgradeContext): string | null {
+    const { releaseType, targetBranch, index, log } = context;
+    if (!releaseType) {
+      return null;
+    }
+
+    // 🚫 晋升规则检查：是否允许入口通道开发
+    assertPromotionAllowed(index, targetBranch, context.sourceBranch, log);
+
+    return this.calculateEntryVersion(context, releaseType);
+  }
+
+  private calculateEntryVersion(context: VersionUpgradeContext, releaseType: ReleaseType): string {
+    const { baseVersion, targetBranch, index, log } = context;
+    const { messages } = index.config;
+    const stable = getStableChannel(index.config.channels);
+    const prereleaseId = getChannel(targetBranch, index.config.channels)!.prerelease!;
+
+    // 获取正式通道的版本作为基础
+    const mainVersion = index.getLatestVersion(stable.branch);
+    const mainBaseVersion = mainVersion ? getBaseVersionString(mainVersion) : '0.0.0';
+
+    // 将prerelease类型转换为对应的正式版本类型
+    const baseReleaseType: ReleaseType =
+      releaseType === 'premajor'
+        ? 'major'
+        : releaseType === 'preminor'
+          ? 'minor'
+          : releaseType === 'prepatch'
+            ? 'patch'
+            : releaseType;
+
+    // 根据标签类型从正式版本推导目标基础版本号
+    const targetBaseVersion = semver.inc(mainBaseVersion, baseReleaseType);
+    if (!targetBaseVersion) {
+      log(messages.log.entryTargetUnresolved(releaseType, stable.branch, mainBaseVersion));
+      return baseVersion;
+    }
+
+    log(messages.log.entryTargetResolved(releaseType, stable.branch, mainBaseVersion, targetBaseVersion));
+
+    // 获取当前入口通道的最新版本
+    const currentEntryVersion = index.getLatestVersion(targetBranch);
+    const currentEntryBaseVersion = currentEntryVersion ? getBaseVersionString(currentEntryVersion) : '0.0.0';
+
+    // 判断入口通道基础号与正式版本基础号的关系
+    if (currentEntryBaseVersion === mainBaseVersion) {
+      // 基础号与正式版本一致，说明是新功能进入测试，直接使用目标版本
+      const newEntryVersion = `${targetBaseVersion}-${prereleaseId}.0`;
+      log(messages.log.entryNewFeature(targetBranch, stable.branch, newEntryVersion));
+      return newEntryVersion;
+    } else {
+      // 基础号与正式版本不一致，说明已有新功能在测试
+      // 比较 main+label 和当前入口通道版本，取版本号高的
+
+      if (semver.gt(targetBaseVersion, currentEntryBaseVersion)) {
+        // main+label 版本更高，修改基础号并重置测试号
+        const newEntryVersion = `${targetBaseVersion}-${prereleaseId}.0`;
+        log(messages.log.entryResetLine(targetBranch, targetBaseVersion, currentEntryBaseVersion, newEntryVersion));
+        return newEntryVersion;
+      } else {
+        // main+label 版本不高于当前入口通道版本，增加测试号计数
+        const incrementedVersion = semver.inc(currentEntryVersion!, 'prerelease', prereleaseId);
+        log(messages.log.entryIncrement(targetBranch, targetBaseVersion, currentEntryBaseVersion, incrementedVersion));
+        return incrementedVersion || currentEntryVersion!;
+      }
+    }
+  }
+
+  name: VersionStrategyName = 'entry';
+}
+
+/**
+ * 中间预发布通道策略（默认 beta） - 基于源分支判断处理方式
+ */
+class PrereleaseChannelStrategy implements VersionUpgradeStrategy {
+  canHandle(context: VersionUpgradeContext): boolean {
+    const { channels } = context.index.config;
+    return !isEntryChannel(context.targetBranch, channels) && !isStableChannel(context.targetBranch, channels);
+  }
+
+  execute(context: VersionUpgradeContext): string | null {
+    const { sourceBranch, targetBranch, baseVersion, index, log } = context;
+    const prereleaseId = getChannel(targetBranch, index.config.channels)!.prerelease!;
+    const downstream = getDownstreamChannel(targetBranch, index.config.channels)!;
+
+    // 🚫 晋升规则检查：是否允许预发布通道操作
+    assertPromotionAllowed(index, targetBranch, sourceBranch, log);
+
+    if (sourceBranch === downstream.branch) {
+      // 源分支是下游通道：取下游通道的基础号并重置测试号
+      const downstreamBaseVersion = getBaseVersionString(baseVersion);
+      const newVersion = `${downstreamBaseVersion}-${prereleaseId}.0`;
+      log(index.config.messages.log.prereleasePromote(downstream.branch, targetBranch, baseVersion, newVersion));
+      return newVersion;
+    } else {
+      // 源分支不是下游通道：递增测试号
+      const incrementedVersion = semver.inc(baseVersion, 'prerelease', prereleaseId);
+      log(index.config.messages.log.prereleaseIncrement(targetBranch, baseVersion, incrementedVersion, sourceBranch));
+      return incrementedVersion || baseVersion;
+    }
+  }
+
+  name: VersionStrategyName = 'prerelease';
+}
+
+/**
+ * 正式通道策略（默认 main） - 只接受下游通道来源
+ */
+class StableChannelStrategy implements VersionUpgradeStrategy {
+  canHandle(context: VersionUpgradeContext): boolean {
+    return isStableChannel(context.targetBranch, context.index.config.channels);
+  }
+
+  execute(context: VersionUpgradeContext): string | null {
+    const { baseVersion, targetBranch, sourceBranch, index, log } = context;
+
+    // 🚫 晋升规则检查：是否允许正式发布（内置规则允许热修复分支）
+    assertPromotionAllowed(index, targetBranch, sourceBranch, log);
+
+    // 🚑 热修复：在当前正式版本上直接发布补丁版本，不需要下游通道的测试版本
+    if (isHotfixBranch(sourceBranch, index.config.hotfixBranches, index.config.channels)) {
+      const patchVersion = semver.inc(baseVersion, 'patch');
+      // 补丁版本已有进行中的预发布版本线（如 1.2.1-alpha.N）时拒绝，否则该版本线晋升时会与热修复版本重复
+      const inFlight = patchVersion ? index.findPrereleaseTags(patchVersion) : [];
+      if (inFlight.length > 0) {
+        throw new ActionError(
+          index.config.messages.error.hotfixCollidesWithPrerelease(patchVersion!, inFlight.join(', ')),
+          'StableChannelStrategy',
+        );
+      }
+      log(index.config.messages.log.hotfixPatch(sourceBranch, baseVersion, patchVersion));
+      return patchVersion;
+    }
+
+    // 从下游通道转换为正式版本：取预发布版本的基础号作为正式版本号
+    const releaseVersion = getBaseVersionString(baseVersion);
+
+    log(index.config.messages.log.stableRelease(baseVersion, releaseVersion));
+    return releaseVersion;
+  }
+
+  name: VersionStrategyName = 'stable';
+}
+
+/**
+ * 维护分支策略（如 2.x） - 只发布补丁版本
+ */
+class MaintenanceBranchStrategy implements VersionUpgradeStrategy {
+  canHandle(context: VersionUpgradeContext): boolean {
+    return !!getMaintenanceBranch(context.targetBranch, context.index.config.maintenanceBranches);
+  }
+
+  execute(context: VersionUpgradeContext): string | null {
+    const { baseVersion, targetBranch, releaseType, index, log } = context;
+    const maintenance = getMaintenanceBranch(targetBranch, index.config.maintenanceBranches)!;
+
+    // 标签要求 minor/major 时拒绝，避免把不兼容的变更作为补丁发布
+    if (releaseType && !/patch$|^prerelease$/.test(releaseType)) {
+      throw new ActionError(
+        index.config.messages.error.maintenancePatchOnly(targetBranch, releaseType),
+        'MaintenanceBranchStrategy',
+      );
+    }
+
+    const patchVersion = semver.inc(baseVersion, 'patch');
+    log(index.config.messages.log.maintenancePatch(targetBranch, maintenance.range, baseVersion, patchVersion));
+    return patchVersion;
+  }
+
+  name: VersionStrategyName = 'maintenance';
+}
+
+/** 版本升级策略（按顺序匹配） */
+const UPGRADE_STRATEGIES: readonly VersionUpgradeStrategy[] = [
+  new MaintenanceBranchStrategy(),
+  new EntryChannelStrategy(),
+  new PrereleaseChannelStrategy(),
+  new StableChannelStrategy(),
+];
+
+/**
+ * 计算新版本号（不带前缀）及使用的策略，不符合晋升规则时抛出错误
+ */
+export function resolveNextVersion(context: VersionUpgradeContext): VersionUpgradeResult {
+  const { messages } = context.index.config;
+  if (!parseVersion(context.baseVersion)) {
+    context.log(messages.log.invalidBaseVersion(context.baseVersion));
+    return { version: null, strategy: null };
+  }
+
+  for (const strategy of UPGRADE_STRATEGIES) {
+    if (strategy.canHandle(context)) {
+      context.log(messages.log.strategySelected(messages.log.strategies[strategy.name]));
+      return { version: strategy.execute(context), strategy: strategy.name };
+    }
+  }
+
+  context.log(messages.log.strategyNotFound);
+  return { version: null, strategy: null };
+}
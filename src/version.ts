@@ -1,17 +1,46 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
 import { exec } from '@actions/exec';
-import { readPackageJSON, resolvePackageJSON, writePackageJSON } from 'pkg-types';
 import semver, { type ReleaseType } from 'semver';
+import {
+  describeReleaseChannels,
+  getChannel,
+  getDefaultChannelVersion,
+  getDownstreamChannel,
+  getStableChannel,
+  isEntryChannel,
+} from './channel';
+import { getActionConfig } from './config';
 import { logger } from './core';
-import { createErrorComment, PRUtils } from './pr';
+import { MESSAGES } from './i18n';
+import { syncLockfiles } from './lockfile';
+import { isMaintenanceBranch } from './maintenance';
+import { createErrorComment, determineReleaseType, PRUtils } from './pr';
+import { fetchTagHistory, hasOriginRemote, isShallowRepository, resolveRemoteTags } from './tag-source';
 import {
   ActionError,
-  DEFAULT_VERSIONS,
-  type PRData,
+  DEFAULT_BASE_VERSION,
+  type ManualReleaseRequest,
+  type ReleaseChannel,
   type SupportedBranch,
-  VERSION_PREFIX_CONFIG,
   type VersionInfo,
+  type VersionPRData,
   type VersionSummary,
 } from './types';
+import { writeVersionFiles } from './version-files';
+import {
+  assertManualReleaseAllowed,
+  getBaseVersionString,
+  parseVersion,
+  type ReachableTags,
+  resolveBaseVersion,
+  resolveNextVersion,
+  TagIndex,
+  type VersionStrategyName,
+} from './version-model';
+
+/** 兼容的版本前缀（清理版本号时识别） */
+const SUPPORTED_VERSION_PREFIXES = ['v', 'version-', 'ver-', 'rel-'];
 
 // ==================== 错误处理辅助函数 ====================
 
@@ -21,7 +50,7 @@ import {
 async function throwErrorWithComment(
   errorMsg: string,
   context: string,
-  pr: PRData | null = null,
+  pr: VersionPRData | null = null,
   originalError?: unknown,
 ): Promise<never> {
   // 尝试创建PR评论
@@ -30,9 +59,9 @@ async function throwErrorWithComment(
     if (prNumber) {
       try {
         await createErrorComment(prNumber, errorMsg);
-        logger.info(`已在 PR #${prNumber} 创建错误评论`);
+        logger.info(MESSAGES.log.errorCommentCreated(prNumber));
       } catch (commentError) {
-        logger.warning(`创建PR错误评论失败: ${commentError}`);
+        logger.warning(MESSAGES.log.errorCommentFailed(commentError));
       }
     }
   }
@@ -41,6 +70,19 @@ async function throwErrorWithComment(
   throw new ActionError(errorMsg, context, originalError);
 }
 
+/**
+ * 执行版本规则计算，规则不满足时输出错误并创建PR评论
+ */
+async function applyVersionRules<T>(calculate: () => T, pr: VersionPRData | null): Promise<T> {
+  try {
+    return calculate();
+  } catch (error) {
+    if (!(error instanceof ActionError)) throw error;
+    logger.error(`❌ ${error.message}`);
+    return await throwErrorWithComment(error.message, error.context, pr);
+  }
+}
+
 // ==================== 版本工具类 ====================
 
 /**
@@ -51,7 +93,7 @@ export class VersionUtils {
    * 获取当前使用的版本前缀
    */
   static getVersionPrefix(): string {
-    return VERSION_PREFIX_CONFIG.custom;
+    return getActionConfig().tagPrefix;
   }
 
   /**
@@ -72,9 +114,9 @@ export class VersionUtils {
     }
 
     // 兼容处理：如果不是当前前缀，尝试清理支持的前缀
-    for (const supportedPrefix of VERSION_PREFIX_CONFIG.supported) {
+    for (const supportedPrefix of SUPPORTED_VERSION_PREFIXES) {
       if (version.startsWith(supportedPrefix)) {
-        logger.warning(`版本 ${version} 使用了非标准前缀 "${supportedPrefix}"，建议统一使用 "${prefix}"`);
+        logger.warning(MESSAGES.log.nonStandardPrefix(version, supportedPrefix, prefix));
         return version.slice(supportedPrefix.length);
       }
     }
@@ -101,21 +143,14 @@ export class VersionUtils {
    * 安全解析版本号（处理不规范的prerelease格式）
    */
   static parseVersion(version: string): semver.SemVer | null {
-    let cleanVersion = VersionUtils.cleanVersion(version);
-
-    // 修复不规范的prerelease格式（如 1.0.0-0-alpha.0 -> 1.0.0-alpha.0）
-    cleanVersion = cleanVersion.replace(/-0-(alpha|beta)\./, '-$1.');
-
-    return semver.parse(cleanVersion);
+    return parseVersion(VersionUtils.cleanVersion(version));
   }
 
   /**
    * 获取版本的基础版本号（不含预发布标识）
    */
   static getBaseVersionString(version: string): string {
-    const parsed = VersionUtils.parseVersion(version);
-    if (!parsed) return '0.0.0';
-    return `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+    return getBaseVersionString(VersionUtils.cleanVersion(version));
   }
 
   /**
@@ -143,8 +178,8 @@ export class VersionUtils {
   /**
    * 创建默认版本（带正确前缀）
    */
-  static createDefaultVersion(type: keyof typeof DEFAULT_VERSIONS = 'base'): string {
-    return VersionUtils.addVersionPrefix(DEFAULT_VERSIONS[type]);
+  static createDefaultVersion(): string {
+    return VersionUtils.addVersionPrefix(DEFAULT_BASE_VERSION);
   }
 
   /**
@@ -179,96 +214,127 @@ export class VersionUtils {
 // ==================== 版本缓存机制 ====================
 
 /**
- * 版本缓存接口
- */
-interface VersionCache {
-  main?: string | null;
-  beta?: string | null;
-  alpha?: string | null;
-}
-
-/**
- * 版本管理器 - 统一版本查询和缓存
+ * 版本管理器 - 从仓库读取标签并缓存标签索引（版本规则见 version-model.ts）
  */
 class VersionManager {
-  private cache: VersionCache = {};
-  private isInitialized = false;
+  private index: TagIndex | null = null;
+  /** 从远程解析的标签（浅克隆或没有本地标签时） */
+  private remoteTags: readonly string[] | null = null;
+  private tagSourceResolved = false;
+
+  /**
+   * @param tagPrefix 标签命名空间前缀（默认为版本前缀，monorepo 包为 `name@`）
+   */
+  constructor(private readonly tagPrefix: string = VersionUtils.getVersionPrefix()) {}
 
   /**
    * 初始化版本缓存 - 一次性获取所有版本信息
    */
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+  async getTagIndex(): Promise<TagIndex> {
+    if (this.index) return this.index;
 
-    logger.info('🔍 初始化版本信息...');
+    const { channels } = getActionConfig();
+    logger.info(MESSAGES.log.versionInit(this.tagPrefix, describeReleaseChannels(channels)));
 
     // 一次性获取所有标签，避免重复查询
-    const allTags = await this.getAllTags();
+    const index = await this.loadTagIndex();
 
-    if (allTags.length === 0) {
-      logger.info('📝 未找到任何版本标签，将使用默认版本');
+    if (index.channelTags.length === 0) {
+      logger.info(MESSAGES.log.versionNoTags);
     } else {
-      logger.info(`📋 找到 ${allTags.length} 个版本标签`);
+      logger.info(MESSAGES.log.versionTagsFound(index.channelTags.length));
     }
 
-    // 解析各分支的最新版本
-    this.cache.main = this.parseMainVersion(allTags);
-    this.cache.beta = this.parseBranchVersion(allTags, 'beta');
-    this.cache.alpha = this.parseBranchVersion(allTags, 'alpha');
-
     logger.info(
-      `📊 版本概览: main=${this.cache.main || '无'}, beta=${this.cache.beta || '无'}, alpha=${this.cache.alpha || '无'}`,
+      MESSAGES.log.versionOverview(channels.map((c) => [c.branch, this.toVersion(index.getLatestVersion(c.branch))])),
     );
 
-    this.isInitialized = true;
+    this.index = index;
+    return index;
   }
 
   /**
-   * 一次性获取所有版本标签（按时间倒序排列）
+   * 获取所有版本标签和各分支可达的标签并建立索引（索引按版本号排序，创建时间只用于版本相同时的先后）
    */
-  private async getAllTags(): Promise<string[]> {
-    const prefix = VersionUtils.getVersionPrefix();
-    // 使用 --sort=-creatordate 按创建时间倒序排列，最新的tag在前面
-    const stdout = await execGitWithOutput(['tag', '-l', `${prefix}*`, '--sort=-creatordate']);
-    return stdout.split('\n').filter((tag) => tag.trim().length > 0);
+  private async loadTagIndex(): Promise<TagIndex> {
+    const pattern = `${this.tagPrefix}*`;
+    const tags = await this.listTags(pattern);
+    const index = new TagIndex(tags, this.tagPrefix, getActionConfig(), await this.loadReachableTags(pattern));
+    if (index.invalidTags.length > 0) {
+      logger.warning(MESSAGES.log.invalidVersionTags([...index.invalidTags]));
+    }
+    return index;
+  }
+
+  /**
+   * 获取版本标签（本地标签按创建时间倒序在前）
+   *
+   * 浅克隆或没有本地标签（且有 origin 远程）时从远程解析标签，并只获取版本计算和后续同步所需的标签历史（每个管理器只解析一次）
+   */
+  private async listTags(pattern: string): Promise<string[]> {
+    const localTags = await execGitLines(['tag', '-l', pattern, '--sort=-creatordate']);
+    if (!this.tagSourceResolved) {
+      this.tagSourceResolved = true;
+      const shallow = await isShallowRepository();
+      if (shallow || (localTags.length === 0 && (await hasOriginRemote()))) {
+        logger.info(MESSAGES.log.remoteTagSource(shallow));
+        this.remoteTags = await resolveRemoteTags(pattern, this.tagPrefix);
+        await fetchTagHistory(new TagIndex(this.remoteTags, this.tagPrefix, getActionConfig()).getRequiredTags());
+      }
+    }
+
+    const local = new Set(localTags);
+    return [...localTags, ...(this.remoteTags || []).filter((tag) => !local.has(tag))];
   }
 
   /**
-   * 解析主分支版本（排除预发布版本）
+   * 获取通道分支和维护分支可达的标签（本地分支和远程分支的并集，分支不存在时不限制）
    */
-  private parseMainVersion(tags: string[]): string | null {
-    const mainTags = tags.filter((tag) => !tag.includes('-'));
-    const latest = mainTags[0] || null;
-    return latest ? VersionUtils.normalizeVersion(latest) : null;
+  private async loadReachableTags(pattern: string): Promise<ReachableTags> {
+    const refs = new Set(
+      await execGitLines(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes/origin']),
+    );
+    const { channels, maintenanceBranches } = getActionConfig();
+    const branches = [...channels.map((c) => c.branch), ...maintenanceBranches.map((m) => m.branch)];
+    const reachableTags: Record<SupportedBranch, string[]> = {};
+
+    for (const branch of branches) {
+      const branchRefs = [`refs/heads/${branch}`, `refs/remotes/origin/${branch}`].filter((ref) => refs.has(ref));
+      if (branchRefs.length === 0) {
+        logger.warning(MESSAGES.log.reachableTagsUnavailable(branch));
+        continue;
+      }
+      const merged = branchRefs.flatMap((ref) => ['--merged', ref]);
+      reachableTags[branch] = await execGitLines(['tag', '-l', pattern, ...merged]);
+    }
+    return reachableTags;
   }
 
   /**
-   * 解析 beta/alpha 分支版本
+   * 将索引中的版本转换为带前缀的版本号
    */
-  private parseBranchVersion(tags: string[], branchSuffix: string): string | null {
-    const branchTags = tags.filter((tag) => tag.includes(`-${branchSuffix}.`));
-    const latest = branchTags[0] || null;
-    return latest ? VersionUtils.normalizeVersion(latest) : null;
+  private toVersion(version: string | null): string | null {
+    return version ? VersionUtils.normalizeVersion(version) : null;
   }
 
   /**
    * 获取指定分支的最新版本
    */
-  async getLatestVersion(branch: 'main' | 'beta' | 'alpha'): Promise<string | null> {
-    await this.initialize();
-    return this.cache[branch] || null;
+  async getLatestVersion(branch: SupportedBranch): Promise<string | null> {
+    return this.toVersion((await this.getTagIndex()).getLatestVersion(branch));
   }
 
   /**
    * 获取全局最高基础版本
    */
   async getGlobalHighestVersion(): Promise<string> {
-    await this.initialize();
-
-    const versions = [this.cache.main, this.cache.beta, this.cache.alpha].filter(Boolean);
+    const index = await this.getTagIndex();
+    const versions = getActionConfig()
+      .channels.map((c) => index.getLatestVersion(c.branch))
+      .filter(Boolean);
 
     if (versions.length === 0) {
-      return VersionUtils.createDefaultVersion('base');
+      return VersionUtils.createDefaultVersion();
     }
 
     // 找到最高的基础版本号
@@ -281,90 +347,50 @@ class VersionManager {
     }
 
     const result = VersionUtils.addVersionPrefix(highestBaseVersion);
-    logger.info(`🏆 全局最高基础版本: ${result}`);
+    logger.info(MESSAGES.log.highestBaseVersion(result));
     return result;
   }
 
   /**
-   * 获取最新的tag（按创建时间）
+   * 获取指定通道中早于当前标签的上一个标签（重新读取标签，包含本次运行创建的标签）
    */
-  async getLatestTag(): Promise<string | null> {
-    const allTags = await this.getAllTags();
-    return allTags.length > 0 ? allTags[0] : null;
-  }
-
-  /**
-   * 检查tag的类型
-   */
-  getTagType(tag: string): 'release' | 'beta' | 'alpha' | 'unknown' {
-    if (!tag) return 'unknown';
-
-    if (tag.includes('-alpha.')) return 'alpha';
-    if (tag.includes('-beta.')) return 'beta';
-    if (!tag.includes('-')) return 'release';
-    return 'unknown';
+  async getPreviousTag(branch: SupportedBranch, currentTag: string): Promise<string | null> {
+    return (await this.loadTagIndex()).getPreviousTag(branch, currentTag);
   }
 
   /**
    * 清除缓存（用于测试或重新初始化）
    */
   clearCache(): void {
-    this.cache = {};
-    this.isInitialized = false;
+    this.index = null;
   }
 }
 
-// 全局版本管理器实例
-const versionManager = new VersionManager();
-
-// ==================== 版本状态验证 ====================
+// 按标签前缀缓存的版本管理器实例
+const versionManagers = new Map<string, VersionManager>();
 
 /**
- * 验证目标分支是否允许进行版本升级（基于最新tag状态）
+ * 获取指定标签命名空间的版本管理器
  */
-async function validateBranchVersionState(targetBranch: SupportedBranch, pr: PRData | null = null): Promise<void> {
-  const latestTag = await versionManager.getLatestTag();
-
-  if (!latestTag) {
-    // 没有任何tag，允许任何分支开始
-    logger.info(`📋 项目无版本标签，允许 ${targetBranch} 分支开始开发`);
-    return;
-  }
-
-  const latestTagType = versionManager.getTagType(latestTag);
-  logger.info(`📋 最新版本标签: ${latestTag} (类型: ${latestTagType})`);
-
-  // 基于最新tag类型和目标分支检查是否允许
-  switch (targetBranch) {
-    case 'alpha':
-      // Alpha分支：只接受来自正式版本或Alpha版本
-      if (latestTagType !== 'release' && latestTagType !== 'alpha') {
-        const errorMsg = `Alpha分支只能在正式版本或Alpha版本后继续开发，当前最新版本: ${latestTag} (${latestTagType})`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'validateBranchVersionState', pr);
-      }
-      break;
-
-    case 'beta':
-      // Beta分支：只接受来自Alpha版本或Beta版本
-      if (latestTagType !== 'alpha' && latestTagType !== 'beta') {
-        const errorMsg = `Beta分支只能在Alpha版本或Beta版本后继续开发，当前最新版本: ${latestTag} (${latestTagType})`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'validateBranchVersionState', pr);
-      }
-      break;
-
-    case 'main':
-      // Main分支：只接受来自Beta版本
-      if (latestTagType !== 'beta') {
-        const errorMsg = `Main分支只能在Beta测试完成后发布，当前最新版本: ${latestTag} (${latestTagType})`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'validateBranchVersionState', pr);
-      }
-      break;
+function getVersionManager(tagPrefix: string = VersionUtils.getVersionPrefix()): VersionManager {
+  let manager = versionManagers.get(tagPrefix);
+  if (!manager) {
+    manager = new VersionManager(tagPrefix);
+    versionManagers.set(tagPrefix, manager);
   }
+  return manager;
+}
 
-  logger.info(`✅ ${targetBranch} 分支允许在当前版本状态 (${latestTagType}) 下进行开发`);
+/**
+ * 重新读取版本标签（发布被并发运行抢先后）：完整克隆时从远程获取最新的分支和标签，
+ * 浅克隆时由新的版本管理器重新从远程解析；所有标签命名空间的缓存都会清除
+ */
+export async function refreshVersionTags(): Promise<void> {
+  logger.info(MESSAGES.log.refreshingTags);
+  if (!(await isShallowRepository())) {
+    await execGitLines(['fetch', '--tags', '--force', 'origin']);
+  }
+  versionManagers.clear();
 }
 
 // ==================== Git 版本操作 ====================
@@ -384,450 +410,318 @@ async function execGitWithOutput(args: string[]): Promise<string> {
   return stdout.trim();
 }
 
+/**
+ * 执行 git 命令并按行返回输出（忽略空行）
+ */
+async function execGitLines(args: string[]): Promise<string[]> {
+  return (await execGitWithOutput(args)).split('\n').filter((line) => line.trim().length > 0);
+}
+
 /**
  * 获取版本信息
  */
-export async function getVersionInfo(targetBranch: SupportedBranch): Promise<VersionInfo> {
-  const currentTagVersion = await versionManager.getLatestVersion(targetBranch === 'main' ? 'main' : targetBranch);
-  const betaTagVersion = await versionManager.getLatestVersion('beta');
+export async function getVersionInfo(
+  targetBranch: SupportedBranch,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+): Promise<VersionInfo> {
+  const versionManager = getVersionManager(tagPrefix);
+  const downstream = getDownstreamChannel(targetBranch, getActionConfig().channels);
+  const currentTagVersion = await versionManager.getLatestVersion(targetBranch);
+  const downstreamTagVersion = downstream ? await versionManager.getLatestVersion(downstream.branch) : null;
 
-  const current = currentTagVersion || DEFAULT_VERSIONS.base;
-  const beta = betaTagVersion || DEFAULT_VERSIONS.beta;
+  const current = currentTagVersion || DEFAULT_BASE_VERSION;
+  const downstreamVersion =
+    downstreamTagVersion || (downstream ? getDefaultChannelVersion(downstream) : DEFAULT_BASE_VERSION);
 
   return {
     current,
-    beta,
+    downstream: downstreamVersion,
     currentTag: currentTagVersion,
-    betaTag: betaTagVersion,
+    downstreamTag: downstreamTagVersion,
   };
 }
 
-// ==================== 版本升级规则定义 ====================
+/**
+ * 获取通道中当前标签之前的上一个同类型标签（用于汇总两次发布之间的变更）
+ */
+export async function getPreviousChannelTag(
+  targetBranch: SupportedBranch,
+  currentTag: string,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+): Promise<string | null> {
+  return getVersionManager(tagPrefix).getPreviousTag(targetBranch, currentTag);
+}
+
+// ==================== 版本升级逻辑 ====================
 
 /**
- * 版本升级策略接口
+ * 获取目标分支的基础版本 - 基于源分支和目标分支在通道链中的位置判断
  */
-interface VersionUpgradeStrategy {
-  canHandle(context: VersionUpgradeContext): boolean;
-  execute(context: VersionUpgradeContext): string | null | Promise<string | null>;
-  description: string;
+export async function getBaseVersion(
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  pr: VersionPRData | null = null,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+): Promise<string | null> {
+  const index = await getVersionManager(tagPrefix).getTagIndex();
+  const baseVersion = await applyVersionRules(
+    () => resolveBaseVersion(index, targetBranch, sourceBranch, logger.info),
+    pr,
+  );
+  return baseVersion ? VersionUtils.normalizeVersion(baseVersion) : null;
 }
 
 /**
- * 版本升级上下文
+ * 获取PR的发布类型：入口通道从PR标签（或 Conventional Commits）推断，维护分支只看PR标签
  */
-interface VersionUpgradeContext {
-  baseVersion: string;
-  targetBranch: SupportedBranch;
-  sourceBranch: string;
-  currentBranchType: string;
-  parsed: semver.SemVer;
-  pr: PRData | null;
+async function getPRReleaseType(pr: VersionPRData | null, targetBranch: SupportedBranch): Promise<ReleaseType | ''> {
+  const { channels, maintenanceBranches } = getActionConfig();
+  if (isMaintenanceBranch(targetBranch, maintenanceBranches)) {
+    return pr ? PRUtils.getReleaseTypeFromLabels(pr.labels) : '';
+  }
+  return isEntryChannel(targetBranch, channels) ? await determineReleaseType(pr, targetBranch) : '';
 }
 
 /**
- * 创建版本升级上下文
+ * 版本计划：基础版本、新版本及计算依据
+ */
+export interface VersionPlan {
+  baseVersion: string | null;
+  newVersion: string | null;
+  /** 入口通道和维护分支使用的发布类型（其余通道为空） */
+  releaseType: ReleaseType | '';
+  strategy: VersionStrategyName | null;
+  /** 看起来像版本但无法解析的标签 */
+  invalidTags: string[];
+}
+
+/**
+ * 统一的版本升级计算逻辑 - 使用策略模式
  */
-function createUpgradeContext(
+async function calculateVersionUpgrade(
   baseVersion: string,
   targetBranch: SupportedBranch,
   sourceBranch: string,
-  pr: PRData | null,
-): VersionUpgradeContext | null {
-  const parsed = VersionUtils.parseVersion(baseVersion);
-  if (!parsed) return null;
-
-  const isPrerelease = parsed.prerelease && parsed.prerelease.length > 0;
-  const currentBranchType = isPrerelease ? (parsed.prerelease[0] as string) : 'release';
-
-  return {
-    baseVersion: VersionUtils.cleanVersion(baseVersion),
-    targetBranch,
-    sourceBranch,
-    currentBranchType,
-    parsed,
+  pr: VersionPRData | null,
+  tagPrefix: string,
+  releaseType?: ReleaseType,
+): Promise<Omit<VersionPlan, 'baseVersion' | 'invalidTags'>> {
+  const index = await getVersionManager(tagPrefix).getTagIndex();
+
+  // 指定发布类型时（手动发布、无关联PR的推送）不再从PR推断
+  const upgradeReleaseType = releaseType || (await getPRReleaseType(pr, targetBranch));
+  const { version, strategy } = await applyVersionRules(
+    () =>
+      resolveNextVersion({
+        baseVersion: VersionUtils.cleanVersion(baseVersion),
+        targetBranch,
+        sourceBranch,
+        releaseType: upgradeReleaseType,
+        index,
+        log: logger.info,
+      }),
     pr,
+  );
+  return {
+    newVersion: version ? VersionUtils.addVersionPrefix(version) : null,
+    releaseType: upgradeReleaseType,
+    strategy,
   };
 }
 
 /**
- * Alpha分支策略 - 基于PR标签处理
+ * 计算版本计划 - 统一版本升级逻辑
+ *
+ * releaseType 用于没有PR标签可用的场景（如无关联PR的推送），指定后入口通道不再从PR推断发布类型
  */
-class AlphaStrategy implements VersionUpgradeStrategy {
-  canHandle(context: VersionUpgradeContext): boolean {
-    return context.targetBranch === 'alpha';
-  }
-
-  async execute(context: VersionUpgradeContext): Promise<string | null> {
-    const { pr } = context;
-
-    // 检查PR标签
-    if (!pr?.labels || pr.labels.length === 0) {
-      logger.info(`📛 Alpha分支无PR标签，跳过版本升级`);
-      return null;
-    }
-
-    // 从PR标签获取发布类型
-    const releaseType = this.getReleaseTypeFromLabels(pr.labels);
-    if (!releaseType) {
-      const labelNames = pr.labels.map((l) => l.name).join(', ');
-      logger.info(`📝 PR #${pr.number} 有标签但无版本标签: [${labelNames}]，跳过版本升级`);
-      return null;
-    }
-
-    // 🚫 业务规则检查：基于最新tag状态验证是否允许Alpha开发
-    await validateBranchVersionState('alpha', pr);
-
-    logger.info(`✅ 使用PR标签: ${releaseType} (来源: PR #${pr.number})`);
-    return await this.calculateAlphaVersion(context, releaseType);
-  }
-
-  private getReleaseTypeFromLabels(labels: { name: string }[]): ReleaseType | null {
-    const labelNames = labels.map((label) => label.name);
-
-    if (labelNames.includes('major')) {
-      logger.info('检测到 major 标签，使用 premajor 发布类型');
-      return 'premajor';
-    } else if (labelNames.includes('minor')) {
-      logger.info('检测到 minor 标签，使用 preminor 发布类型');
-      return 'preminor';
-    } else if (labelNames.includes('patch')) {
-      logger.info('检测到 patch 标签，使用 prepatch 发布类型');
-      return 'prepatch';
-    }
-
-    return null;
-  }
+export async function calculateVersionPlan(
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  pr: VersionPRData | null,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+  releaseType?: ReleaseType,
+): Promise<VersionPlan> {
+  try {
+    const invalidTags = [...(await getVersionManager(tagPrefix).getTagIndex()).invalidTags];
 
-  private async calculateAlphaVersion(context: VersionUpgradeContext, releaseType: ReleaseType): Promise<string> {
-    const { baseVersion } = context;
-
-    // 获取Main分支的版本作为基础
-    const mainVersion = await versionManager.getLatestVersion('main');
-    const mainBaseVersion = mainVersion ? VersionUtils.getBaseVersionString(mainVersion) : '0.0.0';
-
-    // 将prerelease类型转换为对应的正式版本类型
-    const baseReleaseType: ReleaseType =
-      releaseType === 'premajor'
-        ? 'major'
-        : releaseType === 'preminor'
-          ? 'minor'
-          : releaseType === 'prepatch'
-            ? 'patch'
-            : releaseType;
-
-    // 根据标签类型从Main版本推导目标基础版本号
-    const targetBaseVersion = semver.inc(mainBaseVersion, baseReleaseType);
-    if (!targetBaseVersion) {
-      logger.error(`无法根据标签 ${releaseType} 从Main版本 ${mainBaseVersion} 推导目标版本`);
-      return baseVersion;
+    // 获取上游分支的版本作为基础版本
+    const baseVersion = await getBaseVersion(targetBranch, sourceBranch, pr, tagPrefix);
+    if (!baseVersion) {
+      logger.error(MESSAGES.log.baseVersionUnavailable(targetBranch));
+      return { baseVersion: null, newVersion: null, releaseType: '', strategy: null, invalidTags };
     }
 
-    logger.info(`🏷️ 根据标签 ${releaseType} 从Main版本推导目标版本: ${mainBaseVersion} -> ${targetBaseVersion}`);
+    logger.info(MESSAGES.log.baseVersionResolved(targetBranch, baseVersion));
 
-    // 获取当前Alpha分支的最新版本
-    const currentAlphaVersion = await versionManager.getLatestVersion('alpha');
-    const currentAlphaBaseVersion = currentAlphaVersion
-      ? VersionUtils.getBaseVersionString(currentAlphaVersion)
-      : '0.0.0';
+    // 统一的版本升级逻辑
+    const upgrade = await calculateVersionUpgrade(baseVersion, targetBranch, sourceBranch, pr, tagPrefix, releaseType);
 
-    // 判断Alpha基础号与Main基础号的关系
-    if (currentAlphaBaseVersion === mainBaseVersion) {
-      // Alpha基础号与Main一致，说明是新功能进入Alpha测试，直接使用目标版本
-      const newAlphaVersion = `${targetBaseVersion}-alpha.0`;
-      logger.info(`🆕 Alpha基础号与Main一致，创建新功能Alpha版本: ${newAlphaVersion}`);
-      return newAlphaVersion;
+    if (upgrade.newVersion) {
+      logger.info(MESSAGES.log.versionCalculated(upgrade.newVersion));
     } else {
-      // Alpha基础号与Main不一致，说明已有新功能在Alpha测试
-      // 比较 main+label 和当前 alpha 版本，取版本号高的
-
-      if (semver.gt(targetBaseVersion, currentAlphaBaseVersion)) {
-        // main+label 版本更高，修改基础号并重置测试号
-        const newAlphaVersion = `${targetBaseVersion}-alpha.0`;
-        logger.info(
-          `🔼 目标版本高于当前Alpha基础版本 (${targetBaseVersion} > ${currentAlphaBaseVersion})，重置版本线: ${newAlphaVersion}`,
-        );
-        return newAlphaVersion;
-      } else {
-        // main+label 版本不高于当前alpha，增加测试号计数
-        const incrementedVersion = semver.inc(currentAlphaVersion!, 'prerelease', 'alpha');
-        logger.info(
-          `🔄 目标版本不高于当前Alpha基础版本 (${targetBaseVersion} <= ${currentAlphaBaseVersion})，递增测试号: ${incrementedVersion}`,
-        );
-        return incrementedVersion || currentAlphaVersion!;
-      }
+      logger.info(MESSAGES.log.versionUnchanged);
     }
-  }
 
-  description = 'Alpha分支基于PR标签处理版本升级';
+    return { baseVersion, ...upgrade, invalidTags };
+  } catch (error) {
+    throw new ActionError(MESSAGES.error.versionCalculationFailed(error), 'calculateNewVersion', error);
+  }
 }
 
 /**
- * Beta分支策略 - 基于源分支判断处理方式
+ * 计算新版本号（见 calculateVersionPlan）
  */
-class BetaStrategy implements VersionUpgradeStrategy {
-  canHandle(context: VersionUpgradeContext): boolean {
-    return context.targetBranch === 'beta';
-  }
-
-  async execute(context: VersionUpgradeContext): Promise<string | null> {
-    const { sourceBranch, baseVersion, pr } = context;
-
-    // 🚫 业务规则检查：基于最新tag状态验证Beta分支操作
-    await validateBranchVersionState('beta', pr);
-
-    if (sourceBranch === 'alpha') {
-      // 源分支是Alpha：取Alpha的基础号并重置测试号
-      const alphaBaseVersion = VersionUtils.getBaseVersionString(baseVersion);
-      const newBetaVersion = `${alphaBaseVersion}-beta.0`;
-      logger.info(`🆕 从Alpha创建/升级Beta版本: ${baseVersion} -> ${newBetaVersion}`);
-      return newBetaVersion;
-    } else {
-      // 源分支不是Alpha：递增Beta测试号
-      const incrementedVersion = semver.inc(baseVersion, 'prerelease', 'beta');
-      logger.info(`🔄 递增Beta测试号: ${baseVersion} -> ${incrementedVersion} (源分支: ${sourceBranch})`);
-      return incrementedVersion || baseVersion;
-    }
-  }
-
-  description = 'Beta分支基于源分支类型处理版本升级';
+export async function calculateNewVersion(
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  pr: VersionPRData | null,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+  releaseType?: ReleaseType,
+): Promise<string | null> {
+  return (await calculateVersionPlan(targetBranch, sourceBranch, pr, tagPrefix, releaseType)).newVersion;
 }
 
+// ==================== 手动发布 ====================
+
 /**
- * Main分支策略 - 只接受Beta分支来源
+ * 将手动指定的发布类型转换为目标通道适用的类型：预发布通道使用 pre* 类型，正式通道不接受预发布类型
  */
-class MainStrategy implements VersionUpgradeStrategy {
-  canHandle(context: VersionUpgradeContext): boolean {
-    return context.targetBranch === 'main';
+function toChannelReleaseType(releaseType: ReleaseType, channel: ReleaseChannel): ReleaseType {
+  if (channel.prerelease) {
+    return releaseType === 'major' || releaseType === 'minor' || releaseType === 'patch'
+      ? `pre${releaseType}`
+      : releaseType;
   }
 
-  async execute(context: VersionUpgradeContext): Promise<string | null> {
-    const { baseVersion, pr } = context;
-
-    // 🚫 业务规则检查：基于最新tag状态验证Main分支发布
-    await validateBranchVersionState('main', pr);
-
-    // 从Beta转换到Main：取Beta的基础号作为正式版本号
-    const betaBaseVersion = VersionUtils.getBaseVersionString(baseVersion);
-
-    logger.info(`🚀 从Beta转换为正式版: ${baseVersion} -> ${betaBaseVersion}`);
-    return betaBaseVersion;
+  const stableType = releaseType.replace(/^pre/, '');
+  if (stableType !== 'major' && stableType !== 'minor' && stableType !== 'patch') {
+    throw new ActionError(MESSAGES.error.manualInvalidReleaseType(releaseType, channel.branch), 'toChannelReleaseType');
   }
-
-  description = 'Main分支只接受Beta来源，转换为正式版本';
+  return stableType;
 }
 
 /**
- * 版本升级策略管理器
+ * 校验手动发布的版本：必须属于目标通道且高于通道当前版本
  */
-class VersionUpgradeManager {
-  private strategies: VersionUpgradeStrategy[] = [new AlphaStrategy(), new BetaStrategy(), new MainStrategy()];
-
-  /**
-   * 执行版本升级
-   */
-  async upgrade(context: VersionUpgradeContext): Promise<string | null> {
-    for (const strategy of this.strategies) {
-      if (strategy.canHandle(context)) {
-        logger.info(`📋 使用策略: ${strategy.description}`);
-        const result = strategy.execute(context);
-        return await Promise.resolve(result);
-      }
-    }
-
-    logger.error(`❌ 未找到适用的版本升级策略`);
-    return null;
+function validateManualVersion(version: string, channel: ReleaseChannel, currentVersion: string | null): void {
+  const parsed = VersionUtils.parseVersion(version);
+  if (!parsed) {
+    throw new ActionError(MESSAGES.error.invalidVersion(version), 'validateManualVersion');
+  }
+
+  const prereleaseId = parsed.prerelease.length > 0 ? String(parsed.prerelease[0]) : null;
+  if (prereleaseId !== channel.prerelease) {
+    const expected = channel.prerelease ? `x.y.z-${channel.prerelease}.n` : 'x.y.z';
+    throw new ActionError(
+      MESSAGES.error.manualChannelMismatch(version, channel.branch, expected),
+      'validateManualVersion',
+    );
   }
 
-  /**
-   * 获取所有策略的描述（用于调试）
-   */
-  getStrategiesDescription(): string[] {
-    return this.strategies.map((s) => s.description);
+  if (currentVersion && !semver.gt(parsed, VersionUtils.cleanVersion(currentVersion))) {
+    throw new ActionError(
+      MESSAGES.error.manualVersionNotGreater(version, channel.branch, currentVersion),
+      'validateManualVersion',
+    );
   }
 }
 
-// 全局策略管理器实例
-const upgradeManager = new VersionUpgradeManager();
-
-// ==================== 版本升级逻辑 ====================
-
 /**
- * 获取目标分支的基础版本 - 基于源分支和目标分支的完整判断逻辑
+ * 计算手动发布的版本号（workflow_dispatch）
+ *
+ * 指定版本时直接校验使用；指定发布类型时，入口通道沿用PR标签的推导逻辑，其余通道在当前版本上递增。
+ * 所有通道都先按晋升规则检查（手动发布没有源分支，按从下游通道晋升检查），新版本必须属于目标通道且高于当前版本。
  */
-export async function getBaseVersion(
-  targetBranch: SupportedBranch,
-  sourceBranch: string,
-  pr: PRData | null = null,
-): Promise<string | null> {
-  switch (targetBranch) {
-    case 'alpha': {
-      // Alpha分支：判断源分支类型
-      if (sourceBranch === 'beta' || sourceBranch === 'main') {
-        const errorMsg = `Alpha分支不接受来自${sourceBranch}分支的合并，Alpha分支只能用于新功能开发`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'getBaseVersion-alpha', pr);
-      }
-
-      const currentAlphaVersion = await versionManager.getLatestVersion('alpha');
-      const mainVersion = await versionManager.getLatestVersion('main');
-      const mainBaseVersion = mainVersion ? VersionUtils.getBaseVersionString(mainVersion) : '0.0.0';
-
-      if (!currentAlphaVersion) {
-        // 没有Alpha版本，基于Main分支版本开始
-        const baseVersion = mainVersion || VersionUtils.createDefaultVersion('base');
-        logger.info(`📌 Alpha分支基础版本: ${baseVersion} (无Alpha版本，基于Main版本)`);
-        return baseVersion;
-      }
-
-      // 比较Alpha基础号和Main版本
-      const alphaBaseVersion = VersionUtils.getBaseVersionString(currentAlphaVersion);
-
-      if (alphaBaseVersion === mainBaseVersion) {
-        // Alpha基础号与Main一致，说明是新功能要进入Alpha测试
-        logger.info(
-          `📌 Alpha分支基础版本: ${mainVersion || VersionUtils.createDefaultVersion('base')} (Alpha基础号与Main一致，准备新功能测试)`,
-        );
-        return mainVersion || VersionUtils.createDefaultVersion('base');
-      } else {
-        // Alpha基础号与Main不一致，说明已有新功能在Alpha测试
-        // 具体的版本计算逻辑（main+label vs current alpha）将在Strategy中处理
-        logger.info(`📌 Alpha分支基础版本: ${currentAlphaVersion} (Alpha基础号与Main不一致，已有功能在测试)`);
-        return currentAlphaVersion;
-      }
-    }
-
-    case 'beta': {
-      // Beta分支：严格基于源分支判断
-      const currentBetaVersion = await versionManager.getLatestVersion('beta');
-      const alphaVersion = await versionManager.getLatestVersion('alpha');
-
-      if (sourceBranch === 'alpha') {
-        // 源分支是Alpha：新功能进入Beta测试
-        if (!alphaVersion) {
-          const errorMsg = `从Alpha合并到Beta失败：没有可用的Alpha版本`;
-          logger.error(`❌ ${errorMsg}`);
-          await throwErrorWithComment(errorMsg, 'getBaseVersion-beta', pr);
-        }
-        logger.info(`📌 Beta分支基础版本: ${alphaVersion} (源分支Alpha，新功能进入Beta测试)`);
-        return alphaVersion;
-      } else {
-        // 源分支不是Alpha：Beta版本的增量更新
-        if (!currentBetaVersion) {
-          const errorMsg = `非Alpha分支合并到Beta失败：没有对应的Beta版本，全新功能必须先经过Alpha测试 (源分支: ${sourceBranch})`;
-          logger.error(`❌ ${errorMsg}`);
-          await throwErrorWithComment(errorMsg, 'getBaseVersion-beta', pr);
-        }
-
-        // 检查是否有对应基础号的Alpha版本（确保功能经过了Alpha测试）
-        if (alphaVersion) {
-          const betaBaseVersion = VersionUtils.getBaseVersionString(currentBetaVersion!);
-          const alphaBaseVersion = VersionUtils.getBaseVersionString(alphaVersion);
-
-          if (betaBaseVersion !== alphaBaseVersion) {
-            const errorMsg = `Beta版本基础号 (${betaBaseVersion}) 与Alpha版本基础号 (${alphaBaseVersion}) 不匹配，说明该功能未经过完整的Alpha测试流程`;
-            logger.error(`❌ ${errorMsg}`);
-            await throwErrorWithComment(errorMsg, 'getBaseVersion-beta', pr);
-          }
-        }
-
-        logger.info(`📌 Beta分支基础版本: ${currentBetaVersion} (非Alpha源分支，递增Beta版本)`);
-        return currentBetaVersion;
-      }
-    }
-
-    case 'main': {
-      // Main分支：只接受Beta分支来源
-      if (sourceBranch !== 'beta') {
-        const errorMsg = `Main分支只接受来自Beta分支的合并，当前源分支: ${sourceBranch}`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'getBaseVersion-main', pr);
-      }
-
-      const betaVersion = await versionManager.getLatestVersion('beta');
-      if (!betaVersion) {
-        const errorMsg = `Main分支发布失败：没有可用的Beta版本。Main分支只能用于发布已完成测试的Beta版本`;
-        logger.error(`❌ ${errorMsg}`);
-        await throwErrorWithComment(errorMsg, 'getBaseVersion-main', pr);
-      }
-
-      logger.info(`📌 Main分支基础版本: ${betaVersion} (基于Beta版本)`);
-      return betaVersion;
+export async function calculateManualVersion(
+  request: ManualReleaseRequest,
+  tagPrefix: string = VersionUtils.getVersionPrefix(),
+): Promise<string> {
+  const { targetBranch, releaseType, version, actor } = request;
+  const { channels } = getActionConfig();
+  const channel = getChannel(targetBranch, channels);
+  if (!channel) {
+    throw new ActionError(MESSAGES.error.unsupportedBranch(targetBranch), 'calculateManualVersion');
+  }
+
+  const versionManager = getVersionManager(tagPrefix);
+  const index = await versionManager.getTagIndex();
+  assertManualReleaseAllowed(index, targetBranch, actor, logger.info);
+  const currentVersion = await versionManager.getLatestVersion(targetBranch);
+
+  let newVersion: string | null = null;
+  if (version) {
+    newVersion = VersionUtils.cleanVersion(version);
+  } else if (releaseType && isEntryChannel(targetBranch, channels) && releaseType !== 'prerelease') {
+    // 入口通道：与PR标签相同，从正式版本推导目标版本
+    const baseVersion = await getBaseVersion(targetBranch, '', null, tagPrefix);
+    if (baseVersion) {
+      newVersion = resolveNextVersion({
+        baseVersion: VersionUtils.cleanVersion(baseVersion),
+        targetBranch,
+        sourceBranch: '',
+        releaseType,
+        index,
+        log: logger.info,
+      }).version;
     }
-
-    default:
-      return null;
+  } else if (releaseType) {
+    // 其余情况：在通道当前版本（没有时使用正式版本）上递增
+    const baseVersion =
+      currentVersion ||
+      (await versionManager.getLatestVersion(getStableChannel(channels).branch)) ||
+      VersionUtils.createDefaultVersion();
+    newVersion = semver.inc(
+      VersionUtils.cleanVersion(baseVersion),
+      toChannelReleaseType(releaseType, channel),
+      channel.prerelease ?? undefined,
+    );
+    logger.info(MESSAGES.log.manualIncrement(targetBranch, releaseType, baseVersion, newVersion));
   }
-}
 
-/**
- * 统一的版本升级计算逻辑 - 使用策略模式
- */
-async function calculateVersionUpgrade(
-  baseVersion: string,
-  targetBranch: SupportedBranch,
-  sourceBranch: string,
-  pr: PRData | null,
-): Promise<string | null> {
-  // 创建升级上下文
-  const context = createUpgradeContext(baseVersion, targetBranch, sourceBranch, pr);
-  if (!context) {
-    logger.error(`无法解析基础版本: ${baseVersion}`);
-    return null;
+  if (!newVersion) {
+    throw new ActionError(MESSAGES.error.manualMissingRelease, 'calculateManualVersion');
   }
 
-  // 使用策略管理器执行升级
-  const newVersion = await upgradeManager.upgrade(context);
-  return newVersion ? VersionUtils.addVersionPrefix(newVersion) : null;
+  validateManualVersion(newVersion, channel, currentVersion);
+  return VersionUtils.addVersionPrefix(newVersion);
 }
 
+// ==================== 版本文件操作 ====================
+
 /**
- * 计算新版本号 - 统一版本升级逻辑
+ * 读取包的名称和当前版本（用于同步锁文件）
  */
-export async function calculateNewVersion(
-  targetBranch: SupportedBranch,
-  sourceBranch: string,
-  pr: PRData | null,
-): Promise<string | null> {
+async function readPackageIdentity(baseDir = '.'): Promise<{ name: string; version: string } | null> {
   try {
-    // 获取上游分支的版本作为基础版本
-    const baseVersion = await getBaseVersion(targetBranch, sourceBranch, pr);
-    if (!baseVersion) {
-      logger.error(`❌ 无法获取 ${targetBranch} 分支的基础版本`);
-      return null;
-    }
-
-    logger.info(`📌 ${targetBranch} 分支基础版本: ${baseVersion}`);
-
-    // 统一的版本升级逻辑
-    const result = await calculateVersionUpgrade(baseVersion, targetBranch, sourceBranch, pr);
-
-    if (result) {
-      logger.info(`🎯 计算出新版本: ${result}`);
-    } else {
-      logger.info(`⏭️ 无需版本升级`);
-    }
-
-    return result;
-  } catch (error) {
-    throw new ActionError(`版本计算失败: ${error}`, 'calculateNewVersion', error);
+    const pkg = JSON.parse(await readFile(join(baseDir, 'package.json'), 'utf8'));
+    return pkg.name && pkg.version ? { name: pkg.name, version: pkg.version } : null;
+  } catch {
+    return null;
   }
 }
 
-// ==================== 版本文件操作 ====================
-
 /**
- * 安全地更新版本文件
+ * 安全地更新版本文件（按 version-files 配置写入所有目标，并同步锁文件），返回已更新的文件路径
  */
-export async function updatePackageVersion(version: string): Promise<void> {
+export async function updateVersionFiles(version: string, baseDir?: string): Promise<string[]> {
   try {
     const packageVersion = VersionUtils.cleanVersion(version);
-    const pkgPath = await resolvePackageJSON();
-    const pkgInfo = await readPackageJSON(pkgPath);
-    pkgInfo.version = packageVersion;
-    await writePackageJSON(pkgPath, pkgInfo);
-    logger.info(`版本文件已更新到: ${packageVersion}`);
+    const previous = await readPackageIdentity(baseDir);
+    const files = await writeVersionFiles(packageVersion, baseDir);
+    logger.info(MESSAGES.log.versionFilesUpdated(packageVersion, baseDir || ''));
+
+    // 锁文件位于仓库根目录，只更新其中的版本字段；按写入后 package.json 的实际版本判断，
+    // 不依赖 version-files 的写法（如 `package.json:regex:...`），package.json 版本未变化时锁文件保持不变
+    const current = await readPackageIdentity(baseDir);
+    if (previous && current && previous.version !== current.version) {
+      const lockfiles = await syncLockfiles([
+        { name: previous.name, dir: baseDir || '', previousVersion: previous.version, version: current.version },
+      ]);
+      files.push(...lockfiles);
+    }
+
+    return files;
   } catch (error) {
-    throw new ActionError(`更新版本文件失败: ${error}`, 'updatePackageVersion', error);
+    throw new ActionError(MESSAGES.error.versionFilesUpdateFailed(error), 'updateVersionFiles', error);
   }
 }
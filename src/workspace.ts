@@ -0,0 +1,219 @@
+import { access, readdir, readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { readPackageJSON } from 'pkg-types';
+import type { ReleaseType } from 'semver';
+import core, { logger } from './core';
+import { MESSAGES } from './i18n';
+import { ActionError, type PackageVersionPlan, type SupportedBranch, type VersionPRData } from './types';
+import { calculateNewVersion, getBaseVersion, VersionUtils } from './version';
+
+// ==================== Monorepo 配置 ====================
+
+/**
+ * Monorepo 配置（调用时读取输入参数）
+ */
+export function getMonorepoConfig() {
+  return {
+    /** 是否按 workspace 包独立管理版本 */
+    enabled: core.getInput('monorepo')?.toLowerCase() === 'true',
+  } as const;
+}
+
+/**
+ * Workspace 包信息
+ */
+export interface WorkspacePackage {
+  name: string;
+  /** 相对仓库根目录的路径（posix 格式） */
+  dir: string;
+  version: string;
+  private: boolean;
+}
+
+// ==================== Workspace 发现 ====================
+
+/** 遍历时忽略的目录 */
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * 读取 pnpm-workspace.yaml 中的 packages 列表
+ */
+async function readPnpmWorkspacePatterns(rootDir: string): Promise<string[] | null> {
+  let content = '';
+  try {
+    content = await readFile(join(rootDir, 'pnpm-workspace.yaml'), 'utf8');
+  } catch {
+    return null;
+  }
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const item = line.match(/^\s+-\s*(.+?)\s*$/);
+    if (item) {
+      patterns.push(item[1].replace(/^['"]|['"]$/g, ''));
+    } else if (line.trim() && !line.trim().startsWith('#')) {
+      // 遇到下一个顶层字段，packages 列表结束
+      break;
+    }
+  }
+  return patterns;
+}
+
+/**
+ * 读取 package.json 中的 workspaces 列表
+ */
+async function readPackageJSONWorkspacePatterns(rootDir: string): Promise<string[] | null> {
+  try {
+    const pkg = await readPackageJSON(rootDir);
+    const workspaces = pkg.workspaces as string[] | { packages?: string[] } | undefined;
+    if (Array.isArray(workspaces)) return workspaces;
+    return workspaces?.packages || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 展开 workspace 目录模式（支持 `*` 和 `**`）
+ */
+async function expandPattern(rootDir: string, pattern: string): Promise<string[]> {
+  const segments = posix.normalize(pattern.replace(/^\.\//, '')).split('/').filter(Boolean);
+
+  const walk = async (dir: string, index: number): Promise<string[]> => {
+    if (index === segments.length) return [dir];
+
+    const segment = segments[index];
+    if (segment !== '*' && segment !== '**') {
+      return walk(dir ? `${dir}/${segment}` : segment, index + 1);
+    }
+
+    let entries: string[] = [];
+    try {
+      const dirents = await readdir(join(rootDir, dir), { withFileTypes: true });
+      entries = dirents
+        .filter((d) => d.isDirectory() && !IGNORED_DIRS.has(d.name) && !d.name.startsWith('.'))
+        .map((d) => (dir ? `${dir}/${d.name}` : d.name));
+    } catch {
+      return [];
+    }
+
+    if (segment === '*') {
+      return (await Promise.all(entries.map((entry) => walk(entry, index + 1)))).flat();
+    }
+
+    // `**` 匹配零层或多层目录
+    const deeper = await Promise.all(entries.map((entry) => walk(entry, index)));
+    return [...(await walk(dir, index + 1)), ...deeper.flat()];
+  };
+
+  return walk('', 0);
+}
+
+/**
+ * 发现 workspace 中的所有包（pnpm-workspace.yaml 优先，其次 package.json workspaces）
+ */
+export async function discoverWorkspacePackages(rootDir = process.cwd()): Promise<WorkspacePackage[]> {
+  const patterns = (await readPnpmWorkspacePatterns(rootDir)) || (await readPackageJSONWorkspacePatterns(rootDir));
+  if (!patterns || patterns.length === 0) {
+    throw new ActionError(MESSAGES.error.workspaceNotFound, 'discoverWorkspace');
+  }
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of patterns) {
+    const isNegated = pattern.startsWith('!');
+    const dirs = await expandPattern(rootDir, isNegated ? pattern.slice(1) : pattern);
+    for (const dir of dirs) {
+      (isNegated ? excluded : included).add(dir);
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of Array.from(included)
+    .filter((d) => !excluded.has(d))
+    .sort()) {
+    const pkgPath = join(rootDir, dir, 'package.json');
+    try {
+      // readPackageJSON 会向上查找，需先确认目录自身有 package.json
+      await access(pkgPath);
+      const pkg = await readPackageJSON(pkgPath);
+      if (!pkg.name) {
+        logger.warning(MESSAGES.log.workspacePackageNoName(dir));
+        continue;
+      }
+      packages.push({ name: pkg.name, dir, version: pkg.version || '0.0.0', private: pkg.private === true });
+    } catch {
+      // 目录下没有 package.json，不是包
+    }
+  }
+
+  logger.info(MESSAGES.log.workspacePackagesFound(packages.length, packages.map((p) => p.name).join(', ')));
+  return packages;
+}
+
+// ==================== 包版本规划 ====================
+
+/**
+ * 获取包的标签前缀（如 `@scope/pkg@`）
+ */
+export function getPackageTagPrefix(pkg: Pick<WorkspacePackage, 'name'>): string {
+  return `${pkg.name}@`;
+}
+
+/**
+ * 生成包的版本标签（如 `@scope/pkg@1.2.0-beta.1`）
+ */
+export function getPackageTag(pkg: Pick<WorkspacePackage, 'name'>, version: string): string {
+  return `${getPackageTagPrefix(pkg)}${VersionUtils.cleanVersion(version)}`;
+}
+
+/**
+ * 找出被变更文件影响的包（嵌套包时文件归属最深的包）
+ */
+export function getAffectedPackages(packages: WorkspacePackage[], changedFiles: string[]): WorkspacePackage[] {
+  const affected = new Set<WorkspacePackage>();
+  for (const file of changedFiles) {
+    const owner = packages
+      .filter((pkg) => file.startsWith(`${pkg.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    if (owner) affected.add(owner);
+  }
+  return packages.filter((pkg) => affected.has(pkg));
+}
+
+/**
+ * 为受影响的 workspace 包规划版本
+ */
+export async function planWorkspaceVersions(
+  packages: WorkspacePackage[],
+  changedFiles: string[],
+  targetBranch: SupportedBranch,
+  sourceBranch: string,
+  pr: VersionPRData | null,
+  releaseType?: ReleaseType,
+): Promise<PackageVersionPlan[]> {
+  const affected = getAffectedPackages(packages, changedFiles);
+  if (affected.length === 0) {
+    logger.info(MESSAGES.log.workspaceUnaffected);
+    return [];
+  }
+
+  logger.info(MESSAGES.log.workspaceAffected(affected.map((p) => p.name).join(', ')));
+
+  const plans: PackageVersionPlan[] = [];
+  for (const pkg of affected) {
+    const tagPrefix = getPackageTagPrefix(pkg);
+    logger.info(MESSAGES.log.workspacePackageHeader(pkg.name));
+    const currentVersion = await getBaseVersion(targetBranch, sourceBranch, pr, tagPrefix);
+    const nextVersion = await calculateNewVersion(targetBranch, sourceBranch, pr, tagPrefix, releaseType);
+    plans.push({ name: pkg.name, dir: pkg.dir, private: pkg.private, tagPrefix, currentVersion, nextVersion });
+  }
+  return plans;
+}
@@ -2,9 +2,11 @@ import { defineConfig } from 'tsup';
 import { dependencies } from './package.json';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/cli.ts', 'src/lib.ts'],
   splitting: false,
   sourcemap: false,
+  // 只为库入口生成类型声明（exports["./lib"]），Action 和 CLI 入口不需要
+  dts: { entry: { lib: 'src/lib.ts' } },
   clean: true,
   noExternal: [...Object.keys(dependencies)],
 });